@@ -3,10 +3,9 @@
  * @description Modern implementation of Fal.ai client for image generation
  */
 
-import { fal } from "@fal-ai/client";
+import { ApiError, fal } from "@fal-ai/client";
 import { Logger } from "../utils/logger";
 import {
-  GenerateImageResponse,
   StatusResponse,
   ImageResponse,
   WaitForCompletionOptions,
@@ -14,6 +13,35 @@ import {
 } from "../interfaces/apiResponses";
 import { MediaError, MediaErrorCode } from "../errors/mediaError";
 
+/**
+ * Fal.ai image sizes of the supported aspect ratios
+ */
+export const IMAGE_ASPECT_RATIOS: Record<
+  string,
+  | "square_hd"
+  | "landscape_4_3"
+  | "portrait_4_3"
+  | "landscape_16_9"
+  | "portrait_16_9"
+> = {
+  "1:1": "square_hd",
+  "4:3": "landscape_4_3",
+  "3:4": "portrait_4_3",
+  "16:9": "landscape_16_9",
+  "9:16": "portrait_16_9",
+};
+
+/**
+ * @interface ImageGenerationOptions
+ * @description Optional settings of a text-to-image generation
+ */
+export interface ImageGenerationOptions {
+  /** Seed of the generation, to reproduce an image */
+  seed?: number;
+  /** One of IMAGE_ASPECT_RATIOS, 16:9 by default */
+  aspectRatio?: string;
+}
+
 /**
  * @class ImageClient
  * @description Client for interacting with the Fal.ai image generation API
@@ -21,6 +49,7 @@ import { MediaError, MediaErrorCode } from "../errors/mediaError";
 export class ImageClient {
   private readonly apiKey: string;
   private jobIdMap: Map<string, string> = new Map(); // Maps taskId to Fal job id
+  private jobEndpointMap: Map<string, string> = new Map(); // Maps taskId to Fal endpoint
 
   /**
    * @constructor
@@ -57,15 +86,102 @@ export class ImageClient {
     return jobId;
   }
 
+  /**
+   * @private
+   * @method trackJob
+   * @description Remembers the Fal request of a task once it is enqueued, so it can be cancelled
+   */
+  private trackJob(taskId: string, endpoint: string, requestId: string): void {
+    this.jobIdMap.set(taskId, requestId);
+    this.jobEndpointMap.set(taskId, endpoint);
+    Logger.debug(`Mapped taskId ${taskId} to Fal job id ${requestId}`);
+  }
+
+  /**
+   * @private
+   * @method toMediaError
+   * @description Map a failed Fal request to a MediaError: an API error with
+   * the HTTP status Fal responded with, else a network error
+   * @param {unknown} error - The error thrown by the request
+   * @param {string} operation - What the request was for, used in the message
+   */
+  private toMediaError(error: unknown, operation: string): MediaError {
+    if (error instanceof MediaError) {
+      return error;
+    }
+    if (error instanceof ApiError) {
+      return new MediaError(
+        MediaErrorCode.API_ERROR,
+        error.status,
+        `Fal.ai responded ${error.status} during ${operation}: ${error.message}`
+      );
+    }
+    return new MediaError(
+      MediaErrorCode.NETWORK_ERROR,
+      500,
+      `Network error during ${operation}: ${error}`
+    );
+  }
+
+  /**
+   * @private
+   * @method createCancelledError
+   * @description Error thrown when a generation is aborted
+   */
+  private createCancelledError(taskId: string): MediaError {
+    return new MediaError(
+      MediaErrorCode.CANCELLED,
+      499,
+      `Image generation for taskId ${taskId} was cancelled`
+    );
+  }
+
+  /**
+   * @method cancelImage
+   * @description Cancels the Fal request of a task, if it has been enqueued.
+   * Fal may not be able to stop a request that is already running.
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<void>}
+   * @throws {MediaError} If the cancel request fails
+   */
+  async cancelImage(taskId: string): Promise<void> {
+    const jobId = this.jobIdMap.get(taskId);
+    if (!jobId) {
+      Logger.debug(`No Fal job to cancel for taskId ${taskId}`);
+      return;
+    }
+    const endpoint = this.jobEndpointMap.get(taskId) || "fal-ai/flux/schnell";
+    try {
+      Logger.info(`Cancelling Fal job id ${jobId} of taskId ${taskId}`);
+      await fal.queue.cancel(endpoint, { requestId: jobId });
+    } catch (error) {
+      throw new MediaError(
+        MediaErrorCode.API_ERROR,
+        500,
+        `Could not cancel Fal job ${jobId}: ${error}`
+      );
+    } finally {
+      this.jobIdMap.delete(taskId);
+      this.jobEndpointMap.delete(taskId);
+    }
+  }
+
   /**
    * @method generateImage
    * @description Generates an image from a text prompt and returns the result directly
    * @param {string} taskId - Our internal task ID
    * @param {string} prompt - The text prompt for image generation
+   * @param {AbortSignal} [signal] - Aborts waiting for the result, e.g. when the task is cancelled
+   * @param {ImageGenerationOptions} [options] - Seed and aspect ratio of the image
    * @returns {Promise<ImageResponse>} Response containing the image URL and metadata
-   * @throws {MediaError} If the API request fails
+   * @throws {MediaError} If the API request fails or is aborted
    */
-  async generateImage(taskId: string, prompt: string): Promise<ImageResponse> {
+  async generateImage(
+    taskId: string,
+    prompt: string,
+    signal?: AbortSignal,
+    options: ImageGenerationOptions = {}
+  ): Promise<ImageResponse> {
     if (!prompt) {
       throw new MediaError(
         MediaErrorCode.INVALID_REQUEST,
@@ -80,12 +196,17 @@ export class ImageClient {
       const result = await fal.subscribe("fal-ai/flux/schnell", {
         input: {
           prompt: prompt,
-          image_size: "landscape_16_9",
+          image_size:
+            IMAGE_ASPECT_RATIOS[options.aspectRatio || ""] || "landscape_16_9",
           num_inference_steps: 4,
           num_images: 1,
           enable_safety_checker: true,
+          ...(options.seed !== undefined && { seed: options.seed }),
         },
         logs: true,
+        abortSignal: signal,
+        onEnqueue: (requestId) =>
+          this.trackJob(taskId, "fal-ai/flux/schnell", requestId),
         onQueueUpdate: (update) => {
           if (update.status === "COMPLETED") {
             Logger.debug(
@@ -117,28 +238,32 @@ export class ImageClient {
       if (error instanceof MediaError) {
         throw error;
       }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        `Network error during image generation: ${error}`
-      );
+      if (signal?.aborted) {
+        throw this.createCancelledError(taskId);
+      }
+      throw this.toMediaError(error, "image generation");
     }
   }
 
   /**
    * @method generateImageToImage
-   * @description Initiates the generation of a new image from an input image and prompt
+   * @description Generates a new image from an input image and prompt and returns the result directly
    * @param {string} taskId - Our internal task ID
    * @param {string} inputImageUrl - The URL of the input image
    * @param {string} prompt - The text prompt for image transformation
-   * @returns {Promise<GenerateImageResponse>} Response containing the task ID and initial status
-   * @throws {MediaError} If the API request fails
+   * @param {AbortSignal} [signal] - Aborts waiting for the result, e.g. when the task is cancelled
+   * @param {ImageGenerationOptions} [options] - Seed of the generation; the
+   * image keeps the aspect ratio of the input image
+   * @returns {Promise<ImageResponse>} Response containing the image URL and metadata
+   * @throws {MediaError} If the API request fails or is aborted
    */
   async generateImageToImage(
     taskId: string,
     inputImageUrl: string,
-    prompt: string
-  ): Promise<GenerateImageResponse> {
+    prompt: string,
+    signal?: AbortSignal,
+    options: Pick<ImageGenerationOptions, "seed"> = {}
+  ): Promise<ImageResponse> {
     if (!inputImageUrl || !prompt) {
       throw new MediaError(
         MediaErrorCode.INVALID_REQUEST,
@@ -157,31 +282,41 @@ export class ImageClient {
           guidance_scale: 5,
           num_images: 1,
           enable_safety_checker: true,
+          ...(options.seed !== undefined && { seed: options.seed }),
         },
         logs: true,
+        abortSignal: signal,
+        onEnqueue: (requestId) =>
+          this.trackJob(taskId, "fal-ai/flux/dev/image-to-image", requestId),
       });
-      if (!result?.requestId) {
+      // Fal.ai's subscribe result type does not expose 'images', but the real response includes it
+      const resultAny = result as any;
+      if (!resultAny?.data?.images?.[0]?.url) {
         throw new MediaError(
           MediaErrorCode.API_ERROR,
           500,
-          "No requestId received from Fal.ai."
+          "No image received from Fal.ai."
         );
       }
-      this.jobIdMap.set(taskId, result.requestId);
       return {
-        id: taskId,
-        status: "submitted",
-        estimatedTime: 20,
+        jobId: resultAny.requestId || taskId,
+        image: {
+          imageId: resultAny.requestId || taskId,
+          url: resultAny.data.images[0].url,
+        },
+        metadata: {
+          prompt: prompt,
+          inputImageUrl: inputImageUrl,
+        },
       };
     } catch (error) {
       if (error instanceof MediaError) {
         throw error;
       }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        `Network error during image-to-image generation: ${error}`
-      );
+      if (signal?.aborted) {
+        throw this.createCancelledError(taskId);
+      }
+      throw this.toMediaError(error, "image-to-image generation");
     }
   }
 
@@ -222,14 +357,7 @@ export class ImageClient {
         data: statusData,
       };
     } catch (error) {
-      if (error instanceof MediaError) {
-        throw error;
-      }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        "Network error during status check"
-      );
+      throw this.toMediaError(error, "status check");
     }
   }
 
@@ -323,14 +451,7 @@ export class ImageClient {
         },
       };
     } catch (error) {
-      if (error instanceof MediaError) {
-        throw error;
-      }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        "Network error during image retrieval"
-      );
+      throw this.toMediaError(error, "image retrieval");
     }
   }
 }
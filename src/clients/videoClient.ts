@@ -15,6 +15,16 @@ import {
 
 // Puedes reutilizar SunoError si quieres unificar la gestión de errores
 import { MediaError, MediaErrorCode } from "../errors/mediaError";
+import { sleep } from "../core/cancellationToken";
+import {
+  InMemoryProviderJobStore,
+  ProviderJobStore,
+} from "../core/providerJobStore";
+
+/**
+ * Aspect ratios PiAPI generates videos in
+ */
+export const VIDEO_ASPECT_RATIOS = ["16:9", "9:16", "1:1"];
 
 /**
  * @class VideoClient
@@ -24,7 +34,7 @@ export class VideoClient {
   private readonly apiKey: string;
   private readonly baseUrl: string;
   private readonly defaultTimeout: number;
-  private jobIdMap: Map<string, string> = new Map(); // Maps taskId to PiAPI task_id
+  private readonly jobStore: ProviderJobStore; // Maps taskId to PiAPI task_id
 
   /**
    * @constructor
@@ -32,8 +42,14 @@ export class VideoClient {
    * @param {string} config.apiKey - API key for authentication
    * @param {string} [config.baseUrl] - Base URL for the API (optional)
    * @param {number} [config.timeout] - Default timeout in milliseconds (optional)
+   * @param {ProviderJobStore} [config.jobStore] - Storage of the PiAPI task_id of each task (optional)
    */
-  constructor(config: { apiKey: string; baseUrl?: string; timeout?: number }) {
+  constructor(config: {
+    apiKey: string;
+    baseUrl?: string;
+    timeout?: number;
+    jobStore?: ProviderJobStore;
+  }) {
     if (!config.apiKey) {
       throw new MediaError(
         MediaErrorCode.INVALID_API_KEY,
@@ -44,6 +60,7 @@ export class VideoClient {
     this.apiKey = config.apiKey;
     this.baseUrl = config.baseUrl || "https://api.piapi.ai/api/v1";
     this.defaultTimeout = config.timeout || 30000;
+    this.jobStore = config.jobStore || new InMemoryProviderJobStore();
   }
 
   /**
@@ -65,8 +82,8 @@ export class VideoClient {
    * @method getJobId
    * @description Gets the PiAPI task_id for a given taskId
    */
-  private getJobId(taskId: string): string {
-    const jobId = this.jobIdMap.get(taskId);
+  private async getJobId(taskId: string): Promise<string> {
+    const jobId = (await this.jobStore.get(taskId))?.jobId;
     if (!jobId) {
       throw new MediaError(
         MediaErrorCode.INVALID_REQUEST,
@@ -77,6 +94,27 @@ export class VideoClient {
     return jobId;
   }
 
+  /**
+   * @method hasJob
+   * @description Whether a PiAPI job was already submitted for a task, e.g.
+   * before a restart, and can be polled instead of submitting a new one
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<boolean>} True if the task has a PiAPI job
+   */
+  async hasJob(taskId: string): Promise<boolean> {
+    return (await this.jobStore.get(taskId)) !== null;
+  }
+
+  /**
+   * @method releaseJob
+   * @description Forget the PiAPI job of a task once its video was retrieved
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<void>}
+   */
+  async releaseJob(taskId: string): Promise<void> {
+    await this.jobStore.delete(taskId);
+  }
+
   /**
    * @method generateVideo
    * @description Initiates the generation of a new video with the specified options
@@ -84,6 +122,7 @@ export class VideoClient {
    * @param {string[]} imageUrls - List of image URLs to use as reference
    * @param {string} prompt - The text prompt for video generation
    * @param {number} [duration=5] - Duration of the video in seconds (5 or 10)
+   * @param {string} [aspectRatio=16:9] - One of VIDEO_ASPECT_RATIOS
    * @returns {Promise<GenerateVideoResponse>} Response containing the task ID and initial status
    * @throws {MediaError} If the API request fails
    */
@@ -91,7 +130,8 @@ export class VideoClient {
     taskId: string,
     imageUrls: string[],
     prompt: string,
-    duration: number = 5
+    duration: number = 5,
+    aspectRatio: string = "16:9"
   ): Promise<GenerateVideoResponse> {
     if (!prompt) {
       throw new MediaError(
@@ -110,6 +150,9 @@ export class VideoClient {
     if (![5, 10].includes(duration)) {
       duration = 5;
     }
+    if (!VIDEO_ASPECT_RATIOS.includes(aspectRatio)) {
+      aspectRatio = "16:9";
+    }
     const payload = {
       model: "kling",
       task_type: "video_generation",
@@ -119,7 +162,7 @@ export class VideoClient {
         duration,
         elements: imageUrls.map((url) => ({ image_url: url })),
         mode: "std",
-        aspect_ratio: "16:9",
+        aspect_ratio: aspectRatio,
         version: "1.6",
       },
       config: {
@@ -144,7 +187,12 @@ export class VideoClient {
         );
       }
       const piapiTaskId = response.data.data.task_id;
-      this.jobIdMap.set(taskId, piapiTaskId);
+      await this.jobStore.set({
+        taskId,
+        provider: "piapi",
+        jobId: piapiTaskId,
+        submittedAt: new Date().toISOString(),
+      });
       Logger.debug(`Mapped taskId ${taskId} to PiAPI task_id ${piapiTaskId}`);
       return {
         id: taskId,
@@ -152,14 +200,7 @@ export class VideoClient {
         estimatedTime: duration,
       };
     } catch (error) {
-      if (error instanceof MediaError) {
-        throw error;
-      }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        `Network error during video generation: ${error}`
-      );
+      throw this.toMediaError(error, "video generation");
     }
   }
 
@@ -179,7 +220,7 @@ export class VideoClient {
       );
     }
     try {
-      const jobId = this.getJobId(taskId);
+      const jobId = await this.getJobId(taskId);
       Logger.debug(
         `Checking status for taskId ${taskId} with PiAPI task_id ${jobId}`
       );
@@ -201,14 +242,7 @@ export class VideoClient {
         data: statusData,
       };
     } catch (error) {
-      if (error instanceof MediaError) {
-        throw error;
-      }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        "Network error during status check"
-      );
+      throw this.toMediaError(error, "status check");
     }
   }
 
@@ -218,19 +252,27 @@ export class VideoClient {
    * @param {string} taskId - Our internal task ID
    * @param {Object} [options] - Options for the wait operation
    * @returns {AsyncGenerator<StatusData, VideoResponse>} Generator that yields status updates and returns video data
-   * @throws {MediaError} If the wait operation times out or fails
+   * @throws {MediaError} If the wait operation times out, fails or is aborted
    */
   async *waitForCompletion(
     taskId: string,
     options: WaitForCompletionOptions = {}
   ): AsyncGenerator<StatusData, VideoResponse> {
-    const { timeout = 1200000, interval = 5000, onStatusUpdate } = options;
+    const {
+      timeout = 1200000,
+      interval = 5000,
+      onStatusUpdate,
+      signal,
+    } = options;
     const startTime = Date.now();
-    const jobId = this.getJobId(taskId);
+    const jobId = await this.getJobId(taskId);
     Logger.debug(
       `Waiting for completion of taskId ${taskId} with PiAPI task_id ${jobId}`
     );
     while (true) {
+      if (signal?.aborted) {
+        throw this.createCancelledError(jobId);
+      }
       if (Date.now() - startTime > timeout) {
         throw new MediaError(
           MediaErrorCode.TIMEOUT,
@@ -238,10 +280,18 @@ export class VideoClient {
           `Video generation timed out after ${timeout}ms`
         );
       }
-      const response = await axios.get(
-        `${this.baseUrl}/task/${jobId}`,
-        this.getRequestHeaders()
-      );
+      let response: AxiosResponse;
+      try {
+        response = await axios.get(`${this.baseUrl}/task/${jobId}`, {
+          ...this.getRequestHeaders(),
+          signal,
+        });
+      } catch (error) {
+        if (signal?.aborted) {
+          throw this.createCancelledError(jobId);
+        }
+        throw this.toMediaError(error, "status check");
+      }
       const status = response.data.data.status;
       const progress = response.data.data.progress || 0;
       const statusData: StatusData = {
@@ -257,14 +307,78 @@ export class VideoClient {
       if (status === "completed") {
         return await this.getVideo(taskId);
       } else if (status === "failed" || status === "cancelled") {
+        await this.jobStore.delete(taskId);
         throw new MediaError(
           MediaErrorCode.GENERATION_FAILED,
           500,
           `Task ${status}: Task ${jobId} has failed or was cancelled.`
         );
       }
-      await new Promise((resolve) => setTimeout(resolve, interval));
+      await sleep(interval, signal);
+    }
+  }
+
+  /**
+   * @method cancelVideo
+   * @description Cancels the PiAPI job of a task. PiAPI only cancels jobs that
+   * have not started yet; a running job is left to finish and its result ignored.
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<void>}
+   * @throws {MediaError} If the cancel request fails
+   */
+  async cancelVideo(taskId: string): Promise<void> {
+    const jobId = await this.getJobId(taskId);
+    try {
+      Logger.info(`Cancelling PiAPI task_id ${jobId} of taskId ${taskId}`);
+      await axios.delete(
+        `${this.baseUrl}/task/${jobId}`,
+        this.getRequestHeaders()
+      );
+    } catch (error) {
+      throw this.toMediaError(error, `cancellation of PiAPI task ${jobId}`);
+    } finally {
+      await this.jobStore.delete(taskId);
+    }
+  }
+
+  /**
+   * @private
+   * @method toMediaError
+   * @description Map a failed PiAPI request to a MediaError: an API error with
+   * the HTTP status PiAPI responded with, else a network error
+   * @param {unknown} error - The error thrown by the request
+   * @param {string} operation - What the request was for, used in the message
+   */
+  private toMediaError(error: unknown, operation: string): MediaError {
+    if (error instanceof MediaError) {
+      return error;
+    }
+    const status = axios.isAxiosError(error) && error.response?.status;
+    if (status) {
+      return new MediaError(
+        MediaErrorCode.API_ERROR,
+        status,
+        `PiAPI responded ${status} during ${operation}`
+      );
     }
+    return new MediaError(
+      MediaErrorCode.NETWORK_ERROR,
+      500,
+      `Network error during ${operation}: ${error}`
+    );
+  }
+
+  /**
+   * @private
+   * @method createCancelledError
+   * @description Error thrown when waiting on a cancelled job
+   */
+  private createCancelledError(jobId: string): MediaError {
+    return new MediaError(
+      MediaErrorCode.CANCELLED,
+      499,
+      `Waiting for PiAPI task ${jobId} was cancelled`
+    );
   }
 
   /**
@@ -283,7 +397,7 @@ export class VideoClient {
       );
     }
     try {
-      const jobId = this.getJobId(taskId);
+      const jobId = await this.getJobId(taskId);
       Logger.debug(
         `Getting video for taskId ${taskId} with PiAPI task_id ${jobId}`
       );
@@ -315,14 +429,7 @@ export class VideoClient {
         },
       };
     } catch (error) {
-      if (error instanceof MediaError) {
-        throw error;
-      }
-      throw new MediaError(
-        MediaErrorCode.NETWORK_ERROR,
-        500,
-        "Network error during video retrieval"
-      );
+      throw this.toMediaError(error, "video retrieval");
     }
   }
 }
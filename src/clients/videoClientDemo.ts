@@ -11,6 +11,7 @@ import {
   StatusData,
 } from "../interfaces/apiResponses";
 import { MediaError, MediaErrorCode } from "../errors/mediaError";
+import { sleep } from "../core/cancellationToken";
 import { Logger } from "../utils/logger";
 
 /**
@@ -79,6 +80,28 @@ export class VideoClient {
     return jobId;
   }
 
+  /**
+   * @method hasJob
+   * @description Whether a demo job was already started for a task
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<boolean>} True if the task has a demo job
+   */
+  async hasJob(taskId: string): Promise<boolean> {
+    return this.jobIdMap.has(taskId);
+  }
+
+  /**
+   * @method releaseJob
+   * @description Forget the demo job of a task once its video was retrieved
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<void>}
+   */
+  async releaseJob(taskId: string): Promise<void> {
+    this.jobIdMap.delete(taskId);
+    this.jobStartTimes.delete(taskId);
+    this.jobDurations.delete(taskId);
+  }
+
   /**
    * @method generateVideo
    * @description Simulates the generation of a new video
@@ -86,6 +109,7 @@ export class VideoClient {
    * @param {string[]} imageUrls - List of image URLs to use as reference
    * @param {string} prompt - The text prompt for video generation
    * @param {number} [duration=5] - Duration of the video in seconds (simulated)
+   * @param {string} [aspectRatio=16:9] - Aspect ratio of the video (simulated)
    * @returns {Promise<GenerateVideoResponse>} Response containing the task ID and initial status
    * @throws {MediaError} If the input parameters are invalid
    */
@@ -93,7 +117,8 @@ export class VideoClient {
     taskId: string,
     imageUrls: string[],
     prompt: string,
-    duration: number = 5
+    duration: number = 5,
+    aspectRatio: string = "16:9"
   ): Promise<GenerateVideoResponse> {
     if (!prompt) {
       throw new MediaError(
@@ -118,7 +143,9 @@ export class VideoClient {
     this.jobIdMap.set(taskId, `demo-job-${Date.now()}`);
 
     const jobId = this.getJobId(taskId);
-    Logger.debug(`Mapped taskId ${taskId} to demo task_id ${jobId}`);
+    Logger.debug(
+      `Mapped taskId ${taskId} to demo task_id ${jobId} (${duration}s, ${aspectRatio})`
+    );
 
     return {
       id: taskId,
@@ -213,6 +240,7 @@ export class VideoClient {
       timeout = this.defaultTimeout,
       interval = 2000,
       onStatusUpdate,
+      signal,
     } = options;
 
     const start = this.jobStartTimes.get(taskId) || Date.now();
@@ -227,6 +255,13 @@ export class VideoClient {
     const startTime = Date.now();
 
     while (true) {
+      if (signal?.aborted) {
+        throw new MediaError(
+          MediaErrorCode.CANCELLED,
+          499,
+          `Waiting for demo task ${jobId} was cancelled`
+        );
+      }
       if (Date.now() - startTime > timeout) {
         throw new MediaError(
           MediaErrorCode.TIMEOUT,
@@ -246,7 +281,7 @@ export class VideoClient {
         };
         if (onStatusUpdate) onStatusUpdate(statusData);
         yield statusData;
-        await new Promise((resolve) => setTimeout(resolve, interval));
+        await sleep(interval, signal);
       } else {
         const statusData: StatusData = {
           status: "completed",
@@ -260,6 +295,19 @@ export class VideoClient {
     }
   }
 
+  /**
+   * @method cancelVideo
+   * @description Simulates cancelling the job of a task
+   * @param {string} taskId - Our internal task ID
+   * @returns {Promise<void>}
+   */
+  async cancelVideo(taskId: string): Promise<void> {
+    Logger.info(`Cancelling demo job of taskId ${taskId}`);
+    this.jobIdMap.delete(taskId);
+    this.jobStartTimes.delete(taskId);
+    this.jobDurations.delete(taskId);
+  }
+
   /**
    * @method getVideo
    * @description Simulates retrieving the generated video data once complete
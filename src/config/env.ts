@@ -24,10 +24,21 @@ export interface EnvConfig {
   FAL_KEY: string;
   PIAPI_KEY: string;
   MAX_CONCURRENT_TASKS: number;
+  SKILL_CONCURRENCY: Record<string, number>;
+  PROVIDER_CONCURRENCY: Record<string, number>;
+  SKILL_QUEUE_DEPTH: Record<string, number>;
+  PROVIDER_QUEUE_DEPTH: Record<string, number>;
   MAX_RETRIES: number;
   RETRY_DELAY: number;
+  MAX_RETRY_DELAY: number;
   TASK_TIMEOUT: number;
+  SHUTDOWN_GRACE_PERIOD: number;
   DEMO_MODE: boolean;
+  DATA_DIR: string;
+  /** Base URL the providers reach the agent at; inline files need it */
+  PUBLIC_URL?: string;
+  MAX_BODY_SIZE: string;
+  ADMIN_API_KEY: string;
 }
 
 /**
@@ -40,12 +51,21 @@ export const defaultConfig: Partial<EnvConfig> = {
   NODE_ENV: "development",
   LOG_LEVEL: "info",
   MAX_CONCURRENT_TASKS: 10,
+  SKILL_CONCURRENCY: {},
+  PROVIDER_CONCURRENCY: { piapi: 5 }, // Leaves room for image tasks
+  SKILL_QUEUE_DEPTH: {},
+  PROVIDER_QUEUE_DEPTH: { fal: 200, piapi: 50 },
   MAX_RETRIES: 3,
   RETRY_DELAY: 1000,
+  MAX_RETRY_DELAY: 30000,
   TASK_TIMEOUT: 300000, // 5 minutes
+  SHUTDOWN_GRACE_PERIOD: 30000,
   FAL_KEY: "",
   PIAPI_KEY: "",
   DEMO_MODE: false,
+  DATA_DIR: "data",
+  MAX_BODY_SIZE: "20mb",
+  ADMIN_API_KEY: "", // Admin routes are disabled without a key
 };
 
 /**
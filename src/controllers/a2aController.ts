@@ -3,16 +3,86 @@
  * @description Controller for handling A2A (Agent-to-Agent) interactions
  */
 
-import { Request, Response } from "express";
-import { Task, TaskState, Message, TaskStatus } from "../interfaces/a2a";
-import { TaskStore } from "../core/taskStore";
+import { NextFunction, Request, Response } from "express";
+import path from "path";
+import crypto from "crypto";
+import {
+  Task,
+  TaskState,
+  TaskPriority,
+  TaskQueuePosition,
+  Message,
+  TaskStatus,
+  MessagePart,
+  JSONRPCRequest,
+  JSONRPCResponse,
+} from "../interfaces/a2a";
+import { FileTaskStore, TaskStore } from "../core/taskStore";
 import { SessionManager } from "../core/sessionManager";
-import { ErrorHandler } from "../core/errorHandler";
+import {
+  A2AError,
+  AgentRestartingError,
+  ContentTypeNotSupportedError,
+  IdempotencyConflictError,
+  ErrorHandler,
+  InvalidParamsError,
+  InvalidRequestError,
+  MethodNotFoundError,
+  ScheduleNotFoundError,
+  TaskNotCancelableError,
+  TaskNotFoundError,
+  UnauthorizedError,
+} from "../core/errorHandler";
+import { toJsonRpcError, getHttpStatus } from "../errors/errorCatalog";
+import {
+  getTaskParameters,
+  getTaskPriority,
+  getTaskRunAt,
+} from "../utils/taskParameters";
+import { negotiateOutputMode } from "../utils/outputModes";
+import { resolveTaskTimeout } from "../utils/taskTimeout";
+import {
+  IDEMPOTENCY_KEY_TTL,
+  getSubmissionFingerprint,
+  validateIdempotencyKey,
+} from "../utils/idempotency";
 import { TaskProcessor } from "../core/taskProcessor";
-import { TaskQueue } from "../core/taskQueue";
+import { PoolStatus, TaskQueue } from "../core/taskQueue";
+import {
+  DeadLetterEntry,
+  DeadLetterStore,
+  FileDeadLetterStore,
+  InMemoryDeadLetterStore,
+} from "../core/deadLetterStore";
+import { FileProviderJobStore } from "../core/providerJobStore";
+import {
+  FileScheduleStore,
+  InMemoryScheduleStore,
+  Schedule,
+  ScheduleStore,
+  ScheduleTaskTemplate,
+} from "../core/scheduleStore";
+import { Scheduler } from "../core/scheduler";
+import { parseCron } from "../utils/cron";
+import {
+  MAX_BATCH_TASKS,
+  aggregateBatch,
+  describeBatch,
+  isFinalState,
+} from "../utils/batch";
+import { expandSweep } from "../utils/sweep";
 import { Logger } from "../utils/logger";
 import { PushNotificationService } from "../services/pushNotificationService";
 import { StreamingService } from "../services/streamingService";
+import { EventLog } from "../core/eventLog";
+import { ArtifactStore } from "../core/artifactStore";
+import { SkillRegistry } from "../core/skillRegistry";
+import { buildAgentCard } from "../core/agentCard";
+import { createSkillRegistry } from "../skills/mediaSkills";
+import {
+  FilePushNotificationConfigStore,
+  InMemoryPushNotificationConfigStore,
+} from "../core/pushNotificationStore";
 import {
   PushNotificationEvent,
   PushNotificationEventType,
@@ -26,10 +96,19 @@ import { VideoGenerationController } from "./videoController";
  */
 interface A2AControllerConfig {
   maxConcurrent?: number;
+  skillConcurrency?: Record<string, number>;
+  providerConcurrency?: Record<string, number>;
+  skillQueueDepth?: Record<string, number>;
+  providerQueueDepth?: Record<string, number>;
   maxRetries?: number;
   retryDelay?: number;
+  maxRetryDelay?: number;
   falKey?: string;
   piapiKey?: string;
+  dataDir?: string;
+  publicUrl?: string;
+  taskTimeout?: number;
+  adminApiKey?: string;
 }
 
 /**
@@ -38,11 +117,72 @@ interface A2AControllerConfig {
  */
 export interface QueueStatus {
   queuedTasks: number;
+  delayedTasks: number;
+  queuedByPriority: Record<TaskPriority, number>;
   processingTasks: number;
   failedTasks: number;
   completedTasks: number;
+  pools: {
+    skills: Record<string, PoolStatus>;
+    providers: Record<string, PoolStatus>;
+  };
+}
+
+/**
+ * @interface TaskOrigin
+ * @description What a task is created by besides its caller, set by the agent
+ * and never taken from the request
+ */
+interface TaskOrigin {
+  scheduleId?: string;
+  parentId?: string;
+  variables?: Record<string, unknown>;
+}
+
+/**
+ * @interface TaskSubmission
+ * @description A task submission remembered by its idempotency key
+ */
+interface TaskSubmission {
+  /** Hash of the submitted parameters, see getSubmissionFingerprint */
+  fingerprint: string;
+  task: Promise<Task>;
+  submittedAt: number;
 }
 
+/**
+ * @constant MAX_BATCH_SIZE
+ * @description Maximum number of requests accepted in a JSON-RPC batch
+ */
+const MAX_BATCH_SIZE = 100;
+
+/**
+ * @constant STREAMING_RPC_METHODS
+ * @description Methods that keep the connection open and cannot be batched
+ */
+const STREAMING_RPC_METHODS = new Set([
+  "tasks/sendSubscribe",
+  "tasks/resubscribe",
+]);
+
+/**
+ * @constant QUEUE_POSITION_INTERVAL
+ * @description Shortest interval between two reports of the queue positions,
+ * in milliseconds
+ */
+const QUEUE_POSITION_INTERVAL = 1000;
+
+/**
+ * @typedef {Function} JsonRpcMethodHandler
+ * @description Handler for a single JSON-RPC method. Streaming methods write
+ * directly to the response and resolve without a value.
+ */
+type JsonRpcMethodHandler = (
+  request: JSONRPCRequest,
+  req: Request,
+  res: Response
+) => Promise<JSONRPCResponse | void>;
+
 /**
  * @class A2AController
  * @description Controls and manages A2A interactions and task processing
@@ -52,8 +192,22 @@ export class A2AController {
   private sessionManager: SessionManager;
   private taskProcessor: TaskProcessor;
   private taskQueue: TaskQueue;
+  private deadLetterStore: DeadLetterStore;
+  private scheduler: Scheduler;
   private pushNotificationService: PushNotificationService;
   private streamingService: StreamingService;
+  private artifactStore: ArtifactStore;
+  private skillRegistry: SkillRegistry;
+  private publicUrl: string;
+  /** Whether inline file bytes are accepted, which needs a set PUBLIC_URL */
+  private acceptsInlineFiles: boolean;
+  private taskTimeout: number;
+  private rpcMethods: Map<string, JsonRpcMethodHandler>;
+  private submissions: Map<string, TaskSubmission> = new Map();
+  private draining: boolean = false;
+  private queuePositions: Map<string, number> = new Map();
+  private queuePositionTimer?: NodeJS.Timeout;
+  private batchUpdates: Map<string, Promise<void>> = new Map();
 
   /**
    * @constructor
@@ -62,37 +216,116 @@ export class A2AController {
    * @param {SessionManager} sessionManager - Optional session manager instance
    * @param {TaskProcessor} taskProcessor - Optional task processor instance
    * @param {TaskQueue} taskQueue - Optional task queue instance
+   * @param {DeadLetterStore} deadLetterStore - Optional dead-letter store instance
+   * @param {ScheduleStore} scheduleStore - Optional schedule store instance
    */
   constructor(
     private config: A2AControllerConfig = {},
     taskStore?: TaskStore,
     sessionManager?: SessionManager,
     taskProcessor?: TaskProcessor,
-    taskQueue?: TaskQueue
+    taskQueue?: TaskQueue,
+    deadLetterStore?: DeadLetterStore,
+    scheduleStore?: ScheduleStore
   ) {
     if (!config.falKey || !config.piapiKey) {
       throw new Error("Fal.ai and PiAPI API keys are required");
     }
 
-    this.taskStore = taskStore || new TaskStore();
+    this.taskStore =
+      taskStore ||
+      (config.dataDir
+        ? new FileTaskStore(path.join(config.dataDir, "tasks.json"))
+        : new TaskStore());
     this.sessionManager = sessionManager || new SessionManager();
-    const imageController = new ImageGenerationController(config.falKey);
-    const videoController = new VideoGenerationController(config.piapiKey);
+    this.publicUrl = config.publicUrl || "http://localhost:8003";
+    this.acceptsInlineFiles = !!config.publicUrl;
+    this.taskTimeout = config.taskTimeout || 300000;
+    this.skillRegistry = createSkillRegistry(
+      new ImageGenerationController(config.falKey),
+      new VideoGenerationController(
+        config.piapiKey,
+        config.dataDir
+          ? new FileProviderJobStore(
+              path.join(config.dataDir, "provider-jobs.json")
+            )
+          : undefined
+      )
+    );
     this.taskProcessor =
       taskProcessor ||
-      new TaskProcessor(this.taskStore, imageController, videoController);
+      new TaskProcessor(this.taskStore, this.skillRegistry, this.taskTimeout);
+    this.deadLetterStore =
+      deadLetterStore ||
+      (config.dataDir
+        ? new FileDeadLetterStore(
+            path.join(config.dataDir, "dead-letters.json")
+          )
+        : new InMemoryDeadLetterStore());
     this.taskQueue =
       taskQueue ||
-      new TaskQueue(this.taskProcessor, {
-        maxConcurrent: config.maxConcurrent || 1,
-        maxRetries: config.maxRetries || 3,
-        retryDelay: config.retryDelay || 1000,
-      });
-    this.pushNotificationService = new PushNotificationService();
+      new TaskQueue(
+        this.taskProcessor,
+        {
+          maxConcurrent: config.maxConcurrent || 1,
+          maxRetries: config.maxRetries || 3,
+          retryDelay: config.retryDelay || 1000,
+          maxRetryDelay: config.maxRetryDelay,
+          skillConcurrency: config.skillConcurrency,
+          providerConcurrency: config.providerConcurrency,
+          skillQueueDepth: config.skillQueueDepth,
+          providerQueueDepth: config.providerQueueDepth,
+          skillProviders: Object.fromEntries(
+            this.skillRegistry
+              .listSkills()
+              .filter((skill) => skill.provider)
+              .map((skill) => [skill.taskType, skill.provider!])
+          ),
+          idempotentTaskTypes: this.skillRegistry
+            .listSkills()
+            .filter((skill) => skill.idempotent)
+            .map((skill) => skill.taskType),
+        },
+        this.deadLetterStore
+      );
+    this.scheduler = new Scheduler(
+      scheduleStore ||
+        (config.dataDir
+          ? new FileScheduleStore(path.join(config.dataDir, "schedules.json"))
+          : new InMemoryScheduleStore()),
+      (schedule) =>
+        this.createTask(schedule.task, schedule.clientId, undefined, {
+          scheduleId: schedule.id,
+        })
+    );
+    this.pushNotificationService = new PushNotificationService(
+      new EventLog(),
+      config.dataDir
+        ? new FilePushNotificationConfigStore(
+            path.join(config.dataDir, "push-notifications.json")
+          )
+        : new InMemoryPushNotificationConfigStore()
+    );
     this.streamingService = new StreamingService();
+    this.artifactStore = new ArtifactStore(
+      path.join(config.dataDir || "data", "artifacts"),
+      this.publicUrl
+    );
+    this.rpcMethods = new Map<string, JsonRpcMethodHandler>([
+      ["tasks/send", this.rpcSendTask],
+      ["tasks/sendBatch", this.rpcSendBatch],
+      ["tasks/sendSweep", this.rpcSendSweep],
+      ["tasks/get", this.rpcGetTask],
+      ["tasks/cancel", this.rpcCancelTask],
+      ["tasks/sendSubscribe", this.rpcSendTaskSubscribe],
+      ["tasks/resubscribe", this.rpcResubscribeTask],
+      ["tasks/pushNotification/set", this.rpcSetPushNotification],
+      ["tasks/pushNotification/get", this.rpcGetPushNotification],
+    ]);
 
     // Set up task store listeners for notifications
     this.setupTaskStoreListeners();
+    this.taskQueue.addQueueListener(() => this.scheduleQueuePositions());
   }
 
   /**
@@ -118,6 +351,11 @@ export class A2AController {
       // Handle streaming updates
       this.streamingService.notifyTaskUpdate(task);
 
+      // Report the progress of the batch the task belongs to
+      if (task.parentId) {
+        this.refreshBatch(task.parentId);
+      }
+
       // Send completion event if task is in final state
       if (
         task.status.state === TaskState.COMPLETED ||
@@ -138,381 +376,1859 @@ export class A2AController {
     });
   }
 
+  /**
+   * @private
+   * @method describeQueuePosition
+   * @description Status text of a queued task, e.g. "Queued at position 2 of
+   * 5, estimated completion in about 3 min"
+   */
+  private describeQueuePosition(queue: TaskQueuePosition): string {
+    const text = `Queued at position ${queue.position} of ${queue.queueLength}`;
+    if (queue.etaSeconds === undefined) {
+      return text;
+    }
+    const eta =
+      queue.etaSeconds < 60
+        ? `${queue.etaSeconds}s`
+        : `about ${Math.round(queue.etaSeconds / 60)} min`;
+    return `${text}, estimated completion in ${eta}`;
+  }
+
+  /**
+   * @private
+   * @method withQueuePosition
+   * @description Add the queue position of a submitted task, and describe it
+   * in the status message
+   * @param {Task} task - The task
+   * @returns {Task} A copy with `queue` set, or the task if it is not queued
+   */
+  private withQueuePosition(task: Task): Task {
+    const queue = this.taskQueue.getQueuePosition(task.id);
+    if (!queue) {
+      return task;
+    }
+    const part: MessagePart = {
+      type: "text",
+      text: this.describeQueuePosition(queue),
+    };
+    return {
+      ...task,
+      queue,
+      status: {
+        ...task.status,
+        message: {
+          role: "agent",
+          parts: [...(task.status.message?.parts || []), part],
+        },
+      },
+    };
+  }
+
+  /**
+   * @private
+   * @method scheduleQueuePositions
+   * @description Report the queue positions once the queue has settled, at
+   * most once per QUEUE_POSITION_INTERVAL however often it changes
+   */
+  private scheduleQueuePositions(): void {
+    if (this.queuePositionTimer) {
+      return;
+    }
+    this.queuePositionTimer = setTimeout(() => {
+      this.queuePositionTimer = undefined;
+      this.notifyQueuePositions();
+    }, QUEUE_POSITION_INTERVAL);
+    this.queuePositionTimer.unref();
+  }
+
+  /**
+   * @private
+   * @method notifyQueuePositions
+   * @description Send a `queue_position` event to the subscribers of each
+   * queued task whose position changed. The events are not logged: they are
+   * not transitions of the task, and a missed position is stale anyway.
+   */
+  private notifyQueuePositions(): void {
+    const positions = this.taskQueue.getQueuePositions();
+    Array.from(this.queuePositions.keys())
+      .filter((taskId) => !positions.has(taskId))
+      .forEach((taskId) => this.queuePositions.delete(taskId));
+    positions.forEach((queue, taskId) => {
+      if (this.queuePositions.get(taskId) === queue.position) {
+        return;
+      }
+      this.queuePositions.set(taskId, queue.position);
+      this.pushNotificationService.publish(taskId, {
+        type: PushNotificationEventType.QUEUE_POSITION,
+        taskId,
+        timestamp: new Date().toISOString(),
+        data: {
+          queue,
+          message: {
+            role: "agent",
+            parts: [{ type: "text", text: this.describeQueuePosition(queue) }],
+          },
+        },
+      });
+    });
+  }
+
   /**
    * @method healthCheck
    * @description Check service health
    */
   public healthCheck = async (req: Request, res: Response): Promise<void> => {
+    // A draining agent is taken out of the load balancer
+    if (this.draining) {
+      res.status(503).json({ status: "draining" });
+      return;
+    }
     res.json({ status: "healthy" });
   };
 
   /**
    * @method getAgentCard
-   * @description Returns the agent's capabilities and metadata
+   * @description Returns the agent card, generated from the skill registry
    * @returns {Object} Agent card information
    */
   public getAgentCard = async (req: Request, res: Response): Promise<void> => {
-    res.json({
-      name: "Image & Video Generation Agent",
-      description:
-        "AI agent that generates images and videos from text prompts, using advanced AI models. Supports real-time updates (streaming) and push notifications.",
-      url: "http://localhost:8003",
-      provider: {
-        organization: "Nevermined",
-        url: "https://nevermined.io",
-      },
-      version: "2.0.0",
-      documentationUrl:
-        "https://docs.nevermined.io/agents/image-video-generation",
-      capabilities: {
-        streaming: true,
-        pushNotifications: true,
-        stateTransitionHistory: true,
-      },
-      defaultInputModes: ["text/plain", "application/json"],
-      defaultOutputModes: [
-        "application/json",
-        "image/png",
-        "video/mp4",
-        "text/plain",
-      ],
-      notificationEvents: [
-        {
-          type: "status_update",
-          description:
-            "Task status update. Includes { status: TaskStatus, artifacts: TaskArtifact[] }",
-        },
-        {
-          type: "completion",
-          description:
-            "Task completed/cancelled/failed. Includes { finalStatus: TaskStatus, artifacts: TaskArtifact[] }",
-        },
-        {
-          type: "artifact_created",
-          description:
-            "(Planned) New artifact created. Includes { artifact: TaskArtifact }",
-        },
-        {
-          type: "error",
-          description: "Error event. Includes { error: string }",
-        },
-      ],
-      skills: [
-        {
-          id: "image-generation",
-          name: "Image Generation",
-          description: "Generates an image from a text prompt.",
-          tags: ["image", "generation", "ai"],
-          inputModes: ["text/plain", "application/json"],
-          outputModes: ["image/png", "application/json"],
-          parameters: [
-            {
-              name: "taskType",
-              description:
-                "Type of image generation task. Must be 'text2image' (required)",
-              required: true,
-              type: "string",
-              enum: ["text2image"],
-            },
-            {
-              name: "prompt",
-              description: "Text prompt for image generation",
-              required: true,
-              type: "string",
-            },
-          ],
-        },
-        {
-          id: "video-generation",
-          name: "Video Generation",
-          description:
-            "Generates a video from a text prompt and one or more reference images",
-          tags: ["video", "generation", "ai"],
-          inputModes: ["text/plain", "application/json"],
-          outputModes: ["video/mp4", "application/json"],
-          parameters: [
-            {
-              name: "taskType",
-              description:
-                "Type of video generation task. Must be 'text2video' (required)",
-              required: true,
-              type: "string",
-              enum: ["text2video"],
-            },
-            {
-              name: "prompt",
-              description: "Text prompt for video generation",
-              required: true,
-              type: "string",
-            },
-            {
-              name: "imageUrls",
-              description: "List of reference image URLs",
-              required: true,
-              type: "string[]",
-            },
-            {
-              name: "duration",
-              description: "Video duration in seconds (5 or 10)",
-              required: false,
-              type: "number",
-            },
-          ],
-        },
-      ],
-    });
+    res.json(
+      buildAgentCard(this.skillRegistry, this.publicUrl, this.taskTimeout)
+    );
   };
 
   /**
-   * @method sendTask
-   * @description Handle JSON-RPC 2.0 A2A task send (single-turn)
+   * @method handleJsonRpc
+   * @description Single JSON-RPC 2.0 endpoint that dispatches on the request method.
+   * Accepts a single request or a batch (array) of requests; requests without
+   * an `id` are notifications and get no response.
    * @param {Request} req - Express request
    * @param {Response} res - Express response
    */
-  public sendTask = async (req: Request, res: Response): Promise<void> => {
+  public handleJsonRpc = async (req: Request, res: Response): Promise<void> => {
+    if (Array.isArray(req.body)) {
+      await this.handleJsonRpcBatch(req, res);
+      return;
+    }
+    const request = req.body as JSONRPCRequest;
+    const id = request?.id ?? null;
     try {
-      const { jsonrpc, id, method, params } = req.body;
-      if (jsonrpc !== "2.0" || !id || !method || !params) {
-        res.status(400).json({
-          jsonrpc: "2.0",
-          id: id || null,
-          error: { code: -32600, message: "Invalid JSON-RPC 2.0 request" },
-        });
+      if (!this.isValidRpcRequest(request)) {
+        res.status(400).json(this.rpcError(id, new InvalidRequestError()));
         return;
       }
-      const { message, metadata, sessionId, acceptedOutputModes, ...rest } =
-        params;
-      if (
-        !message ||
-        !message.parts ||
-        !Array.isArray(message.parts) ||
-        message.parts.length === 0
-      ) {
-        res.status(400).json({
-          jsonrpc: "2.0",
-          id,
-          error: {
-            code: -32602,
-            message:
-              "Task must contain a non-empty message with at least one part",
-          },
-        });
+      const response = await this.dispatchRpc(request, req, res);
+      if (res.headersSent) {
         return;
       }
-      const task = await this.createTask({
-        id: params.id,
-        sessionId,
-        message,
-        metadata,
-        acceptedOutputModes,
-        ...rest,
-      });
-      res.json({
-        jsonrpc: "2.0",
-        id,
-        result: task,
-      });
-    } catch (error) {
-      res.status(500).json({
-        jsonrpc: "2.0",
-        id: req.body?.id || null,
-        error: { code: -32000, message: (error as Error).message },
-      });
-    }
-  };
-
-  /**
-   * @method getTaskStatus
-   * @description Get status of a specific task
-   */
-  public getTaskStatus = async (req: Request, res: Response): Promise<void> => {
-    try {
-      Logger.info(`Getting status for task: ${req.params.taskId}`);
-      const task = await this.getTask(req.params.taskId);
-
-      if (!task) {
-        Logger.warn(`Task ${req.params.taskId} not found`);
-        res.status(404).json({ error: "Task not found" });
+      if (this.isNotification(request)) {
+        res.status(204).end();
         return;
       }
-
-      Logger.debug(`Task ${req.params.taskId} status:`, task);
-      res.json(task);
+      if (response) {
+        res.json(response);
+      }
     } catch (error) {
       Logger.error(
-        `Error getting task status: ${
+        `Error handling JSON-RPC method ${request?.method}: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
-      ErrorHandler.handleHttpError(error as Error, res);
+      if (!res.headersSent) {
+        res.status(500).json(this.rpcError(id, error));
+      }
     }
   };
 
   /**
-   * @method cancelTask
-   * @description Cancel a task if possible
+   * @private
+   * @method handleJsonRpcBatch
+   * @description Process a JSON-RPC 2.0 batch and respond with an array of responses
+   * @param {Request} req - Express request whose body is an array of requests
+   * @param {Response} res - Express response
    */
-  public async cancelTask(taskId: string): Promise<boolean> {
-    try {
-      const task = await this.taskStore.getTask(taskId);
-      if (!task) {
-        Logger.warn(`Task ${taskId} not found for cancellation`);
-        return false;
-      }
-
-      const cancelled = this.taskQueue.cancelTask(taskId);
-      if (cancelled && task) {
-        const updatedTask = {
-          ...task,
-          status: {
-            ...task.status,
-            state: TaskState.CANCELLED,
-            timestamp: new Date().toISOString(),
-          },
-        };
-        await this.taskStore.updateTask(updatedTask);
-        Logger.info(`Task ${taskId} cancelled successfully`);
-      }
-
-      return cancelled;
-    } catch (error) {
-      Logger.error(
-        `Error cancelling task ${taskId}: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
-      return false;
+  private handleJsonRpcBatch = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    const batch: unknown[] = req.body;
+    if (batch.length === 0 || batch.length > MAX_BATCH_SIZE) {
+      res
+        .status(400)
+        .json(
+          this.rpcError(
+            null,
+            new InvalidRequestError(
+              `Invalid JSON-RPC 2.0 batch: must contain between 1 and ${MAX_BATCH_SIZE} requests`
+            )
+          )
+        );
+      return;
     }
-  }
+    // The requests of a batch share its headers: one key cannot tell their
+    // submissions apart, which take their task ID as key instead
+    if (req.headers?.["idempotency-key"] !== undefined) {
+      res
+        .status(400)
+        .json(
+          this.rpcError(
+            null,
+            new InvalidRequestError(
+              "The Idempotency-Key header cannot be used with a JSON-RPC batch, give each task an id instead"
+            )
+          )
+        );
+      return;
+    }
+    Logger.info(`Processing JSON-RPC batch of ${batch.length} requests`);
+    const responses = await Promise.all(
+      batch.map((request) => this.dispatchBatchEntry(request, req, res))
+    );
+    const results = responses.filter(
+      (response): response is JSONRPCResponse => response !== null
+    );
+    // A batch made only of notifications gets no response body
+    if (results.length === 0) {
+      res.status(204).end();
+      return;
+    }
+    res.json(results);
+  };
 
   /**
-   * @method createTask
-   * @description Create and enqueue a new task (A2A compatible)
-   */
-  public async createTask(params: {
-    id?: string;
-    sessionId?: string;
-    message: Message;
-    metadata?: Record<string, any>;
-    acceptedOutputModes?: string[];
-    [key: string]: any;
-  }): Promise<Task> {
-    try {
-      const { id, sessionId, message, metadata, acceptedOutputModes, ...rest } =
-        params;
-      const task: Task = {
-        id: id || crypto.randomUUID(),
-        sessionId,
-        status: {
-          state: TaskState.SUBMITTED,
-          timestamp: new Date().toISOString(),
-        },
-        message,
-        metadata,
-        acceptedOutputModes,
-        taskType: metadata?.taskType,
-        ...rest,
-      };
-
-      // Store task first
-      const storedTask = await this.taskStore.createTask({ ...task });
-      Logger.info(`Created task ${storedTask.id}`);
-
-      // Then enqueue it
-      await this.taskQueue.enqueueTask({ ...storedTask });
-      Logger.info(`Enqueued task ${storedTask.id}`);
-
-      return storedTask;
-    } catch (error) {
-      Logger.error(
-        `Error creating task: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
-      throw error;
+   * @private
+   * @method dispatchBatchEntry
+   * @description Process one request of a batch, capturing its errors in the response
+   * @returns {JSONRPCResponse | null} The response, or null for notifications
+   */
+  private async dispatchBatchEntry(
+    request: unknown,
+    req: Request,
+    res: Response
+  ): Promise<JSONRPCResponse | null> {
+    if (!this.isValidRpcRequest(request)) {
+      const id =
+        typeof request === "object" &&
+        request !== null &&
+        "id" in request &&
+        (typeof request.id === "string" || typeof request.id === "number")
+          ? request.id
+          : null;
+      return this.rpcError(id, new InvalidRequestError());
     }
+    const response = STREAMING_RPC_METHODS.has(request.method)
+      ? this.rpcError(
+          request.id,
+          new InvalidRequestError(
+            `Method ${request.method} cannot be used in a batch request`
+          )
+        )
+      : ((await this.dispatchRpc(request, req, res)) as JSONRPCResponse);
+    return this.isNotification(request) ? null : response;
   }
 
   /**
-   * @method getTask
-   * @description Get task by ID
+   * @private
+   * @method dispatchRpc
+   * @description Route a valid JSON-RPC request to the handler of its method,
+   * turning the errors it throws into JSON-RPC error responses
    */
-  public async getTask(taskId: string): Promise<Task | null> {
+  private async dispatchRpc(
+    request: JSONRPCRequest,
+    req: Request,
+    res: Response
+  ): Promise<JSONRPCResponse | void> {
     try {
-      const task = await this.taskStore.getTask(taskId);
-      return task;
+      const handler = this.rpcMethods.get(request.method);
+      if (!handler) {
+        throw new MethodNotFoundError(request.method);
+      }
+      return await handler(request, req, res);
     } catch (error) {
       Logger.error(
-        `Error getting task ${taskId}: ${
+        `Error handling JSON-RPC method ${request.method}: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
-      throw error;
+      return this.rpcError(request.id, error);
     }
   }
 
   /**
-   * @method updateTaskStatus
-   * @description Update task status and history
+   * @method sendTask
+   * @description Handle JSON-RPC 2.0 A2A task send (single-turn)
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
    */
-  public async updateTaskStatus(
-    taskId: string,
-    state: TaskState,
-    message?: Message
-  ): Promise<Task | null> {
+  public sendTask = async (req: Request, res: Response): Promise<void> => {
     try {
-      const task = await this.taskStore.getTask(taskId);
-      if (!task) {
-        Logger.warn(`Task ${taskId} not found for status update`);
-        return null;
-      }
-
-      const newStatus: TaskStatus = {
-        state,
-        timestamp: new Date().toISOString(),
-        message,
-      };
-
-      // Ensure we have a history array and add current status if it exists
-      const history = [...(task.history || [])];
-      if (task.status) {
-        history.push(task.status);
+      const request = req.body as JSONRPCRequest;
+      if (
+        !this.isValidRpcRequest(request) ||
+        this.isNotification(request) ||
+        !request.params
+      ) {
+        throw new InvalidRequestError();
       }
-
-      const updatedTask: Task = {
-        ...task,
-        status: newStatus,
-        history,
-      };
-
-      const result = await this.taskStore.updateTask(updatedTask);
-      Logger.info(`Updated task ${taskId} status to ${state}`);
-      return result;
+      res.json(await this.rpcSendTask(request, req));
     } catch (error) {
-      Logger.error(
-        `Error updating task status: ${
-          error instanceof Error ? error.message : "Unknown error"
-        }`
-      );
-      throw error;
+      this.sendRpcHttpError(req, res, error);
     }
-  }
+  };
 
   /**
-   * @method listTasks
-   * @description List all tasks, optionally filtered by session ID
+   * @private
+   * @method sendRpcHttpError
+   * @description Respond to a JSON-RPC request made on a REST route with an error,
+   * using the HTTP status of its error code
+   */
+  private sendRpcHttpError(req: Request, res: Response, error: unknown): void {
+    Logger.error(
+      `Error handling ${req.path}: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+    if (res.headersSent) {
+      return;
+    }
+    const response = this.rpcError(req.body?.id ?? null, error);
+    if (typeof response.error!.data?.retryAfter === "number") {
+      res.setHeader("Retry-After", String(response.error!.data.retryAfter));
+    }
+    res.status(getHttpStatus(response.error!.code)).json(response);
+  }
+
+  /**
+   * @private
+   * @method isValidRpcRequest
+   * @description Check that a request body is a JSON-RPC 2.0 envelope
+   */
+  private isValidRpcRequest(request: unknown): request is JSONRPCRequest {
+    if (typeof request !== "object" || request === null) {
+      return false;
+    }
+    const candidate = request as Partial<JSONRPCRequest>;
+    return (
+      candidate.jsonrpc === "2.0" &&
+      typeof candidate.method === "string" &&
+      candidate.method.length > 0 &&
+      (candidate.id === undefined ||
+        candidate.id === null ||
+        typeof candidate.id === "string" ||
+        typeof candidate.id === "number")
+    );
+  }
+
+  /**
+   * @private
+   * @method isNotification
+   * @description A JSON-RPC request without an `id` is a notification and expects no response
+   */
+  private isNotification(request: JSONRPCRequest): boolean {
+    return request.id === undefined;
+  }
+
+  /**
+   * @private
+   * @method rpcResult
+   * @description Build a successful JSON-RPC 2.0 response
+   */
+  private rpcResult(id: JSONRPCRequest["id"], result: any): JSONRPCResponse {
+    return { jsonrpc: "2.0", id: id ?? null, result };
+  }
+
+  /**
+   * @private
+   * @method rpcError
+   * @description Build a JSON-RPC 2.0 error response from the error catalog.
+   * As on REST routes, the message of an internal error is not exposed; the
+   * callers log it.
+   */
+  private rpcError(id: JSONRPCRequest["id"], error: unknown): JSONRPCResponse {
+    const rpcError = toJsonRpcError(error);
+    if (getHttpStatus(rpcError.code) === 500) {
+      rpcError.message = "Internal error";
+    }
+    return { jsonrpc: "2.0", id: id ?? null, error: rpcError };
+  }
+
+  /**
+   * @private
+   * @method validateMessage
+   * @description Check that task params carry a non-empty message, with
+   * inline files only if the providers can fetch them from PUBLIC_URL
+   * @param {unknown} message - The `message` of the task params
+   * @throws {InvalidParamsError} If the message is missing or has no parts,
+   * or has an inline file while PUBLIC_URL is not set
+   */
+  private validateMessage(message: any): void {
+    if (
+      !message ||
+      !message.parts ||
+      !Array.isArray(message.parts) ||
+      message.parts.length === 0
+    ) {
+      throw new InvalidParamsError(
+        "Task must contain a non-empty message with at least one part"
+      );
+    }
+    if (
+      !this.acceptsInlineFiles &&
+      message.parts.some((part: MessagePart) => part?.file?.bytes)
+    ) {
+      throw new InvalidParamsError(
+        "Inline file bytes are not accepted because the agent has no PUBLIC_URL, send the file by uri instead",
+        { parameter: "file.bytes" }
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method requireTask
+   * @description Get the task referenced by `params.id`
+   * @throws {InvalidParamsError} If no task ID is given
+   * @throws {TaskNotFoundError} If the task does not exist
+   */
+  private async requireTask(request: JSONRPCRequest): Promise<Task> {
+    const taskId = request.params?.id;
+    if (!taskId) {
+      throw new InvalidParamsError("Task ID is required");
+    }
+    const task = await this.getTask(taskId);
+    if (!task) {
+      throw new TaskNotFoundError(taskId);
+    }
+    return task;
+  }
+
+  /**
+   * @private
+   * @method rpcSendTask
+   * @description JSON-RPC `tasks/send`: create and enqueue a task
+   */
+  private rpcSendTask = async (
+    request: JSONRPCRequest,
+    req?: Request
+  ): Promise<JSONRPCResponse> => {
+    this.validateMessage(request.params?.message);
+    const {
+      id,
+      message,
+      metadata,
+      sessionId,
+      acceptedOutputModes,
+      priority,
+      runAt,
+    } = request.params;
+    const existingTask = await this.getInputRequiredTask(id);
+    const task = existingTask
+      ? await this.resumeTask(existingTask, message, metadata)
+      : await this.createTask(
+          {
+            id,
+            sessionId,
+            message,
+            metadata,
+            acceptedOutputModes,
+            priority,
+            runAt,
+          },
+          this.getClientId(req),
+          this.getIdempotencyKey(req)
+        );
+    return this.rpcResult(request.id, task);
+  };
+
+  /**
+   * @private
+   * @method rpcSendBatch
+   * @description JSON-RPC `tasks/sendBatch`: create a batch of tasks and
+   * return its parent task
+   */
+  private rpcSendBatch = async (
+    request: JSONRPCRequest,
+    req?: Request
+  ): Promise<JSONRPCResponse> => {
+    const { id, tasks, ...defaults } = request.params || {};
+    const task = await this.createBatch(
+      { id, tasks, ...defaults },
+      this.getClientId(req),
+      this.getIdempotencyKey(req)
+    );
+    return this.rpcResult(request.id, task);
+  };
+
+  /**
+   * @private
+   * @method rpcSendSweep
+   * @description JSON-RPC `tasks/sendSweep`: expand a prompt template and
+   * arrays of parameters into a batch, and return its parent task
+   */
+  private rpcSendSweep = async (
+    request: JSONRPCRequest,
+    req?: Request
+  ): Promise<JSONRPCResponse> => {
+    const { id, template, variables, parameters, ...defaults } =
+      request.params || {};
+    const task = await this.createSweep(
+      { id, template, variables, parameters, ...defaults },
+      this.getClientId(req),
+      this.getIdempotencyKey(req)
+    );
+    return this.rpcResult(request.id, task);
+  };
+
+  /**
+   * @private
+   * @method getInputRequiredTask
+   * @description Get the task with the given ID if it is waiting for user input
+   * @returns {Task | null} The task, or null if it does not exist or is not waiting for input
+   */
+  private async getInputRequiredTask(taskId?: string): Promise<Task | null> {
+    if (!taskId) {
+      return null;
+    }
+    const task = await this.getTask(taskId);
+    return task?.status.state === TaskState.INPUT_REQUIRED ? task : null;
+  }
+
+  /**
+   * @private
+   * @method rpcGetTask
+   * @description JSON-RPC `tasks/get`: return a task, optionally trimming its history
+   */
+  private rpcGetTask = async (
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse> => {
+    const task = this.withQueuePosition(await this.requireTask(request));
+    const historyLength = request.params.historyLength;
+    if (typeof historyLength === "number" && historyLength >= 0) {
+      return this.rpcResult(request.id, {
+        ...task,
+        history: historyLength
+          ? (task.history || []).slice(-historyLength)
+          : [],
+      });
+    }
+    return this.rpcResult(request.id, task);
+  };
+
+  /**
+   * @private
+   * @method rpcCancelTask
+   * @description JSON-RPC `tasks/cancel`: cancel a task and return it
+   */
+  private rpcCancelTask = async (
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse> => {
+    const task = await this.requireTask(request);
+    const reason = request.params?.metadata?.reason;
+    const cancelled = await this.cancelTask(
+      task.id,
+      typeof reason === "string" ? reason : undefined
+    );
+    if (!cancelled) {
+      throw new TaskNotCancelableError(task.id, task.status.state);
+    }
+    return this.rpcResult(request.id, await this.getTask(task.id));
+  };
+
+  /**
+   * @private
+   * @method rpcResubscribeTask
+   * @description JSON-RPC `tasks/resubscribe`: reattach an SSE stream to an existing task
+   */
+  private rpcResubscribeTask = async (
+    request: JSONRPCRequest,
+    req: Request,
+    res: Response
+  ): Promise<JSONRPCResponse | void> => {
+    const task = await this.requireTask(request);
+    const taskId = task.id;
+    const lastEventId = this.getLastEventId(request, req);
+    // A finished task with nothing left to replay is returned as-is
+    if (
+      (task.status.state === TaskState.COMPLETED ||
+        task.status.state === TaskState.CANCELLED ||
+        task.status.state === TaskState.FAILED) &&
+      (lastEventId === undefined ||
+        this.pushNotificationService.getEventsSince(taskId, lastEventId)
+          .length === 0)
+    ) {
+      return this.rpcResult(request.id, task);
+    }
+    this.pushNotificationService.subscribeSSE(
+      taskId,
+      res,
+      {
+        taskId,
+        eventTypes: request.params.eventTypes || [],
+      },
+      lastEventId
+    );
+  };
+
+  /**
+   * @private
+   * @method getLastEventId
+   * @description Read the ID of the last event a reconnecting client received,
+   * from the `Last-Event-ID` header or `params.lastEventId`
+   * @returns {number | undefined} The event ID, if the client sent one
+   */
+  private getLastEventId(
+    request: JSONRPCRequest,
+    req: Request
+  ): number | undefined {
+    const raw = req.headers?.["last-event-id"] ?? request.params?.lastEventId;
+    const lastEventId = parseInt(String(raw), 10);
+    return isNaN(lastEventId) ? undefined : lastEventId;
+  }
+
+  /**
+   * @private
+   * @method rpcSetPushNotification
+   * @description JSON-RPC `tasks/pushNotification/set`: register a webhook for an existing task
+   */
+  private rpcSetPushNotification = async (
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse> => {
+    const { id: taskId, pushNotificationConfig } = request.params || {};
+    if (!taskId || !pushNotificationConfig?.url) {
+      throw new InvalidParamsError(
+        "Task ID and pushNotificationConfig.url are required"
+      );
+    }
+    if (!this.isHttpUrl(pushNotificationConfig.url)) {
+      throw new InvalidParamsError(
+        "pushNotificationConfig.url must be an http(s) URL",
+        { url: pushNotificationConfig.url }
+      );
+    }
+    await this.requireTask(request);
+    await this.pushNotificationService.subscribeWebhook(taskId, {
+      taskId,
+      webhookUrl: pushNotificationConfig.url,
+      eventTypes: pushNotificationConfig.eventTypes || [],
+    });
+    return this.rpcGetPushNotification(request);
+  };
+
+  /**
+   * @private
+   * @method isHttpUrl
+   * @description Check that a webhook URL is a valid http(s) URL
+   */
+  private isHttpUrl(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === "http:" || protocol === "https:";
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * @private
+   * @method rpcGetPushNotification
+   * @description JSON-RPC `tasks/pushNotification/get`: return the webhook registered for a task
+   */
+  private rpcGetPushNotification = async (
+    request: JSONRPCRequest
+  ): Promise<JSONRPCResponse> => {
+    const { id: taskId } = await this.requireTask(request);
+    const config = this.pushNotificationService.getWebhookConfig(taskId);
+    return this.rpcResult(request.id, {
+      id: taskId,
+      pushNotificationConfig: config?.webhookUrl
+        ? { url: config.webhookUrl, eventTypes: config.eventTypes }
+        : null,
+    });
+  };
+
+  /**
+   * @method getTaskStatus
+   * @description Get status of a specific task
+   */
+  public getTaskStatus = async (req: Request, res: Response): Promise<void> => {
+    try {
+      Logger.info(`Getting status for task: ${req.params.taskId}`);
+      const task = await this.getTask(req.params.taskId);
+
+      if (!task) {
+        Logger.warn(`Task ${req.params.taskId} not found`);
+        ErrorHandler.handleHttpError(
+          new TaskNotFoundError(req.params.taskId),
+          res
+        );
+        return;
+      }
+
+      Logger.debug(`Task ${req.params.taskId} status:`, task);
+      res.json(this.withQueuePosition(task));
+    } catch (error) {
+      Logger.error(
+        `Error getting task status: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method cancelTask
+   * @description Cancel a task if possible. Queued tasks are removed from the
+   * queue, running tasks are stopped along with their provider job, and tasks
+   * waiting for input are closed. Cancelling a batch cancels its children.
+   * @param {string} taskId - The task to cancel
+   * @param {string} [reason] - Why the task is cancelled, kept in its status message
+   * @returns {Promise<boolean>} False if the task does not exist or has finished
+   */
+  public async cancelTask(
+    taskId: string,
+    reason: string = "Task cancelled by user"
+  ): Promise<boolean> {
+    try {
+      const task = await this.taskStore.getTask(taskId);
+      if (!task) {
+        Logger.warn(`Task ${taskId} not found for cancellation`);
+        return false;
+      }
+
+      if (task.children) {
+        return this.cancelBatch(task, reason);
+      }
+
+      if (await this.taskProcessor.cancelTask(taskId, reason)) {
+        return true;
+      }
+
+      const cancelled =
+        this.taskQueue.cancelTask(taskId) ||
+        task.status.state === TaskState.INPUT_REQUIRED;
+      if (cancelled) {
+        await this.taskStore.transitionTask(taskId, {
+          state: TaskState.CANCELLED,
+          message: { role: "agent", parts: [{ type: "text", text: reason }] },
+        });
+        Logger.info(`Task ${taskId} cancelled successfully`);
+      }
+
+      return cancelled;
+    } catch (error) {
+      Logger.error(
+        `Error cancelling task ${taskId}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return false;
+    }
+  }
+
+  /**
+   * @method handleCancelTask
+   * @description REST handler for POST /tasks/:taskId/cancel, with an optional
+   * `reason` in the body
+   */
+  public handleCancelTask = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const taskId = req.params.taskId;
+      const task = await this.getTask(taskId);
+      if (!task) {
+        throw new TaskNotFoundError(taskId);
+      }
+      const reason =
+        typeof req.body?.reason === "string" ? req.body.reason : undefined;
+      if (!(await this.cancelTask(taskId, reason))) {
+        throw new TaskNotCancelableError(taskId, task.status.state);
+      }
+      res.json(await this.getTask(taskId));
+    } catch (error) {
+      Logger.error(
+        `Error cancelling task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @private
+   * @method getClientId
+   * @description Identify the caller by a hash of its API key (`x-api-key`
+   * header or bearer token), so the queue can share capacity between callers
+   * @param {Request} [req] - Express request
+   * @returns {string | undefined} The client ID, if the request carries a key
+   */
+  private getClientId(req?: Request): string | undefined {
+    const header = req?.headers?.["x-api-key"] || req?.headers?.authorization;
+    const apiKey = (Array.isArray(header) ? header[0] : header)?.replace(
+      /^Bearer\s+/i,
+      ""
+    );
+    return apiKey
+      ? crypto.createHash("sha256").update(apiKey).digest("hex").slice(0, 16)
+      : undefined;
+  }
+
+  /**
+   * @private
+   * @method getIdempotencyKey
+   * @description Get the `Idempotency-Key` header of a request
+   * @param {Request} [req] - Express request
+   * @returns {string | undefined} The key, if the request carries one
+   * @throws {InvalidParamsError} If the key is empty or too long
+   */
+  private getIdempotencyKey(req?: Request): string | undefined {
+    const header = req?.headers?.["idempotency-key"];
+    return validateIdempotencyKey(Array.isArray(header) ? header[0] : header);
+  }
+
+  /**
+   * @private
+   * @method pruneSubmissions
+   * @description Forget submissions older than IDEMPOTENCY_KEY_TTL
+   */
+  private pruneSubmissions(): void {
+    const expiredBefore = Date.now() - IDEMPOTENCY_KEY_TTL;
+    this.submissions.forEach((submission, key) => {
+      if (submission.submittedAt < expiredBefore) {
+        this.submissions.delete(key);
+      }
+    });
+  }
+
+  /**
+   * @method createTask
+   * @description Create and enqueue a new task (A2A compatible). A submission
+   * carrying an idempotency key (the `Idempotency-Key` header, or else the task
+   * ID) is only run once: repeating it returns the task it created, while
+   * reusing the key with different parameters is rejected.
+   * @param {Object} params - Task parameters from the request
+   * @param {string} [clientId] - ID of the caller, see getClientId
+   * @param {string} [idempotencyKey] - Key of the submission, scoped to the caller
+   * @param {TaskOrigin} [origin] - Schedule that creates the task, if any
+   * @throws {IdempotencyConflictError} If the key was used for a different submission
+   * @throws {AgentRestartingError} If the agent is draining
+   */
+  public async createTask(
+    params: {
+      id?: string;
+      sessionId?: string;
+      message: Message;
+      metadata?: Record<string, any>;
+      acceptedOutputModes?: string[];
+      [key: string]: any;
+    },
+    clientId?: string,
+    idempotencyKey?: string,
+    origin?: TaskOrigin
+  ): Promise<Task> {
+    return this.submitOnce(params, clientId, idempotencyKey, () =>
+      this.submitTask(params, clientId, origin)
+    );
+  }
+
+  /**
+   * @method createBatch
+   * @description Create a batch: a parent task and one child task per entry
+   * of `params.tasks`, enqueued like tasks sent one by one. Idempotency keys
+   * work as for createTask.
+   * @param {Object} params - Batch parameters from the request
+   * @param {string} [clientId] - ID of the caller, see getClientId
+   * @param {string} [idempotencyKey] - Key of the submission, scoped to the caller
+   * @returns {Promise<Task>} The parent task
+   * @throws {IdempotencyConflictError} If the key was used for a different submission
+   * @throws {AgentRestartingError} If the agent is draining
+   */
+  public async createBatch(
+    params: {
+      id?: string;
+      tasks: Array<Record<string, any>>;
+      [key: string]: any;
+    },
+    clientId?: string,
+    idempotencyKey?: string
+  ): Promise<Task> {
+    return this.submitOnce(params, clientId, idempotencyKey, () =>
+      this.submitBatch(params, clientId)
+    );
+  }
+
+  /**
+   * @method createSweep
+   * @description Create a parameter sweep: a batch with one child task per
+   * combination of the template variables and parameters. Each child keeps
+   * its combination in `variables`, and its artifacts are labelled with it.
+   * @param {Object} params - Sweep parameters from the request, with the
+   * defaults of createBatch
+   * @param {string} [clientId] - ID of the caller, see getClientId
+   * @param {string} [idempotencyKey] - Key of the submission, scoped to the caller
+   * @returns {Promise<Task>} The parent task
+   * @throws {InvalidParamsError} If the sweep is invalid or too large
+   * @throws {IdempotencyConflictError} If the key was used for a different submission
+   * @throws {AgentRestartingError} If the agent is draining
+   */
+  public async createSweep(
+    params: {
+      id?: string;
+      template: unknown;
+      variables?: unknown;
+      parameters?: unknown;
+      [key: string]: any;
+    },
+    clientId?: string,
+    idempotencyKey?: string
+  ): Promise<Task> {
+    return this.submitOnce(params, clientId, idempotencyKey, () => {
+      const { template, variables, parameters, ...defaults } = params;
+      const sweep = expandSweep({ template, variables, parameters });
+      return this.submitBatch(
+        { ...defaults, tasks: sweep.map(({ message }) => ({ message })) },
+        clientId,
+        sweep.map((task) => task.variables)
+      );
+    });
+  }
+
+  /**
+   * @private
+   * @method submitOnce
+   * @description Run a submission unless one with the same idempotency key
+   * was run before, in which case return the task it created
+   * @param {Object} params - The submitted parameters, with the optional task ID
+   * @param {string} [clientId] - ID of the caller, see getClientId
+   * @param {string} [idempotencyKey] - Key of the submission, scoped to the caller
+   * @param {Function} submit - Runs the submission
+   * @throws {IdempotencyConflictError} If the key was used for a different submission
+   * @throws {AgentRestartingError} If the agent is draining
+   */
+  private async submitOnce(
+    params: { id?: string; [key: string]: any },
+    clientId: string | undefined,
+    idempotencyKey: string | undefined,
+    submit: () => Promise<Task>
+  ): Promise<Task> {
+    if (this.draining) {
+      throw new AgentRestartingError();
+    }
+    const key = idempotencyKey ?? params.id;
+    if (!key) {
+      return submit();
+    }
+    // Task IDs are global, header keys are only unique per caller
+    const scopedKey = idempotencyKey
+      ? `key:${clientId || ""}:${idempotencyKey}`
+      : `task:${params.id}`;
+    const fingerprint = getSubmissionFingerprint({ ...params, clientId });
+    this.pruneSubmissions();
+
+    const previous = this.submissions.get(scopedKey);
+    if (previous) {
+      const previousTask = await previous.task;
+      if (previous.fingerprint !== fingerprint) {
+        Logger.warn(
+          `Rejected submission reusing idempotency key ${key} of task ${previousTask.id}`
+        );
+        throw new IdempotencyConflictError(key, previousTask.id);
+      }
+      Logger.info(
+        `Returning task ${previousTask.id} for repeated submission ${key}`
+      );
+      return (await this.taskStore.getTask(previousTask.id)) || previousTask;
+    }
+
+    // Remember the submission before it is stored, so that a repeat arriving
+    // meanwhile waits for it instead of creating a second task
+    const task = submit();
+    this.submissions.set(scopedKey, {
+      fingerprint,
+      task,
+      submittedAt: Date.now(),
+    });
+    task.catch(() => this.submissions.delete(scopedKey));
+    return task;
+  }
+
+  /**
+   * @private
+   * @method submitTask
+   * @description Store and enqueue a new task. A task with a future `runAt`
+   * time is held by the queue until then.
+   * Only the params of `tasks/send` are taken from the request; the state,
+   * history, skill and output mode of the task are the agent's to set.
+   * @param {Object} params - Task parameters from the request
+   * @param {string} [clientId] - ID of the caller, see getClientId
+   * @param {TaskOrigin} [origin] - Batch or schedule that creates the task
+   * @throws {IdempotencyConflictError} If a task with the requested ID exists
+   * @throws {AgentBusyError} If the queue of the task's skill or provider is full
+   */
+  private async submitTask(
+    params: {
+      id?: string;
+      sessionId?: string;
+      message: Message;
+      metadata?: Record<string, any>;
+      acceptedOutputModes?: string[];
+      [key: string]: any;
+    },
+    clientId?: string,
+    origin: TaskOrigin = {}
+  ): Promise<Task> {
+    try {
+      // The task was not created by a submission we remember
+      if (params.id && (await this.taskStore.getTask(params.id))) {
+        throw new IdempotencyConflictError(params.id, params.id);
+      }
+      const {
+        id,
+        sessionId,
+        message,
+        metadata,
+        acceptedOutputModes,
+        priority,
+        runAt: requestedRunAt,
+      } = params;
+      const parameters = getTaskParameters(message, metadata);
+      const taskType = parameters.taskType;
+      // Reject an out-of-range deadline before the task is stored
+      resolveTaskTimeout(
+        this.skillRegistry.getSkillForTaskType(taskType),
+        this.taskTimeout,
+        parameters.timeout
+      );
+      const runAt = getTaskRunAt(requestedRunAt ?? parameters.runAt);
+      const delayed = !!runAt && Date.parse(runAt) > Date.now();
+      const task: Task = {
+        id: id || crypto.randomUUID(),
+        sessionId,
+        status: {
+          state: TaskState.SUBMITTED,
+          timestamp: new Date().toISOString(),
+          ...(delayed && {
+            message: {
+              role: "agent" as const,
+              parts: [
+                { type: "text" as const, text: `Scheduled to run at ${runAt}` },
+              ],
+            },
+          }),
+        },
+        message,
+        metadata,
+        acceptedOutputModes,
+        taskType,
+        outputMode: this.negotiateOutputMode(taskType, acceptedOutputModes),
+        priority: getTaskPriority(priority ?? parameters.priority),
+        runAt,
+        clientId,
+        ...origin,
+      };
+
+      // Reject the task before it is stored if its queue is full; a delayed
+      // task only joins the queue later
+      if (!delayed) {
+        this.taskQueue.checkCapacity(task);
+      }
+
+      // Only an accepted task keeps its inline files
+      task.message = await this.storeInlineFiles(message);
+
+      // Store task first
+      const storedTask = await this.taskStore.createTask({ ...task });
+      Logger.info(`Created task ${storedTask.id}`);
+
+      // Then enqueue it
+      await this.taskQueue.enqueueTask({ ...storedTask });
+      Logger.info(`Enqueued task ${storedTask.id}`);
+
+      return storedTask;
+    } catch (error) {
+      Logger.error(
+        `Error creating task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * @private
+   * @method submitBatch
+   * @description Store the parent task of a batch, then store and enqueue its
+   * children. Every child is validated, and the queues checked for room for
+   * all of them, before anything is stored; if a child is still rejected, the
+   * children created so far are cancelled along with the parent.
+   * @param {Object} params - Batch parameters: `tasks`, the params of each
+   * child, and defaults for all of them (`sessionId`, `metadata`,
+   * `acceptedOutputModes`, `priority`, `runAt`)
+   * @param {string} [clientId] - ID of the caller, see getClientId
+   * @param {Array<Record<string, unknown>>} [variables] - Sweep variables of
+   * each child, if the batch is a sweep
+   * @returns {Promise<Task>} The parent task
+   * @throws {InvalidParamsError} If the batch or one of its tasks is invalid
+   * @throws {IdempotencyConflictError} If a task with the requested ID exists
+   * @throws {AgentBusyError} If the queues cannot take all the tasks
+   */
+  private async submitBatch(
+    params: {
+      id?: string;
+      tasks: Array<Record<string, any>>;
+      [key: string]: any;
+    },
+    clientId?: string,
+    variables?: Array<Record<string, unknown>>
+  ): Promise<Task> {
+    try {
+      const { id, tasks, ...defaults } = params;
+      if (
+        !Array.isArray(tasks) ||
+        tasks.length === 0 ||
+        tasks.length > MAX_BATCH_TASKS
+      ) {
+        throw new InvalidParamsError(
+          `tasks must be an array of 1 to ${MAX_BATCH_TASKS} task params`,
+          { parameter: "tasks" }
+        );
+      }
+      if (id && (await this.taskStore.getTask(id))) {
+        throw new IdempotencyConflictError(id, id);
+      }
+      const children = tasks.map((entry, index) => {
+        if (!entry || typeof entry !== "object" || entry.id !== undefined) {
+          throw new InvalidParamsError(
+            `Task ${index} of the batch must be an object without an id`,
+            { parameter: "tasks", index }
+          );
+        }
+        const child: Record<string, any> & { id: string; message: Message } = {
+          ...defaults,
+          ...entry,
+          message: entry.message,
+          metadata: { ...defaults.metadata, ...entry.metadata },
+          id: crypto.randomUUID(),
+        };
+        try {
+          const parameters = this.validateTaskParams(child);
+          return {
+            params: child,
+            taskType: parameters.taskType as string,
+            runAt: getTaskRunAt(child.runAt ?? parameters.runAt),
+          };
+        } catch (error) {
+          // Tell the caller which task is invalid
+          if (error instanceof A2AError) {
+            Object.assign(error.data, { index });
+          }
+          throw error;
+        }
+      });
+      // Reject the batch before it is stored if the queues cannot take it;
+      // delayed tasks only join the queues later
+      const now = new Date().toISOString();
+      this.taskQueue.checkCapacity(
+        ...children
+          .filter(({ runAt }) => !runAt || Date.parse(runAt) <= Date.now())
+          .map(({ params: child, taskType }) => ({
+            id: child.id,
+            taskType,
+            status: { state: TaskState.SUBMITTED, timestamp: now },
+          }))
+      );
+
+      const { batch } = aggregateBatch(children.map(() => null));
+      const status: TaskStatus = {
+        state: TaskState.SUBMITTED,
+        timestamp: now,
+        message: {
+          role: "agent",
+          parts: [{ type: "text", text: describeBatch(batch) }],
+        },
+      };
+      const parent = await this.taskStore.createTask({
+        id: id || crypto.randomUUID(),
+        sessionId: defaults.sessionId,
+        status,
+        metadata: defaults.metadata,
+        children: children.map(({ params: child }) => child.id),
+        batch,
+        clientId,
+      });
+      Logger.info(`Created batch ${parent.id} of ${children.length} tasks`);
+
+      try {
+        for (const [index, { params: child }] of children.entries()) {
+          await this.submitTask(child, clientId, {
+            parentId: parent.id,
+            variables: variables?.[index],
+          });
+        }
+      } catch (error) {
+        await this.cancelTask(
+          parent.id,
+          `Batch rejected: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+        throw error;
+      }
+      return (await this.taskStore.getTask(parent.id)) || parent;
+    } catch (error) {
+      Logger.error(
+        `Error creating batch: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * @private
+   * @method updateBatch
+   * @description Run an update of a batch's parent task after the updates
+   * already started, so that a slower update does not overwrite a newer one
+   * @param {string} parentId - The parent task
+   * @param {Function} update - The update
+   */
+  private updateBatch(
+    parentId: string,
+    update: () => Promise<void>
+  ): Promise<void> {
+    const next = (this.batchUpdates.get(parentId) || Promise.resolve())
+      .then(update)
+      .catch((error) => {
+        Logger.error(
+          `Error updating batch ${parentId}: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      });
+    this.batchUpdates.set(parentId, next);
+    next.then(() => {
+      if (this.batchUpdates.get(parentId) === next) {
+        this.batchUpdates.delete(parentId);
+      }
+    });
+    return next;
+  }
+
+  /**
+   * @private
+   * @method refreshBatch
+   * @description Update the status, progress and artifacts of a batch's
+   * parent task from its children. A finished parent, e.g. cancelled, keeps
+   * its state but still reports the progress of its children.
+   * @param {string} parentId - The parent task
+   */
+  private refreshBatch(parentId: string): Promise<void> {
+    return this.updateBatch(parentId, async () => {
+      const parent = await this.taskStore.getTask(parentId);
+      if (!parent?.children) {
+        return;
+      }
+      const children = await Promise.all(
+        parent.children.map((childId) => this.taskStore.getTask(childId))
+      );
+      const { state, batch, artifacts } = aggregateBatch(children);
+      if (JSON.stringify(batch) === JSON.stringify(parent.batch)) {
+        return;
+      }
+      if (isFinalState(parent.status.state)) {
+        await this.taskStore.updateTask({ ...parent, batch, artifacts });
+        return;
+      }
+      const message: Message = {
+        role: "agent",
+        parts: [{ type: "text", text: describeBatch(batch) }],
+      };
+      // e.g. counts of running children, which the status text leaves out
+      if (
+        state === parent.status.state &&
+        JSON.stringify(message) === JSON.stringify(parent.status.message)
+      ) {
+        await this.taskStore.updateTask({ ...parent, batch, artifacts });
+        return;
+      }
+      // A batch whose children all completed before it was refreshed still
+      // goes through working
+      if (
+        state === TaskState.COMPLETED &&
+        parent.status.state === TaskState.SUBMITTED
+      ) {
+        await this.taskStore.transitionTask(parentId, {
+          state: TaskState.WORKING,
+        });
+      }
+      await this.taskStore.transitionTask(parentId, {
+        state,
+        message,
+        changes: { batch, artifacts },
+      });
+    });
+  }
+
+  /**
+   * @private
+   * @method cancelBatch
+   * @description Cancel the parent task of a batch, then its children still
+   * queued, running or waiting for input
+   * @param {Task} parent - The parent task
+   * @param {string} reason - Why the batch is cancelled
+   * @returns {Promise<boolean>} False if the batch has finished
+   */
+  private async cancelBatch(parent: Task, reason: string): Promise<boolean> {
+    let cancelled = false;
+    await this.updateBatch(parent.id, async () => {
+      const current = (await this.taskStore.getTask(parent.id)) || parent;
+      if (isFinalState(current.status.state)) {
+        return;
+      }
+      await this.taskStore.transitionTask(parent.id, {
+        state: TaskState.CANCELLED,
+        message: { role: "agent", parts: [{ type: "text", text: reason }] },
+      });
+      cancelled = true;
+    });
+    if (!cancelled) {
+      return false;
+    }
+    for (const childId of parent.children || []) {
+      await this.cancelTask(childId, reason);
+    }
+    Logger.info(`Batch ${parent.id} cancelled successfully`);
+    return true;
+  }
+
+  /**
+   * @method resumeTask
+   * @description Continue a task waiting for input with a follow-up user message.
+   * The message is recorded in the task history, merged into the task prompt and
+   * parameters, and the task is sent back through the queue to be re-validated.
+   * @param {Task} task - Task in the input-required state
+   * @param {Message} message - Follow-up message from the user
+   * @param {Record<string, any>} [metadata] - Additional or corrected task parameters
+   * @returns {Promise<Task>} The resumed task
+   * @throws {InvalidParamsError} If the task is not waiting for input
+   * @throws {AgentRestartingError} If the agent is draining
+   * @throws {AgentBusyError} If the queue of the task's skill or provider is full
+   */
+  public async resumeTask(
+    task: Task,
+    message: Message,
+    metadata?: Record<string, any>
+  ): Promise<Task> {
+    try {
+      if (this.draining) {
+        throw new AgentRestartingError();
+      }
+      if (task.status.state !== TaskState.INPUT_REQUIRED) {
+        throw new InvalidParamsError(
+          `Task ${task.id} is not waiting for input`,
+          {
+            taskId: task.id,
+            state: task.status.state,
+          }
+        );
+      }
+      const mergedMetadata = { ...task.metadata, ...metadata };
+      const taskType =
+        getTaskParameters(
+          this.mergeFollowUpMessage(task.message, message),
+          mergedMetadata
+        ).taskType || task.taskType;
+      // Like a new task, a resumed one waits in the queue of its pool
+      this.taskQueue.checkCapacity({ ...task, taskType });
+
+      const followUp = await this.storeInlineFiles(message);
+      const mergedMessage = this.mergeFollowUpMessage(task.message, followUp);
+
+      const storedTask = (await this.taskStore.transitionTask(task.id, {
+        state: TaskState.SUBMITTED,
+        message: followUp,
+        changes: {
+          message: mergedMessage,
+          metadata: mergedMetadata,
+          taskType,
+          // The time spent waiting for input does not count: the task gets a
+          // new deadline when it starts again
+          deadline: undefined,
+          outputMode: this.negotiateOutputMode(
+            taskType,
+            task.acceptedOutputModes
+          ),
+        },
+      })) as Task;
+      Logger.info(`Resumed task ${storedTask.id} with follow-up message`);
+
+      await this.taskQueue.enqueueTask({ ...storedTask });
+      Logger.info(`Re-enqueued task ${storedTask.id}`);
+
+      return storedTask;
+    } catch (error) {
+      Logger.error(
+        `Error resuming task: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * @private
+   * @method negotiateOutputMode
+   * @description Pick the output mode of a task from the modes the client accepts
+   * and the output modes of the registered skill handling its task type
+   * @param {string} [taskType] - The task type
+   * @param {string[]} [acceptedOutputModes] - Output modes accepted by the client
+   * @returns {string | undefined} The negotiated mode, or undefined for unknown task types
+   * @throws {ContentTypeNotSupportedError} If the skill produces none of the accepted modes
+   */
+  private negotiateOutputMode(
+    taskType?: string,
+    acceptedOutputModes?: string[]
+  ): string | undefined {
+    const skill = this.skillRegistry.getSkillForTaskType(taskType);
+    // Missing or unknown task types are rejected when the task is processed
+    if (!skill) {
+      return undefined;
+    }
+    const supportedModes = skill.outputModes || [];
+    const outputMode = negotiateOutputMode(supportedModes, acceptedOutputModes);
+    if (!outputMode) {
+      throw new ContentTypeNotSupportedError(
+        `Skill ${skill.id} only produces ${supportedModes.join(", ")}`,
+        { skill: skill.id, acceptedOutputModes, supportedModes }
+      );
+    }
+    return outputMode;
+  }
+
+  /**
+   * @private
+   * @method storeInlineFiles
+   * @description Save the base64 files of a message in the artifact store and
+   * replace their bytes with the URL they are served at
+   * @param {Message} message - The user message
+   * @returns {Promise<Message>} The message with every file referenced by URI
+   */
+  private async storeInlineFiles(message: Message): Promise<Message> {
+    const parts = await Promise.all(
+      message.parts.map(async (part): Promise<MessagePart> => {
+        if (!part.file?.bytes) {
+          return part;
+        }
+        const { bytes, ...file } = part.file;
+        const artifact = await this.artifactStore.save(
+          bytes,
+          file.mimeType,
+          file.name
+        );
+        return {
+          ...part,
+          file: { ...file, mimeType: artifact.mimeType, uri: artifact.url },
+        };
+      })
+    );
+    return { ...message, parts };
+  }
+
+  /**
+   * @private
+   * @method mergeFollowUpMessage
+   * @description Merge a follow-up message into the original one: text in the
+   * follow-up replaces the original prompt, data parts are combined into one
+   * (follow-up values win) and other parts are accumulated
+   */
+  private mergeFollowUpMessage(
+    original: Message | undefined,
+    followUp: Message
+  ): Message {
+    const isText = (part: MessagePart) =>
+      part.type === "text" && !!part.text?.trim();
+    const originalParts = original?.parts || [];
+    const textParts = followUp.parts.some(isText)
+      ? followUp.parts.filter(isText)
+      : originalParts.filter(isText);
+    const allParts = [...originalParts, ...followUp.parts];
+    const dataParts = allParts.filter((part) => part.type === "data");
+    const mergedData: MessagePart[] =
+      dataParts.length > 0
+        ? [
+            {
+              type: "data",
+              data: Object.assign({}, ...dataParts.map((part) => part.data)),
+            },
+          ]
+        : [];
+    const otherParts = allParts.filter(
+      (part) => part.type !== "text" && part.type !== "data"
+    );
+    return {
+      role: "user",
+      parts: [...textParts, ...mergedData, ...otherParts],
+    };
+  }
+
+  /**
+   * @method drain
+   * @description Prepare the agent to shut down: stop the schedules, reject
+   * new tasks with a retryable error, give running tasks up to the grace period to finish, then
+   * send SSE subscribers a final `restarting` event. Tasks still queued or
+   * running stay in the task store and are recovered on the next start.
+   * @param {number} gracePeriod - Longest wait for running tasks, in milliseconds
+   * @returns {Promise<void>}
+   */
+  public async drain(gracePeriod: number): Promise<void> {
+    this.draining = true;
+    this.scheduler.stop();
+    Logger.info(`Draining, waiting up to ${gracePeriod}ms for running tasks`);
+    const unfinished = await this.taskQueue.drain(gracePeriod);
+    if (unfinished.length > 0) {
+      Logger.warn(
+        `Tasks ${unfinished.join(
+          ", "
+        )} are still running and will resume on restart`
+      );
+    }
+    this.pushNotificationService.closeConnections();
+    Logger.info("Drained");
+  }
+
+  /**
+   * @method recoverTasks
+   * @description Enqueue again the tasks left queued or running when the agent
+   * last stopped, running ones first. Batches are not run themselves, only
+   * their children. A video task whose provider job was
+   * already submitted polls that job instead of submitting a new one. Errors
+   * are logged, so that the agent starts anyway.
+   * @returns {Promise<number>} The number of recovered tasks
+   */
+  public async recoverTasks(): Promise<number> {
+    try {
+      const tasks = (await this.taskStore.listTasks())
+        .filter(
+          (task) =>
+            (task.status.state === TaskState.SUBMITTED ||
+              task.status.state === TaskState.WORKING) &&
+            !task.children &&
+            !this.taskQueue.hasTask(task.id)
+        )
+        .sort(
+          (a, b) =>
+            Number(b.status.state === TaskState.WORKING) -
+              Number(a.status.state === TaskState.WORKING) ||
+            a.status.timestamp.localeCompare(b.status.timestamp)
+        );
+      for (const task of tasks) {
+        await this.taskQueue.enqueueTask({ ...task });
+      }
+      if (tasks.length > 0) {
+        Logger.info(`Recovered ${tasks.length} queued or running tasks`);
+      }
+      return tasks.length;
+    } catch (error) {
+      Logger.error(
+        `Error recovering tasks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      return 0;
+    }
+  }
+
+  /**
+   * @method startScheduler
+   * @description Start running the stored schedules. Errors are logged, so
+   * that the agent starts anyway.
+   */
+  public async startScheduler(): Promise<void> {
+    try {
+      await this.scheduler.start();
+    } catch (error) {
+      Logger.error(
+        `Error starting the scheduler: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * @method getTask
+   * @description Get task by ID
+   */
+  public async getTask(taskId: string): Promise<Task | null> {
+    try {
+      const task = await this.taskStore.getTask(taskId);
+      return task;
+    } catch (error) {
+      Logger.error(
+        `Error getting task ${taskId}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * @method updateTaskStatus
+   * @description Move a task to a new state, see TaskStore.transitionTask
+   * @returns {Promise<Task | null>} The task, or null if it does not exist
+   * @throws {InvalidTaskTransitionError} If the task cannot move to the state
+   */
+  public async updateTaskStatus(
+    taskId: string,
+    state: TaskState,
+    message?: Message
+  ): Promise<Task | null> {
+    try {
+      const task = await this.taskStore.getTask(taskId);
+      if (!task) {
+        Logger.warn(`Task ${taskId} not found for status update`);
+        return null;
+      }
+
+      const updatedTask = await this.taskStore.transitionTask(taskId, {
+        state,
+        message,
+      });
+      Logger.info(`Updated task ${taskId} status to ${state}`);
+      return updatedTask || task;
+    } catch (error) {
+      Logger.error(
+        `Error updating task status: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * @method listTasks
+   * @description List all tasks, optionally filtered by session ID, by the
+   * schedule that created them or by the batch they belong to
    */
   public listTasks = async (req: Request, res: Response): Promise<void> => {
     try {
-      const sessionId = req.query.session_id as string;
-      const tasks = await this.taskStore.listTasks();
-      const filteredTasks = sessionId
-        ? tasks.filter((task) => task.sessionId === sessionId)
-        : tasks;
-      res.json(filteredTasks);
+      const sessionId = req.query.session_id as string;
+      const scheduleId = req.query.schedule_id as string;
+      const parentId = req.query.parent_id as string;
+      const tasks = await this.taskStore.listTasks();
+      const filteredTasks = tasks.filter(
+        (task) =>
+          (!sessionId || task.sessionId === sessionId) &&
+          (!scheduleId || task.scheduleId === scheduleId) &&
+          (!parentId || task.parentId === parentId)
+      );
+      res.json(filteredTasks);
+    } catch (error) {
+      Logger.error(
+        `Error listing tasks: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method sendTaskSubscribe
+   * @description Handle JSON-RPC 2.0 A2A task send with subscription (multi-turn/streaming, SSE or webhook)
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public sendTaskSubscribe = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const request = req.body as JSONRPCRequest;
+      if (
+        !this.isValidRpcRequest(request) ||
+        this.isNotification(request) ||
+        !request.params
+      ) {
+        throw new InvalidRequestError();
+      }
+      const response = await this.rpcSendTaskSubscribe(request, req, res);
+      if (response && !res.headersSent) {
+        res.json(response);
+      }
+    } catch (error) {
+      this.sendRpcHttpError(req, res, error);
+    }
+  };
+
+  /**
+   * @private
+   * @method rpcSendTaskSubscribe
+   * @description JSON-RPC `tasks/sendSubscribe`: create a task and stream its updates (SSE) or register a webhook
+   */
+  private rpcSendTaskSubscribe = async (
+    request: JSONRPCRequest,
+    req: Request,
+    res: Response
+  ): Promise<JSONRPCResponse | void> => {
+    this.validateMessage(request.params?.message);
+    const {
+      message,
+      metadata,
+      sessionId,
+      acceptedOutputModes,
+      priority,
+      runAt,
+      notification,
+    } = request.params;
+
+    // A follow-up message resumes a task waiting for input
+    const existingTask = await this.getInputRequiredTask(request.params.id);
+    if (!existingTask && !getTaskParameters(message, metadata).taskType) {
+      throw new InvalidParamsError(
+        "Task type is required (text2image, text2video, etc.)"
+      );
+    }
+    const lastEventId = existingTask
+      ? this.pushNotificationService.getLastEventId(existingTask.id)
+      : 0;
+    // 1. Create (or resume) the task
+    const task = existingTask
+      ? await this.resumeTask(existingTask, message, metadata)
+      : await this.createTask(
+          {
+            id: request.params.id, // May be provided by the client
+            sessionId,
+            message,
+            metadata,
+            acceptedOutputModes,
+            priority,
+            runAt,
+          },
+          this.getClientId(req),
+          this.getIdempotencyKey(req)
+        );
+    const taskId = task.id;
+    // 2. Check notification mode
+    const mode = notification?.mode || "sse";
+    const eventTypes = notification?.eventTypes || [];
+    if (mode === "webhook" && notification?.url) {
+      // Register webhook and respond immediately
+      await this.pushNotificationService.subscribeWebhook(taskId, {
+        taskId,
+        webhookUrl: notification.url,
+        eventTypes,
+      });
+      return this.rpcResult(request.id, { taskId });
+    }
+    // Default: SSE mode (keep connection open), replaying the events
+    // emitted between task creation (or resumption) and subscription
+    this.pushNotificationService.subscribeSSE(
+      taskId,
+      res,
+      {
+        taskId,
+        eventTypes,
+      },
+      lastEventId
+    );
+  };
+
+  /**
+   * @method getTaskHistory
+   * @description Get history of a specific task
+   */
+  public getTaskHistory = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const task = await this.getTask(req.params.taskId);
+      if (!task) {
+        ErrorHandler.handleHttpError(
+          new TaskNotFoundError(req.params.taskId),
+          res
+        );
+        return;
+      }
+      res.json(task.history || []);
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method requireAdminKey
+   * @description Middleware admitting only requests carrying the admin API key
+   * in the `x-admin-key` header. Admin routes are disabled without a key.
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   * @param {NextFunction} next - Next handler
+   */
+  public requireAdminKey = (
+    req: Request,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    const header = req.headers["x-admin-key"];
+    const key = Array.isArray(header) ? header[0] : header;
+    if (!this.config.adminApiKey) {
+      ErrorHandler.handleHttpError(
+        new UnauthorizedError(
+          "Admin API is disabled: ADMIN_API_KEY is not set"
+        ),
+        res
+      );
+      return;
+    }
+    // Compare digests, so the comparison takes the same time for any key
+    const digest = (value: string) =>
+      crypto.createHash("sha256").update(value).digest();
+    if (
+      !key ||
+      !crypto.timingSafeEqual(digest(key), digest(this.config.adminApiKey))
+    ) {
+      ErrorHandler.handleHttpError(
+        new UnauthorizedError("Invalid or missing x-admin-key header"),
+        res
+      );
+      return;
+    }
+    next();
+  };
+
+  /**
+   * @method listDeadLetters
+   * @description List the tasks the queue gave up on, with their last error
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public listDeadLetters = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const entries = await this.deadLetterStore.list();
+      res.json(
+        entries.map(({ taskId, task, error, attempts, deadLetteredAt }) => ({
+          taskId,
+          taskType: task.taskType,
+          error,
+          attempts: attempts.length,
+          deadLetteredAt,
+        }))
+      );
     } catch (error) {
       Logger.error(
-        `Error listing tasks: ${
+        `Error listing dead letters: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
@@ -521,121 +2237,424 @@ export class A2AController {
   };
 
   /**
-   * @method sendTaskSubscribe
-   * @description Handle JSON-RPC 2.0 A2A task send with subscription (multi-turn/streaming, SSE or webhook)
+   * @method getDeadLetter
+   * @description Show a dead-lettered task with the error of each attempt
    * @param {Request} req - Express request
    * @param {Response} res - Express response
    */
-  public sendTaskSubscribe = async (
+  public getDeadLetter = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const entry = await this.deadLetterStore.get(req.params.taskId);
+      if (!entry) {
+        throw new TaskNotFoundError(req.params.taskId);
+      }
+      res.json(entry);
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method handleRequeueDeadLetter
+   * @description Send a dead-lettered task back to the queue. The body may hold
+   * `parameters` replacing those of the task, `prompt` included.
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public handleRequeueDeadLetter = async (
     req: Request,
     res: Response
   ): Promise<void> => {
     try {
-      const { jsonrpc, id, method, params } = req.body;
-      if (jsonrpc !== "2.0" || !id || !method || !params) {
-        res.status(400).json({
-          jsonrpc: "2.0",
-          id: id || null,
-          error: { code: -32600, message: "Invalid JSON-RPC 2.0 request" },
-        });
-        return;
-      }
-      const {
-        message,
-        metadata,
-        sessionId,
-        acceptedOutputModes,
-        notification,
-        ...rest
-      } = params;
+      const parameters = req.body?.parameters;
       if (
-        !message ||
-        !message.parts ||
-        !Array.isArray(message.parts) ||
-        message.parts.length === 0
+        parameters !== undefined &&
+        (typeof parameters !== "object" ||
+          parameters === null ||
+          Array.isArray(parameters))
       ) {
-        res.status(400).json({
-          jsonrpc: "2.0",
-          id,
-          error: {
-            code: -32602,
-            message:
-              "Task must contain a non-empty message with at least one part",
-          },
+        throw new InvalidParamsError("parameters must be a JSON object", {
+          parameter: "parameters",
         });
-        return;
       }
+      const task = await this.requeueDeadLetter(req.params.taskId, parameters);
+      if (!task) {
+        throw new TaskNotFoundError(req.params.taskId);
+      }
+      res.json(task);
+    } catch (error) {
+      Logger.error(
+        `Error requeueing dead letter: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
 
-      if (!metadata?.taskType) {
-        res.status(400).json({
-          jsonrpc: "2.0",
-          id,
-          error: {
-            code: -32602,
-            message: "Task type is required (text2image, text2video, etc.)",
-          },
-        });
-        return;
+  /**
+   * @method purgeDeadLetter
+   * @description Delete a dead-lettered task for good; the task itself stays failed
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public purgeDeadLetter = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      if (!(await this.deadLetterStore.delete(req.params.taskId))) {
+        throw new TaskNotFoundError(req.params.taskId);
       }
-      // 1. Create the task
-      const task = await this.createTask({
-        id: params.id, // Puede venir del cliente
-        sessionId,
+      Logger.info(`Purged dead letter of task ${req.params.taskId}`);
+      res.status(204).end();
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method requeueDeadLetter
+   * @description Send a dead-lettered task back to the queue with fresh
+   * retries, optionally with edited parameters
+   * @param {string} taskId - The dead-lettered task
+   * @param {Record<string, any>} [parameters] - Parameters replacing those of
+   * the task; `prompt` replaces the text of its message
+   * @returns {Promise<Task | null>} The requeued task, or null if the task is not dead-lettered
+   * @throws {InvalidParamsError} If the edited parameters are invalid
+   * @throws {InvalidTaskTransitionError} If the task is no longer failed
+   */
+  public async requeueDeadLetter(
+    taskId: string,
+    parameters: Record<string, any> = {}
+  ): Promise<Task | null> {
+    const entry: DeadLetterEntry | null = await this.deadLetterStore.get(
+      taskId
+    );
+    if (!entry) {
+      return null;
+    }
+    const storedTask = await this.taskStore.getTask(taskId);
+    const task = storedTask || entry.task;
+
+    const { prompt, ...edits } = parameters;
+    if (
+      prompt !== undefined &&
+      (typeof prompt !== "string" || !prompt.trim())
+    ) {
+      throw new InvalidParamsError(
+        'Parameter "prompt" must be a non-empty string',
+        { parameter: "prompt" }
+      );
+    }
+    const message = this.mergeFollowUpMessage(task.message, {
+      role: "user",
+      parts: [
+        ...(prompt ? [{ type: "text" as const, text: prompt }] : []),
+        ...(Object.keys(edits).length > 0
+          ? [{ type: "data" as const, data: edits }]
+          : []),
+      ],
+    });
+    // Edited parameters replace their metadata fallback too
+    const metadata = task.metadata
+      ? Object.fromEntries(
+          Object.entries(task.metadata).filter(([key]) => !(key in edits))
+        )
+      : undefined;
+    const taskParameters = getTaskParameters(message, metadata);
+    const taskType = taskParameters.taskType || task.taskType;
+    resolveTaskTimeout(
+      this.skillRegistry.getSkillForTaskType(taskType),
+      this.taskTimeout,
+      taskParameters.timeout
+    );
+    if (!storedTask) {
+      // The task store lost the task: restore it as it was dead-lettered
+      await this.taskStore.createTask({
+        ...task,
+        status: { state: TaskState.FAILED, timestamp: entry.deadLetteredAt },
+        history: undefined,
+      });
+    }
+    const saved = (await this.taskStore.transitionTask(taskId, {
+      state: TaskState.SUBMITTED,
+      message: {
+        role: "agent",
+        parts: [{ type: "text", text: "Requeued from the dead-letter store" }],
+      },
+      changes: {
         message,
         metadata,
-        acceptedOutputModes,
-        ...rest,
-      });
-      const taskId = task.id;
-      // 2. Check notification mode
-      const mode = notification?.mode || "sse";
-      const eventTypes = notification?.eventTypes || [];
-      if (mode === "webhook" && notification?.url) {
-        // Register webhook and respond immediately
-        await this.pushNotificationService.subscribeWebhook(taskId, {
-          taskId,
-          webhookUrl: notification.url,
-          eventTypes,
-        });
-        res.json({
-          jsonrpc: "2.0",
-          id,
-          result: { taskId },
+        taskType,
+        // A requeued task runs again in full, possibly with an edited timeout
+        deadline: undefined,
+        outputMode: this.negotiateOutputMode(
+          taskType,
+          task.acceptedOutputModes
+        ),
+        priority:
+          "priority" in edits
+            ? getTaskPriority(taskParameters.priority)
+            : task.priority,
+      },
+    })) as Task;
+    await this.deadLetterStore.delete(taskId);
+    await this.taskQueue.enqueueTask({ ...saved });
+    Logger.info(`Requeued dead-lettered task ${taskId}`);
+    return saved;
+  }
+
+  /**
+   * @private
+   * @method validateTaskParams
+   * @description Check the params of a task that is not created yet, as
+   * submitTask will: message, task type, deadline, output mode, priority and
+   * start time
+   * @param {Record<string, any>} params - The `tasks/send` params
+   * @returns {Record<string, any>} The skill parameters of the task
+   * @throws {InvalidParamsError} If the params are not a valid task
+   * @throws {ContentTypeNotSupportedError} If the skill produces none of the accepted modes
+   */
+  private validateTaskParams(params: Record<string, any>): Record<string, any> {
+    this.validateMessage(params.message);
+    const parameters = getTaskParameters(params.message, params.metadata);
+    const skill = this.skillRegistry.getSkillForTaskType(parameters.taskType);
+    if (!skill) {
+      throw new InvalidParamsError(
+        parameters.taskType
+          ? `Unsupported task type: ${parameters.taskType}`
+          : "Task type is required (text2image, text2video, etc.)",
+        { parameter: "taskType" }
+      );
+    }
+    resolveTaskTimeout(skill, this.taskTimeout, parameters.timeout);
+    this.negotiateOutputMode(parameters.taskType, params.acceptedOutputModes);
+    getTaskPriority(params.priority ?? parameters.priority);
+    getTaskRunAt(params.runAt ?? parameters.runAt);
+    return parameters;
+  }
+
+  /**
+   * @private
+   * @method prepareTaskTemplate
+   * @description Validate the task template of a schedule as `tasks/send`
+   * would, and move its inline files to the artifact store once for all runs
+   * @param {unknown} template - The `task` of the schedule
+   * @returns {Promise<ScheduleTaskTemplate>} The template to store
+   * @throws {InvalidParamsError} If the template is not a valid task
+   */
+  private async prepareTaskTemplate(
+    template: unknown
+  ): Promise<ScheduleTaskTemplate> {
+    if (!template || typeof template !== "object" || Array.isArray(template)) {
+      throw new InvalidParamsError(
+        "task must be a JSON object holding the params of tasks/send",
+        { parameter: "task" }
+      );
+    }
+    const {
+      id,
+      runAt,
+      message,
+      metadata,
+      sessionId,
+      acceptedOutputModes,
+      priority,
+    } = template as Record<string, any>;
+    const parameters = this.validateTaskParams(template);
+    // Each run creates a new task, starting at once
+    if (id !== undefined || (runAt ?? parameters.runAt) !== undefined) {
+      throw new InvalidParamsError(
+        "The task of a schedule cannot set id or runAt",
+        { parameter: "task" }
+      );
+    }
+    return {
+      sessionId,
+      message: await this.storeInlineFiles(message),
+      metadata,
+      acceptedOutputModes,
+      priority,
+    };
+  }
+
+  /**
+   * @private
+   * @method requireSchedule
+   * @description Get the schedule of a request, if it belongs to the caller
+   * @throws {ScheduleNotFoundError} If the schedule does not exist or belongs
+   * to another caller
+   */
+  private async requireSchedule(req: Request): Promise<Schedule> {
+    const scheduleId = req.params.scheduleId;
+    const schedule = await this.scheduler.getSchedule(scheduleId);
+    if (!schedule || schedule.clientId !== this.getClientId(req)) {
+      throw new ScheduleNotFoundError(scheduleId);
+    }
+    return schedule;
+  }
+
+  /**
+   * @method createSchedule
+   * @description Create a recurring schedule from a `cron` expression (UTC)
+   * and a `task` holding the params of tasks/send, with an optional `name`
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public createSchedule = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const { name, cron, task } = req.body || {};
+      if (typeof cron !== "string") {
+        throw new InvalidParamsError(
+          'cron must be a cron expression, e.g. "0 9 * * *"',
+          { parameter: "cron" }
+        );
+      }
+      if (name !== undefined && typeof name !== "string") {
+        throw new InvalidParamsError("name must be a string", {
+          parameter: "name",
         });
-        return;
       }
-      // Default: SSE mode (keep connection open)
-      this.pushNotificationService.subscribeSSE(taskId, res, {
-        taskId,
-        eventTypes,
+      // Reject an invalid expression before storing the template's files
+      parseCron(cron);
+      const schedule = await this.scheduler.createSchedule({
+        name,
+        cron,
+        task: await this.prepareTaskTemplate(task),
+        clientId: this.getClientId(req),
       });
+      res.status(201).json(schedule);
     } catch (error) {
-      if (!res.headersSent) {
-        res.status(500).json({
-          jsonrpc: "2.0",
-          id: req.body?.id || null,
-          error: { code: -32000, message: (error as Error).message },
-        });
-      }
+      Logger.error(
+        `Error creating schedule: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      ErrorHandler.handleHttpError(error as Error, res);
     }
   };
 
   /**
-   * @method getTaskHistory
-   * @description Get history of a specific task
+   * @method listSchedules
+   * @description List the schedules of the caller
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
    */
-  public getTaskHistory = async (
+  public listSchedules = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const clientId = this.getClientId(req);
+      const schedules = await this.scheduler.listSchedules();
+      res.json(schedules.filter((schedule) => schedule.clientId === clientId));
+    } catch (error) {
+      Logger.error(
+        `Error listing schedules: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method getSchedule
+   * @description Show a schedule with its latest runs and the current state of
+   * the task each run created
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public getSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedule = await this.requireSchedule(req);
+      const runs = await Promise.all(
+        schedule.runs.map(async (run) => {
+          const task = run.taskId
+            ? await this.taskStore.getTask(run.taskId)
+            : null;
+          return task ? { ...run, state: task.status.state } : run;
+        })
+      );
+      res.json({ ...schedule, runs });
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method pauseSchedule
+   * @description Stop running a schedule until it is resumed
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public pauseSchedule = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const schedule = await this.requireSchedule(req);
+      res.json(await this.scheduler.pauseSchedule(schedule.id));
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method resumeSchedule
+   * @description Run a paused schedule again, from its next matching time
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public resumeSchedule = async (
     req: Request,
     res: Response
   ): Promise<void> => {
     try {
-      const task = await this.getTask(req.params.taskId);
-      if (!task) {
-        res.status(404).json({ error: "Task not found" });
+      const schedule = await this.requireSchedule(req);
+      res.json(await this.scheduler.resumeSchedule(schedule.id));
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method deleteSchedule
+   * @description Delete a schedule; the tasks it created are kept
+   * @param {Request} req - Express request
+   * @param {Response} res - Express response
+   */
+  public deleteSchedule = async (
+    req: Request,
+    res: Response
+  ): Promise<void> => {
+    try {
+      const schedule = await this.requireSchedule(req);
+      await this.scheduler.deleteSchedule(schedule.id);
+      res.status(204).end();
+    } catch (error) {
+      ErrorHandler.handleHttpError(error as Error, res);
+    }
+  };
+
+  /**
+   * @method getArtifact
+   * @description Serve a file stored from an inline message part
+   */
+  public getArtifact = async (req: Request, res: Response): Promise<void> => {
+    try {
+      const filePath = await this.artifactStore.getFilePath(
+        req.params.artifactId
+      );
+      if (!filePath) {
+        res.status(404).json({ error: "Artifact not found" });
         return;
       }
-      res.json(task.history || []);
+      res.sendFile(filePath);
     } catch (error) {
+      Logger.error(
+        `Error serving artifact ${req.params.artifactId}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
       ErrorHandler.handleHttpError(error as Error, res);
     }
   };
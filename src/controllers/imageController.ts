@@ -8,11 +8,13 @@ import {
   TaskState,
   TaskYieldUpdate,
   TaskArtifact,
-  TaskStatus,
-  Task,
 } from "../interfaces/a2a";
-import { ImageClient } from "../clients/imageClient";
+import { IMAGE_ASPECT_RATIOS, ImageClient } from "../clients/imageClient";
 import { Logger } from "../utils/logger";
+import {
+  getReferenceImageUrls,
+  getTaskParameters,
+} from "../utils/taskParameters";
 
 /**
  * @class ImageGenerationController
@@ -34,35 +36,31 @@ export class ImageGenerationController {
 
   /**
    * @private
-   * @method updateTaskHistory
-   * @description Updates the task history with a new status
-   * @param {Task} task - The task to update
-   * @param {TaskYieldUpdate} update - The update to add to history
+   * @method createTextMessage
+   * @description Creates a text message part for A2A updates
    */
-  private updateTaskHistory(task: Task, update: TaskYieldUpdate): void {
-    if (!task.history) {
-      task.history = [];
-    }
-    const historyEntry: TaskStatus = {
-      state: update.state,
-      timestamp: new Date().toISOString(),
-      message: update.message,
+  private createTextMessage(text: string): TaskYieldUpdate {
+    return {
+      state: TaskState.WORKING,
+      message: {
+        role: "agent",
+        parts: [{ type: "text", text }],
+      },
     };
-    task.history.push(historyEntry);
-    task.status = historyEntry;
   }
 
   /**
    * @private
-   * @method createTextMessage
-   * @description Creates a text message part for A2A updates
+   * @method createCancelledUpdate
+   * @description Creates the final update of a cancelled task
+   * @param {string} [reason] - Why the task was cancelled
    */
-  private createTextMessage(text: string): TaskYieldUpdate {
+  private createCancelledUpdate(reason?: string): TaskYieldUpdate {
     return {
-      state: TaskState.WORKING,
+      state: TaskState.CANCELLED,
       message: {
         role: "agent",
-        parts: [{ type: "text", text }],
+        parts: [{ type: "text", text: reason || "Task cancelled by user" }],
       },
     };
   }
@@ -126,6 +124,68 @@ export class ImageGenerationController {
     return null;
   }
 
+  /**
+   * @private
+   * @method validateParameters
+   * @description Validates the seed and aspect ratio and requests valid ones if needed
+   * @param {unknown} [seed] - Requested seed
+   * @param {string} [aspectRatio] - Requested aspect ratio
+   * @param {boolean} [hasReferenceImage] - Whether the task runs image-to-image,
+   * whose image keeps the aspect ratio of the reference image
+   * @returns {TaskYieldUpdate | null} Update requesting more info if needed, null if valid
+   */
+  private validateParameters(
+    seed?: unknown,
+    aspectRatio?: string,
+    hasReferenceImage: boolean = false
+  ): TaskYieldUpdate | null {
+    if (seed !== undefined && !(Number.isInteger(seed) && Number(seed) >= 0)) {
+      return {
+        state: TaskState.INPUT_REQUIRED,
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: "Please provide a valid seed. The seed must be a non-negative integer.",
+            },
+          ],
+        },
+      };
+    }
+    if (aspectRatio !== undefined && !(aspectRatio in IMAGE_ASPECT_RATIOS)) {
+      return {
+        state: TaskState.INPUT_REQUIRED,
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: `Please provide a valid aspect ratio. Supported aspect ratios are ${Object.keys(
+                IMAGE_ASPECT_RATIOS
+              ).join(", ")}.`,
+            },
+          ],
+        },
+      };
+    }
+    if (aspectRatio !== undefined && hasReferenceImage) {
+      return {
+        state: TaskState.INPUT_REQUIRED,
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: "The aspect ratio cannot be set with a reference image: the image keeps the aspect ratio of the reference image. Please remove the aspect ratio.",
+            },
+          ],
+        },
+      };
+    }
+    return null;
+  }
+
   /**
    * @async
    * @generator
@@ -133,9 +193,10 @@ export class ImageGenerationController {
    * @description Handles an image generation task according to A2A protocol
    * @param {TaskContext} context - Task context from A2A
    * @yields {TaskYieldUpdate} Status updates and artifacts
+   * @throws {MediaError} If the generation fails
    */
   async *handleTask(context: TaskContext): AsyncGenerator<TaskYieldUpdate> {
-    const { task, isCancelled } = context;
+    const { task, isCancelled, cancellationToken } = context;
     try {
       const prompt =
         task.message?.parts.find((p) => p.type === "text")?.text || "";
@@ -143,24 +204,54 @@ export class ImageGenerationController {
       // Validate prompt
       const validationUpdate = this.validatePrompt(prompt);
       if (validationUpdate) {
-        this.updateTaskHistory(task, validationUpdate);
         yield validationUpdate;
         return;
       }
+      const parameters = getTaskParameters(task.message, task.metadata);
+      const seed = parameters.seed;
+      const aspectRatio =
+        typeof parameters.aspectRatio === "string"
+          ? parameters.aspectRatio
+          : undefined;
+      // Transform the first reference image if any
+      const [referenceImageUrl] = getReferenceImageUrls(task.message);
+      // Validate parameters
+      const parametersUpdate = this.validateParameters(
+        seed,
+        aspectRatio,
+        !!referenceImageUrl
+      );
+      if (parametersUpdate) {
+        yield parametersUpdate;
+        return;
+      }
       // Initial state
       const initialUpdate = this.createTextMessage(
         "Starting image generation process..."
       );
-      this.updateTaskHistory(task, initialUpdate);
       yield initialUpdate;
       // Launch generation
       const genUpdate = this.createTextMessage(
         "Generating image, please wait..."
       );
-      this.updateTaskHistory(task, genUpdate);
       yield genUpdate;
+      // Cancel the Fal request along with the task
+      cancellationToken.onCancel(() => this.imageClient.cancelImage(task.id));
       // Start generation
-      const response = await this.imageClient.generateImage(task.id, prompt);
+      const response = referenceImageUrl
+        ? await this.imageClient.generateImageToImage(
+            task.id,
+            referenceImageUrl,
+            prompt,
+            cancellationToken.signal,
+            { seed }
+          )
+        : await this.imageClient.generateImage(
+            task.id,
+            prompt,
+            cancellationToken.signal,
+            { seed, aspectRatio }
+          );
       // Emit final artifact directly
       const artifact: TaskArtifact = this.createArtifact(response.image.url);
       const finalUpdate: TaskYieldUpdate = {
@@ -173,24 +264,18 @@ export class ImageGenerationController {
         },
         artifacts: [artifact],
       };
-      this.updateTaskHistory(task, finalUpdate);
       yield finalUpdate;
     } catch (error) {
+      if (isCancelled()) {
+        const cancelUpdate = this.createCancelledUpdate(
+          cancellationToken.reason
+        );
+        yield cancelUpdate;
+        return;
+      }
       Logger.error(`ImageGenerationController error: ${error}`);
-      const failUpdate: TaskYieldUpdate = {
-        state: TaskState.FAILED,
-        message: {
-          role: "agent",
-          parts: [
-            {
-              type: "text",
-              text: `Image generation failed: ${error}`,
-            },
-          ],
-        },
-      };
-      this.updateTaskHistory(task, failUpdate);
-      yield failUpdate;
+      // The task processor fails the task, unless the error is worth a retry
+      throw error;
     }
   }
 }
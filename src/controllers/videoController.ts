@@ -8,11 +8,15 @@ import {
   TaskState,
   TaskYieldUpdate,
   TaskArtifact,
-  TaskStatus,
-  Task,
 } from "../interfaces/a2a";
 import { getVideoClient } from "../services/videoClientService";
 import { Logger } from "../utils/logger";
+import {
+  getTaskParameters,
+  getReferenceImageUrls,
+} from "../utils/taskParameters";
+import { ProviderJobStore } from "../core/providerJobStore";
+import { VIDEO_ASPECT_RATIOS } from "../clients/videoClient";
 
 /**
  * @class VideoGenerationController
@@ -24,45 +28,42 @@ export class VideoGenerationController {
   /**
    * @constructor
    * @param {string} apiKey - API key for PiAPI video generation
+   * @param {ProviderJobStore} [jobStore] - Storage of the PiAPI job of each task
    */
-  constructor(apiKey: string) {
+  constructor(apiKey: string, jobStore?: ProviderJobStore) {
     if (!apiKey) {
       throw new Error("PiAPI API key is required");
     }
-    this.videoClient = getVideoClient({ apiKey });
+    this.videoClient = getVideoClient({ apiKey, jobStore });
   }
 
   /**
    * @private
-   * @method updateTaskHistory
-   * @description Updates the task history with a new status
-   * @param {Task} task - The task to update
-   * @param {TaskYieldUpdate} update - The update to add to history
+   * @method createTextMessage
+   * @description Creates a text message part for A2A updates
    */
-  private updateTaskHistory(task: Task, update: TaskYieldUpdate): void {
-    if (!task.history) {
-      task.history = [];
-    }
-    const historyEntry: TaskStatus = {
-      state: update.state,
-      timestamp: new Date().toISOString(),
-      message: update.message,
+  private createTextMessage(text: string): TaskYieldUpdate {
+    return {
+      state: TaskState.WORKING,
+      message: {
+        role: "agent",
+        parts: [{ type: "text", text }],
+      },
     };
-    task.history.push(historyEntry);
-    task.status = historyEntry;
   }
 
   /**
    * @private
-   * @method createTextMessage
-   * @description Creates a text message part for A2A updates
+   * @method createCancelledUpdate
+   * @description Creates the final update of a cancelled task
+   * @param {string} [reason] - Why the task was cancelled
    */
-  private createTextMessage(text: string): TaskYieldUpdate {
+  private createCancelledUpdate(reason?: string): TaskYieldUpdate {
     return {
-      state: TaskState.WORKING,
+      state: TaskState.CANCELLED,
       message: {
         role: "agent",
-        parts: [{ type: "text", text }],
+        parts: [{ type: "text", text: reason || "Task cancelled by user" }],
       },
     };
   }
@@ -126,6 +127,70 @@ export class VideoGenerationController {
     return null;
   }
 
+  /**
+   * @private
+   * @method validateParameters
+   * @description Validates the video parameters and requests the missing ones if needed
+   * @param {string[]} imageUrls - Reference image URLs
+   * @param {number} [duration] - Requested video duration in seconds
+   * @param {string} [aspectRatio] - Requested aspect ratio
+   * @returns {TaskYieldUpdate | null} Update requesting more info if needed, null if valid
+   */
+  private validateParameters(
+    imageUrls: string[],
+    duration?: number,
+    aspectRatio?: string
+  ): TaskYieldUpdate | null {
+    if (imageUrls.length === 0) {
+      return {
+        state: TaskState.INPUT_REQUIRED,
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: "Please provide at least one reference image for the video, as an image part or in imageUrls.",
+            },
+          ],
+        },
+      };
+    }
+    if (duration !== undefined && ![5, 10].includes(duration)) {
+      return {
+        state: TaskState.INPUT_REQUIRED,
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: "Please provide a valid video duration. Supported durations are 5 or 10 seconds.",
+            },
+          ],
+        },
+      };
+    }
+    if (
+      aspectRatio !== undefined &&
+      !VIDEO_ASPECT_RATIOS.includes(aspectRatio)
+    ) {
+      return {
+        state: TaskState.INPUT_REQUIRED,
+        message: {
+          role: "agent",
+          parts: [
+            {
+              type: "text",
+              text: `Please provide a valid aspect ratio. Supported aspect ratios are ${VIDEO_ASPECT_RATIOS.join(
+                ", "
+              )}.`,
+            },
+          ],
+        },
+      };
+    }
+    return null;
+  }
+
   /**
    * @async
    * @generator
@@ -133,68 +198,87 @@ export class VideoGenerationController {
    * @description Handles a video generation task according to A2A protocol (active polling)
    * @param {TaskContext} context - Task context from A2A
    * @yields {TaskYieldUpdate} Status updates and artifacts
+   * @throws {MediaError} If the generation fails
    */
   async *handleTask(context: TaskContext): AsyncGenerator<TaskYieldUpdate> {
-    const { task, isCancelled } = context;
+    const { task, isCancelled, cancellationToken, deadline } = context;
     try {
       const prompt =
         task.message?.parts.find((p) => p.type === "text")?.text || "";
       // Validate prompt
       const validationUpdate = this.validatePrompt(prompt);
       if (validationUpdate) {
-        this.updateTaskHistory(task, validationUpdate);
         yield validationUpdate;
         return;
       }
-      // Initial state
-      const initialUpdate = this.createTextMessage(
-        "Starting video generation process..."
+      const parameters = getTaskParameters(task.message, task.metadata);
+      const imageUrls = Array.from(
+        new Set([
+          ...(Array.isArray(parameters.imageUrls) ? parameters.imageUrls : []),
+          ...getReferenceImageUrls(task.message),
+        ])
       );
-      this.updateTaskHistory(task, initialUpdate);
-      yield initialUpdate;
-      // Launch generation
-      const imageUrls = Array.isArray(task.metadata?.imageUrls)
-        ? task.metadata.imageUrls
-        : [];
       const duration =
-        typeof task.metadata?.duration === "number"
-          ? task.metadata.duration
+        typeof parameters.duration === "number"
+          ? parameters.duration
+          : undefined;
+      const aspectRatio =
+        typeof parameters.aspectRatio === "string"
+          ? parameters.aspectRatio
           : undefined;
-      await this.videoClient.generateVideo(
-        task.id,
+      // Validate parameters
+      const parametersUpdate = this.validateParameters(
         imageUrls,
-        prompt,
-        duration
+        duration,
+        aspectRatio
       );
+      if (parametersUpdate) {
+        yield parametersUpdate;
+        return;
+      }
+      if (await this.videoClient.hasJob(task.id)) {
+        // The job was submitted before a restart or a failed status check:
+        // poll it again rather than paying for a new one
+        const resumeUpdate = this.createTextMessage(
+          "Resuming video generation already submitted to the provider..."
+        );
+        yield resumeUpdate;
+      } else {
+        // Initial state
+        const initialUpdate = this.createTextMessage(
+          "Starting video generation process..."
+        );
+        yield initialUpdate;
+        // Launch generation
+        await this.videoClient.generateVideo(
+          task.id,
+          imageUrls,
+          prompt,
+          duration,
+          aspectRatio
+        );
+      }
+      // Cancel the PiAPI job along with the task
+      cancellationToken.onCancel(() => this.videoClient.cancelVideo(task.id));
       // Polling of status and wait
       let lastProgress = 0;
       try {
         for await (const status of this.videoClient.waitForCompletion(task.id, {
           interval: 5000,
+          timeout: deadline ? deadline - Date.now() : undefined,
+          signal: cancellationToken.signal,
         })) {
-          if (isCancelled()) {
-            const cancelUpdate: TaskYieldUpdate = {
-              state: TaskState.CANCELLED,
-              message: {
-                role: "agent",
-                parts: [{ type: "text", text: "Task cancelled by user" }],
-              },
-            };
-            this.updateTaskHistory(task, cancelUpdate);
-            yield cancelUpdate;
-            return;
-          }
           if (status.progress > lastProgress) {
             lastProgress = status.progress;
             const progressUpdate = this.createTextMessage(
               `Video generation progress: ${status.progress}%`
             );
-            this.updateTaskHistory(task, progressUpdate);
             yield progressUpdate;
           }
         }
         // Get the final video data
         const videoData = await this.videoClient.getVideo(task.id);
+        await this.videoClient.releaseJob(task.id);
         const artifact: TaskArtifact = this.createArtifact(videoData.video.url);
         const finalUpdate: TaskYieldUpdate = {
           state: TaskState.COMPLETED,
@@ -209,41 +293,21 @@ export class VideoGenerationController {
           },
           artifacts: [artifact],
         };
-        this.updateTaskHistory(task, finalUpdate);
         yield finalUpdate;
       } catch (error) {
-        Logger.error(`VideoGenerationController error: ${error}`);
-        const failUpdate: TaskYieldUpdate = {
-          state: TaskState.FAILED,
-          message: {
-            role: "agent",
-            parts: [
-              {
-                type: "text",
-                text: `Video generation failed: ${error}`,
-              },
-            ],
-          },
-        };
-        this.updateTaskHistory(task, failUpdate);
-        yield failUpdate;
+        if (isCancelled()) {
+          const cancelUpdate = this.createCancelledUpdate(
+            cancellationToken.reason
+          );
+          yield cancelUpdate;
+          return;
+        }
+        throw error;
       }
     } catch (error) {
       Logger.error(`VideoGenerationController error: ${error}`);
-      const failUpdate: TaskYieldUpdate = {
-        state: TaskState.FAILED,
-        message: {
-          role: "agent",
-          parts: [
-            {
-              type: "text",
-              text: `Video generation failed: ${error}`,
-            },
-          ],
-        },
-      };
-      this.updateTaskHistory(task, failUpdate);
-      yield failUpdate;
+      // The task processor fails the task, unless the error is worth a retry
+      throw error;
     }
   }
 }
@@ -0,0 +1,74 @@
+/**
+ * @file agentCard.ts
+ * @description Generation of the agent card served at /.well-known/agent.json
+ */
+
+import { AgentCard } from "../interfaces/a2a";
+import { SkillRegistry } from "./skillRegistry";
+
+/**
+ * @function buildAgentCard
+ * @description Build the agent card from the skill registry. Default input and
+ * output modes are the union of the modes of the skills.
+ * @param {SkillRegistry} registry - The registered skills
+ * @param {string} url - Public URL of the agent
+ * @param {number} defaultTimeout - Deadline of skills without their own, in milliseconds
+ * @returns {AgentCard} The agent card
+ */
+export function buildAgentCard(
+  registry: SkillRegistry,
+  url: string,
+  defaultTimeout: number
+): AgentCard {
+  const skills = registry.toAgentSkills(defaultTimeout);
+  const unionOf = (modes: (string[] | undefined)[]) =>
+    Array.from(new Set(modes.flatMap((mode) => mode || [])));
+
+  return {
+    name: "Image & Video Generation Agent",
+    description:
+      "AI agent that generates images and videos from text prompts, using advanced AI models. Supports real-time updates (streaming) and push notifications.",
+    url,
+    provider: {
+      organization: "Nevermined",
+      url: "https://nevermined.io",
+    },
+    version: "2.0.0",
+    documentationUrl:
+      "https://docs.nevermined.io/agents/image-video-generation",
+    capabilities: {
+      streaming: true,
+      pushNotifications: true,
+      stateTransitionHistory: true,
+    },
+    defaultInputModes: unionOf(skills.map((skill) => skill.inputModes)),
+    defaultOutputModes: unionOf(skills.map((skill) => skill.outputModes)),
+    notificationEvents: [
+      {
+        type: "status_update",
+        description:
+          "Task status update. Includes { status: TaskStatus, artifacts: TaskArtifact[] }",
+      },
+      {
+        type: "completion",
+        description:
+          "Task completed/cancelled/failed. Includes { finalStatus: TaskStatus, artifacts: TaskArtifact[] }",
+      },
+      {
+        type: "artifact_created",
+        description:
+          "(Planned) New artifact created. Includes { artifact: TaskArtifact }",
+      },
+      {
+        type: "error",
+        description: "Error event. Includes { error: string }",
+      },
+      {
+        type: "queue_position",
+        description:
+          "Position of a queued task changed. Includes { queue: TaskQueuePosition, message: Message }; not replayed, and only sent to webhooks that ask for it",
+      },
+    ],
+    skills,
+  };
+}
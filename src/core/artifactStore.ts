@@ -0,0 +1,138 @@
+/**
+ * @file artifactStore.ts
+ * @description Local storage for files uploaded inline in task messages, served at stable URLs
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import crypto from "crypto";
+import { InvalidParamsError } from "./errorHandler";
+import { Logger } from "../utils/logger";
+
+/**
+ * File extensions of the image types accepted as reference images
+ */
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  "image/png": "png",
+  "image/jpeg": "jpg",
+  "image/webp": "webp",
+  "image/gif": "gif",
+};
+
+/**
+ * Artifact IDs are a content hash plus an extension; anything else is rejected
+ */
+const ARTIFACT_ID_PATTERN = /^[a-f0-9]{64}\.(png|jpg|webp|gif)$/;
+
+/**
+ * @interface StoredArtifact
+ * @description A file saved in the artifact store
+ */
+export interface StoredArtifact {
+  id: string;
+  url: string;
+  mimeType: string;
+}
+
+/**
+ * @class ArtifactStore
+ * @description Saves inline files to disk under a content-addressed name, so the
+ * same bytes always get the same URL, and resolves artifact IDs back to files
+ */
+export class ArtifactStore {
+  /**
+   * @constructor
+   * @param {string} directory - Directory where the files are written
+   * @param {string} publicUrl - Public base URL of the agent, used to build artifact URLs
+   */
+  constructor(
+    private readonly directory: string,
+    private readonly publicUrl: string
+  ) {}
+
+  /**
+   * @method save
+   * @description Save base64-encoded image bytes
+   * @param {string} bytes - Base64-encoded file content
+   * @param {string} [mimeType] - MIME type of the file, guessed from the name if missing
+   * @param {string} [name] - Original file name
+   * @returns {Promise<StoredArtifact>} The stored artifact and its public URL
+   * @throws {InvalidParamsError} If the type is not a supported image or the content is empty
+   */
+  public async save(
+    bytes: string,
+    mimeType?: string,
+    name?: string
+  ): Promise<StoredArtifact> {
+    if (!mimeType) {
+      const nameExtension = path
+        .extname(name || "")
+        .slice(1)
+        .toLowerCase();
+      mimeType = Object.keys(IMAGE_EXTENSIONS).find(
+        (type) =>
+          IMAGE_EXTENSIONS[type] === nameExtension ||
+          (type === "image/jpeg" && nameExtension === "jpeg")
+      );
+    }
+    const extension = mimeType && IMAGE_EXTENSIONS[mimeType];
+    if (!mimeType || !extension) {
+      const supported = Object.keys(IMAGE_EXTENSIONS).join(", ");
+      throw new InvalidParamsError(
+        mimeType
+          ? `Unsupported file type ${mimeType}. Supported types: ${supported}`
+          : `File type is missing. Set file.mimeType to one of: ${supported}`,
+        { mimeType, name }
+      );
+    }
+    const content = Buffer.from(bytes, "base64");
+    if (content.length === 0) {
+      throw new InvalidParamsError("File content is empty or not base64");
+    }
+
+    try {
+      const hash = crypto.createHash("sha256").update(content).digest("hex");
+      const id = `${hash}.${extension}`;
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(path.join(this.directory, id), content);
+      Logger.info(`Stored artifact ${id} (${content.length} bytes)`);
+      return { id, url: this.getUrl(id), mimeType };
+    } catch (error) {
+      Logger.error(
+        `Error storing artifact: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * @method getUrl
+   * @description Get the public URL of an artifact
+   * @param {string} id - The artifact ID
+   * @returns {string} The URL the artifact is served at
+   */
+  public getUrl(id: string): string {
+    return `${this.publicUrl.replace(/\/+$/, "")}/artifacts/${id}`;
+  }
+
+  /**
+   * @method getFilePath
+   * @description Resolve an artifact ID to the absolute path of its file
+   * @param {string} id - The artifact ID
+   * @returns {Promise<string | null>} The file path, or null if there is no such artifact
+   */
+  public async getFilePath(id: string): Promise<string | null> {
+    if (!ARTIFACT_ID_PATTERN.test(id)) {
+      return null;
+    }
+    const filePath = path.resolve(this.directory, id);
+    try {
+      await fs.access(filePath);
+      return filePath;
+    } catch {
+      return null;
+    }
+  }
+}
@@ -0,0 +1,118 @@
+/**
+ * @file cancellationToken.ts
+ * @description Per-task cancellation, shared between the task processor, the
+ * skill handlers and the provider clients
+ */
+
+import { Logger } from "../utils/logger";
+
+/**
+ * @class CancellationToken
+ * @description Cancellation state of a single task. The `signal` aborts
+ * in-flight provider requests and waits; listeners registered with `onCancel`
+ * run once, when the task is cancelled.
+ */
+export class CancellationToken {
+  private readonly controller = new AbortController();
+  private listeners: ((reason: string) => void | Promise<void>)[] = [];
+  private cancelReason?: string;
+
+  /**
+   * @property signal
+   * @description Abort signal raised when the task is cancelled
+   */
+  public get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  /**
+   * @property isCancelled
+   * @description Whether the task has been cancelled
+   */
+  public get isCancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  /**
+   * @property reason
+   * @description Why the task was cancelled, once it is
+   */
+  public get reason(): string | undefined {
+    return this.cancelReason;
+  }
+
+  /**
+   * @method cancel
+   * @description Cancel the task, abort the signal and run the listeners.
+   * Cancelling twice has no effect.
+   * @param {string} reason - Why the task is cancelled
+   */
+  public cancel(reason: string): void {
+    if (this.isCancelled) {
+      return;
+    }
+    this.cancelReason = reason;
+    this.controller.abort();
+    const listeners = this.listeners;
+    this.listeners = [];
+    listeners.forEach((listener) => this.runListener(listener));
+  }
+
+  /**
+   * @method onCancel
+   * @description Register a listener, e.g. to cancel the provider job. It runs
+   * immediately if the task is already cancelled.
+   * @param {Function} listener - Called with the cancellation reason
+   */
+  public onCancel(listener: (reason: string) => void | Promise<void>): void {
+    if (this.isCancelled) {
+      this.runListener(listener);
+      return;
+    }
+    this.listeners.push(listener);
+  }
+
+  /**
+   * @private
+   * @method runListener
+   * @description Run a listener, logging its failures instead of throwing
+   */
+  private runListener(
+    listener: (reason: string) => void | Promise<void>
+  ): void {
+    Promise.resolve()
+      .then(() => listener(this.cancelReason || ""))
+      .catch((error) => {
+        Logger.error(
+          `Error in cancellation listener: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      });
+  }
+}
+
+/**
+ * @function sleep
+ * @description Wait for a delay, returning early when the signal aborts
+ * @param {number} ms - Delay in milliseconds
+ * @param {AbortSignal} [signal] - Signal ending the wait early
+ * @returns {Promise<void>} Resolves after the delay or on abort
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) {
+      resolve();
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      resolve();
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
@@ -0,0 +1,171 @@
+/**
+ * @file deadLetterStore.ts
+ * @description Storage for tasks the queue gave up on, kept for inspection
+ * and requeueing
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { JSONRPCError, Task } from "../interfaces/a2a";
+import { Logger } from "../utils/logger";
+
+/**
+ * @interface DeadLetterAttempt
+ * @description A failed attempt at running a task
+ */
+export interface DeadLetterAttempt {
+  /** The attempt, from 1 */
+  attempt: number;
+  failedAt: string;
+  error: JSONRPCError;
+}
+
+/**
+ * @interface DeadLetterEntry
+ * @description A task the queue gave up on, with the error of each attempt
+ */
+export interface DeadLetterEntry {
+  taskId: string;
+  /** The task as it was queued */
+  task: Task;
+  /** The error of the last attempt */
+  error: JSONRPCError;
+  attempts: DeadLetterAttempt[];
+  deadLetteredAt: string;
+}
+
+/**
+ * @interface DeadLetterStore
+ * @description Storage interface for dead-lettered tasks, keyed by task ID
+ */
+export interface DeadLetterStore {
+  get(taskId: string): Promise<DeadLetterEntry | null>;
+  set(entry: DeadLetterEntry): Promise<void>;
+  delete(taskId: string): Promise<boolean>;
+  list(): Promise<DeadLetterEntry[]>;
+}
+
+/**
+ * @class InMemoryDeadLetterStore
+ * @description Keeps dead-lettered tasks in memory (lost on restart)
+ */
+export class InMemoryDeadLetterStore implements DeadLetterStore {
+  protected entries: Map<string, DeadLetterEntry> = new Map();
+
+  /**
+   * @method get
+   * @description Get the entry of a task
+   */
+  public async get(taskId: string): Promise<DeadLetterEntry | null> {
+    return this.entries.get(taskId) || null;
+  }
+
+  /**
+   * @method set
+   * @description Create or replace the entry of a task
+   */
+  public async set(entry: DeadLetterEntry): Promise<void> {
+    this.entries.set(entry.taskId, entry);
+  }
+
+  /**
+   * @method delete
+   * @description Delete the entry of a task
+   */
+  public async delete(taskId: string): Promise<boolean> {
+    return this.entries.delete(taskId);
+  }
+
+  /**
+   * @method list
+   * @description Get all entries, oldest first
+   */
+  public async list(): Promise<DeadLetterEntry[]> {
+    return Array.from(this.entries.values());
+  }
+}
+
+/**
+ * @class FileDeadLetterStore
+ * @description Persists dead-lettered tasks to a JSON file so they survive restarts
+ */
+export class FileDeadLetterStore extends InMemoryDeadLetterStore {
+  private loaded: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @param {string} filePath - Path of the JSON file holding the entries
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    this.loaded = this.load();
+  }
+
+  /**
+   * @private
+   * @method load
+   * @description Read the entries stored on disk, if any
+   */
+  private async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const stored: DeadLetterEntry[] = JSON.parse(content);
+      stored.forEach((entry) => this.entries.set(entry.taskId, entry));
+      Logger.info(
+        `Loaded ${this.entries.size} dead-lettered tasks from ${this.filePath}`
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(
+          `Error loading dead-lettered tasks: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method persist
+   * @description Write all entries to disk, one write at a time
+   */
+  private async persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.entries.values()), null, 2);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot);
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writing;
+  }
+
+  public async get(taskId: string): Promise<DeadLetterEntry | null> {
+    await this.loaded;
+    return super.get(taskId);
+  }
+
+  public async set(entry: DeadLetterEntry): Promise<void> {
+    await this.loaded;
+    await super.set(entry);
+    await this.persist();
+  }
+
+  public async delete(taskId: string): Promise<boolean> {
+    await this.loaded;
+    const deleted = await super.delete(taskId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  public async list(): Promise<DeadLetterEntry[]> {
+    await this.loaded;
+    return super.list();
+  }
+}
@@ -3,10 +3,12 @@
  * @description Advanced error handling implementation for A2A protocol
  */
 
-import { Task, TaskState, TaskStatus } from "../interfaces/a2a";
+import { TaskState } from "../interfaces/a2a";
 import { TaskStore } from "./taskStore";
 import { Logger } from "../utils/logger";
 import { Response } from "express";
+import { toJsonRpcError, getHttpStatus } from "../errors/errorCatalog";
+import { getRetryDelay } from "./retryPolicy";
 
 /**
  * @interface RetryConfig
@@ -45,7 +47,8 @@ export class A2AError extends Error {
   constructor(
     message: string,
     public readonly code: string,
-    public readonly retryable: boolean = false
+    public readonly retryable: boolean = false,
+    public readonly data: Record<string, any> = {}
   ) {
     super(message);
     this.name = "A2AError";
@@ -57,8 +60,15 @@ export class A2AError extends Error {
  * @description Error thrown when a task times out
  */
 export class TaskTimeoutError extends A2AError {
-  constructor(taskId: string) {
-    super(`Task ${taskId} timed out`, "TASK_TIMEOUT", true);
+  constructor(taskId: string, timeout?: number) {
+    super(
+      timeout === undefined
+        ? `Task ${taskId} timed out`
+        : `Task ${taskId} timed out after ${timeout}ms`,
+      "TASK_TIMEOUT",
+      true,
+      timeout === undefined ? { taskId } : { taskId, timeout }
+    );
     this.name = "TaskTimeoutError";
   }
 }
@@ -69,11 +79,186 @@ export class TaskTimeoutError extends A2AError {
  */
 export class TaskCancellationError extends A2AError {
   constructor(taskId: string) {
-    super(`Task ${taskId} was cancelled`, "TASK_CANCELLED", false);
+    super(`Task ${taskId} was cancelled`, "TASK_CANCELLED", false, { taskId });
     this.name = "TaskCancellationError";
   }
 }
 
+/**
+ * @class JsonParseError
+ * @description Error thrown when a request body is not valid JSON
+ */
+export class JsonParseError extends A2AError {
+  constructor() {
+    super("Parse error", "PARSE_ERROR");
+    this.name = "JsonParseError";
+  }
+}
+
+/**
+ * @class InvalidRequestError
+ * @description Error thrown when a request is not a valid JSON-RPC 2.0 request
+ */
+export class InvalidRequestError extends A2AError {
+  constructor(message: string = "Invalid JSON-RPC 2.0 request") {
+    super(message, "INVALID_REQUEST");
+    this.name = "InvalidRequestError";
+  }
+}
+
+/**
+ * @class MethodNotFoundError
+ * @description Error thrown when a JSON-RPC method is not supported
+ */
+export class MethodNotFoundError extends A2AError {
+  constructor(method: string) {
+    super(`Method not found: ${method}`, "METHOD_NOT_FOUND", false, {
+      method,
+    });
+    this.name = "MethodNotFoundError";
+  }
+}
+
+/**
+ * @class InvalidParamsError
+ * @description Error thrown when request parameters fail validation
+ */
+export class InvalidParamsError extends A2AError {
+  constructor(message: string, data: Record<string, any> = {}) {
+    super(message, "INVALID_PARAMS", false, data);
+    this.name = "InvalidParamsError";
+  }
+}
+
+/**
+ * @class TaskNotFoundError
+ * @description Error thrown when a task does not exist
+ */
+export class TaskNotFoundError extends A2AError {
+  constructor(taskId: string) {
+    super(`Task ${taskId} not found`, "TASK_NOT_FOUND", false, { taskId });
+    this.name = "TaskNotFoundError";
+  }
+}
+
+/**
+ * @class TaskNotCancelableError
+ * @description Error thrown when a task can no longer be cancelled
+ */
+export class TaskNotCancelableError extends A2AError {
+  constructor(taskId: string, state: TaskState) {
+    super(
+      `Task ${taskId} cannot be canceled in state ${state}`,
+      "TASK_NOT_CANCELABLE",
+      false,
+      { taskId, state }
+    );
+    this.name = "TaskNotCancelableError";
+  }
+}
+
+/**
+ * @class ContentTypeNotSupportedError
+ * @description Error thrown when the requested content types cannot be produced
+ */
+export class ContentTypeNotSupportedError extends A2AError {
+  constructor(message: string, data: Record<string, any> = {}) {
+    super(message, "CONTENT_TYPE_NOT_SUPPORTED", false, data);
+    this.name = "ContentTypeNotSupportedError";
+  }
+}
+
+/**
+ * @class UnauthorizedError
+ * @description Error thrown when a request lacks valid credentials
+ */
+export class UnauthorizedError extends A2AError {
+  constructor(message: string = "Unauthorized") {
+    super(message, "UNAUTHORIZED");
+    this.name = "UnauthorizedError";
+  }
+}
+
+/**
+ * @class IdempotencyConflictError
+ * @description Error thrown when an idempotency key is reused for a different
+ * task submission
+ */
+export class IdempotencyConflictError extends A2AError {
+  constructor(idempotencyKey: string, taskId: string) {
+    super(
+      `Idempotency key ${idempotencyKey} was already used for task ${taskId} with different parameters`,
+      "IDEMPOTENCY_CONFLICT",
+      false,
+      { idempotencyKey, taskId }
+    );
+    this.name = "IdempotencyConflictError";
+  }
+}
+
+/**
+ * @class AgentRestartingError
+ * @description Error thrown when a task is submitted while the agent drains
+ * before shutting down; the client may send it again, to another instance
+ */
+export class AgentRestartingError extends A2AError {
+  constructor() {
+    super(
+      "Agent is restarting and does not accept new tasks, retry shortly",
+      "AGENT_RESTARTING",
+      true
+    );
+    this.name = "AgentRestartingError";
+  }
+}
+
+/**
+ * @class AgentBusyError
+ * @description Error thrown when the queue of a task's skill or provider is
+ * full; the client may send it again after `retryAfter` seconds
+ */
+export class AgentBusyError extends A2AError {
+  constructor(pool: string, queueLimit: number, retryAfter: number) {
+    super(
+      `Agent is busy: the queue of ${pool} is full (${queueLimit} tasks), retry in ${retryAfter}s`,
+      "AGENT_BUSY",
+      true,
+      { pool, queueLimit, retryAfter }
+    );
+    this.name = "AgentBusyError";
+  }
+}
+
+/**
+ * @class ScheduleNotFoundError
+ * @description Error thrown when a schedule does not exist
+ */
+export class ScheduleNotFoundError extends A2AError {
+  constructor(scheduleId: string) {
+    super(`Schedule ${scheduleId} not found`, "SCHEDULE_NOT_FOUND", false, {
+      scheduleId,
+    });
+    this.name = "ScheduleNotFoundError";
+  }
+}
+
+/**
+ * @class InvalidTaskTransitionError
+ * @description Error thrown when a task is moved to a state it cannot reach
+ * from its current one, e.g. from completed back to working
+ */
+export class InvalidTaskTransitionError extends A2AError {
+  constructor(taskId: string, from: TaskState, to: TaskState) {
+    super(
+      `Task ${taskId} cannot move from ${from} to ${to}`,
+      "INVALID_TASK_TRANSITION",
+      false,
+      { taskId, from, to }
+    );
+    this.name = "InvalidTaskTransitionError";
+  }
+}
+
 /**
  * @class ErrorHandler
  * @description Handles errors and retries for A2A tasks
@@ -118,7 +303,7 @@ export class ErrorHandler {
       metadata
     );
 
-    await this.updateTaskStatus(taskId, "failed", error.message);
+    await this.updateTaskStatus(taskId, TaskState.FAILED, error.message);
 
     if (error.retryAttempt < retryConfig.maxAttempts) {
       Logger.info(
@@ -138,18 +323,14 @@ export class ErrorHandler {
 
   /**
    * @method retryTask
-   * @description Retries a failed task with exponential backoff
+   * @description Retries a failed task with exponential backoff and jitter
    * @param {string} taskId - ID of the task to retry
    * @param {number} attempt - Current retry attempt number
    * @returns {Promise<void>}
    */
   private async retryTask(taskId: string, attempt: number): Promise<void> {
     const retryConfig = this.getRetryConfig();
-    const delay = Math.min(
-      retryConfig.initialDelayMs *
-        Math.pow(retryConfig.backoffFactor, attempt - 1),
-      retryConfig.maxDelayMs
-    );
+    const delay = getRetryDelay(attempt, retryConfig);
 
     Logger.debug(
       `Waiting ${delay}ms before retry attempt ${attempt} for task ${taskId}`,
@@ -161,53 +342,43 @@ export class ErrorHandler {
     );
 
     await new Promise((resolve) => setTimeout(resolve, delay));
-    await this.updateTaskStatus(taskId, "retrying");
+    await this.updateTaskStatus(taskId, TaskState.SUBMITTED);
   }
 
   /**
    * @method updateTaskStatus
-   * @description Updates the status of a task
+   * @description Moves a task to a new state, see TaskStore.transitionTask
    * @param {string} taskId - ID of the task to update
-   * @param {string} status - New status
+   * @param {TaskState} state - New state
    * @param {string} [error] - Optional error message
    * @returns {Promise<void>}
+   * @throws {InvalidTaskTransitionError} If the task cannot move to the state
    */
   private async updateTaskStatus(
     taskId: string,
-    status: string,
+    state: TaskState,
     error?: string
   ): Promise<void> {
-    Logger.debug(`Updating task ${taskId} status to ${status}`, {
+    Logger.debug(`Updating task ${taskId} status to ${state}`, {
       taskId,
-      status,
+      state,
       error,
     });
 
-    const task = await this.taskStore.getTask(taskId);
-    if (!task) {
-      throw new Error(`Task ${taskId} not found`);
-    }
-
-    const updatedTask: Task = {
-      ...task,
-      status: {
-        state: status as TaskState,
-        timestamp: new Date().toISOString(),
-        message: error
-          ? {
-              role: "agent" as const,
-              parts: [
-                {
-                  type: "text" as const,
-                  text: error,
-                },
-              ],
-            }
-          : undefined,
-      },
-    };
-
-    await this.taskStore.updateTask(updatedTask);
+    await this.taskStore.transitionTask(taskId, {
+      state,
+      message: error
+        ? {
+            role: "agent" as const,
+            parts: [
+              {
+                type: "text" as const,
+                text: error,
+              },
+            ],
+          }
+        : undefined,
+    });
   }
 
   /**
@@ -252,10 +423,16 @@ export class ErrorHandler {
    */
   public static handleHttpError(error: Error, res: Response): void {
     Logger.error(`HTTP Error: ${error.message}`);
-    if (error instanceof A2AError) {
-      res.status(400).json({ error: error.message, code: error.code });
-    } else {
-      res.status(500).json({ error: "Internal server error" });
+    const { code, message, data } = toJsonRpcError(error);
+    const status = getHttpStatus(code);
+    if (typeof data?.retryAfter === "number") {
+      res.setHeader("Retry-After", String(data.retryAfter));
     }
+    res.status(status).json({
+      // Unexpected errors are not exposed to REST clients
+      error: status === 500 ? "Internal server error" : message,
+      code,
+      data,
+    });
   }
 }
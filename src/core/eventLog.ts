@@ -0,0 +1,124 @@
+/**
+ * @file eventLog.ts
+ * @description Per-task log of push notification events used for replay
+ */
+
+import { PushNotificationEvent } from "../interfaces/a2a";
+
+/**
+ * How long the log of a finished task is kept, in milliseconds
+ */
+export const DEFAULT_EVENT_RETENTION = 60 * 60 * 1000;
+
+/**
+ * @interface EventLogConfig
+ * @description Configuration options for the event log
+ */
+interface EventLogConfig {
+  maxEventsPerTask: number;
+  /** How long the log of a finished task is kept, see expire */
+  retention?: number;
+}
+
+/**
+ * @class EventLog
+ * @description Keeps an ordered, bounded log of the events emitted for each task
+ * so that clients reconnecting after a disconnect can catch up on what they missed
+ */
+export class EventLog {
+  private events: Map<string, PushNotificationEvent[]> = new Map();
+  private sequences: Map<string, number> = new Map();
+  private expiries: Map<string, NodeJS.Timeout> = new Map();
+
+  constructor(private config: EventLogConfig = { maxEventsPerTask: 100 }) {}
+
+  /**
+   * @method append
+   * @description Record an event, assigning it the next sequence number for its task
+   * @param {PushNotificationEvent} event - The event to record
+   * @returns {PushNotificationEvent} The recorded event including its ID
+   */
+  public append(event: PushNotificationEvent): PushNotificationEvent {
+    // A finished task may run again, e.g. requeued from the dead-letter store
+    this.cancelExpiry(event.taskId);
+    const id = (this.sequences.get(event.taskId) || 0) + 1;
+    this.sequences.set(event.taskId, id);
+
+    const recorded = { ...event, id };
+    const events = this.events.get(event.taskId) || [];
+    events.push(recorded);
+    if (events.length > this.config.maxEventsPerTask) {
+      events.splice(0, events.length - this.config.maxEventsPerTask);
+    }
+    this.events.set(event.taskId, events);
+    return recorded;
+  }
+
+  /**
+   * @method getEventsSince
+   * @description Get the events of a task recorded after the given event ID
+   * @param {string} taskId - The task ID
+   * @param {number} lastEventId - ID of the last event the client received
+   * @returns {PushNotificationEvent[]} Events newer than lastEventId, oldest first
+   */
+  public getEventsSince(
+    taskId: string,
+    lastEventId: number
+  ): PushNotificationEvent[] {
+    return (this.events.get(taskId) || []).filter(
+      (event) => (event.id || 0) > lastEventId
+    );
+  }
+
+  /**
+   * @method getLastEventId
+   * @description Get the ID of the most recent event recorded for a task
+   * @param {string} taskId - The task ID
+   * @returns {number} The last event ID, or 0 if none was recorded
+   */
+  public getLastEventId(taskId: string): number {
+    return this.sequences.get(taskId) || 0;
+  }
+
+  /**
+   * @method clear
+   * @description Drop the log of a task. Its sequence is kept, so the events
+   * of a task run again afterwards get IDs above those a client already saw.
+   * @param {string} taskId - The task ID
+   */
+  public clear(taskId: string): void {
+    this.cancelExpiry(taskId);
+    this.events.delete(taskId);
+  }
+
+  /**
+   * @method expire
+   * @description Drop the log of a finished task once the retention period
+   * has passed, leaving clients time to catch up on its last events. A new
+   * event for the task keeps its log.
+   * @param {string} taskId - The task ID
+   */
+  public expire(taskId: string): void {
+    this.cancelExpiry(taskId);
+    const timer = setTimeout(
+      () => this.clear(taskId),
+      this.config.retention ?? DEFAULT_EVENT_RETENTION
+    );
+    // Do not keep the process alive for a pending expiry
+    timer.unref();
+    this.expiries.set(taskId, timer);
+  }
+
+  /**
+   * @private
+   * @method cancelExpiry
+   * @description Cancel the pending expiry of the log of a task, if any
+   */
+  private cancelExpiry(taskId: string): void {
+    const timer = this.expiries.get(taskId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiries.delete(taskId);
+    }
+  }
+}
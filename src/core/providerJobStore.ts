@@ -0,0 +1,158 @@
+/**
+ * @file providerJobStore.ts
+ * @description Storage for the jobs submitted to media providers, so that a
+ * task interrupted by a restart polls its job again instead of paying for a
+ * new one
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { Logger } from "../utils/logger";
+
+/**
+ * @interface ProviderJob
+ * @description A job submitted to a provider on behalf of a task
+ */
+export interface ProviderJob {
+  taskId: string;
+  provider: string;
+  /** The ID of the job at the provider, e.g. a PiAPI task_id */
+  jobId: string;
+  submittedAt: string;
+}
+
+/**
+ * @interface ProviderJobStore
+ * @description Storage interface for provider jobs, keyed by task ID
+ */
+export interface ProviderJobStore {
+  get(taskId: string): Promise<ProviderJob | null>;
+  set(job: ProviderJob): Promise<void>;
+  delete(taskId: string): Promise<boolean>;
+  list(): Promise<ProviderJob[]>;
+}
+
+/**
+ * @class InMemoryProviderJobStore
+ * @description Keeps provider jobs in memory (lost on restart)
+ */
+export class InMemoryProviderJobStore implements ProviderJobStore {
+  protected jobs: Map<string, ProviderJob> = new Map();
+
+  /**
+   * @method get
+   * @description Get the job of a task
+   */
+  public async get(taskId: string): Promise<ProviderJob | null> {
+    return this.jobs.get(taskId) || null;
+  }
+
+  /**
+   * @method set
+   * @description Create or replace the job of a task
+   */
+  public async set(job: ProviderJob): Promise<void> {
+    this.jobs.set(job.taskId, job);
+  }
+
+  /**
+   * @method delete
+   * @description Forget the job of a task
+   */
+  public async delete(taskId: string): Promise<boolean> {
+    return this.jobs.delete(taskId);
+  }
+
+  /**
+   * @method list
+   * @description Get all jobs, oldest first
+   */
+  public async list(): Promise<ProviderJob[]> {
+    return Array.from(this.jobs.values());
+  }
+}
+
+/**
+ * @class FileProviderJobStore
+ * @description Persists provider jobs to a JSON file so they survive restarts
+ */
+export class FileProviderJobStore extends InMemoryProviderJobStore {
+  private loaded: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @param {string} filePath - Path of the JSON file holding the jobs
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    this.loaded = this.load();
+  }
+
+  /**
+   * @private
+   * @method load
+   * @description Read the jobs stored on disk, if any
+   */
+  private async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const stored: ProviderJob[] = JSON.parse(content);
+      stored.forEach((job) => this.jobs.set(job.taskId, job));
+      Logger.info(
+        `Loaded ${this.jobs.size} provider jobs from ${this.filePath}`
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(
+          `Error loading provider jobs: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method persist
+   * @description Write all jobs to disk, one write at a time
+   */
+  private async persist(): Promise<void> {
+    const snapshot = JSON.stringify(Array.from(this.jobs.values()), null, 2);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot);
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writing;
+  }
+
+  public async get(taskId: string): Promise<ProviderJob | null> {
+    await this.loaded;
+    return super.get(taskId);
+  }
+
+  public async set(job: ProviderJob): Promise<void> {
+    await this.loaded;
+    await super.set(job);
+    await this.persist();
+  }
+
+  public async delete(taskId: string): Promise<boolean> {
+    await this.loaded;
+    const deleted = await super.delete(taskId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  public async list(): Promise<ProviderJob[]> {
+    await this.loaded;
+    return super.list();
+  }
+}
@@ -0,0 +1,156 @@
+/**
+ * @file pushNotificationStore.ts
+ * @description Storage for push notification (webhook) configurations
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { PushNotificationConfig } from "../interfaces/a2a";
+import { Logger } from "../utils/logger";
+
+/**
+ * @interface PushNotificationConfigStore
+ * @description Storage interface for webhook configurations, keyed by task ID
+ */
+export interface PushNotificationConfigStore {
+  get(taskId: string): Promise<PushNotificationConfig | null>;
+  set(taskId: string, config: PushNotificationConfig): Promise<void>;
+  delete(taskId: string): Promise<boolean>;
+  list(): Promise<PushNotificationConfig[]>;
+}
+
+/**
+ * @class InMemoryPushNotificationConfigStore
+ * @description Keeps webhook configurations in memory (lost on restart)
+ */
+export class InMemoryPushNotificationConfigStore
+  implements PushNotificationConfigStore
+{
+  protected configs: Map<string, PushNotificationConfig> = new Map();
+
+  /**
+   * @method get
+   * @description Get the configuration of a task
+   */
+  public async get(taskId: string): Promise<PushNotificationConfig | null> {
+    return this.configs.get(taskId) || null;
+  }
+
+  /**
+   * @method set
+   * @description Create or replace the configuration of a task
+   */
+  public async set(
+    taskId: string,
+    config: PushNotificationConfig
+  ): Promise<void> {
+    this.configs.set(taskId, config);
+  }
+
+  /**
+   * @method delete
+   * @description Delete the configuration of a task
+   */
+  public async delete(taskId: string): Promise<boolean> {
+    return this.configs.delete(taskId);
+  }
+
+  /**
+   * @method list
+   * @description Get all stored configurations
+   */
+  public async list(): Promise<PushNotificationConfig[]> {
+    return Array.from(this.configs.values());
+  }
+}
+
+/**
+ * @class FilePushNotificationConfigStore
+ * @description Persists webhook configurations to a JSON file so they survive restarts
+ */
+export class FilePushNotificationConfigStore extends InMemoryPushNotificationConfigStore {
+  private loaded: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @param {string} filePath - Path of the JSON file holding the configurations
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    this.loaded = this.load();
+  }
+
+  /**
+   * @private
+   * @method load
+   * @description Read the configurations stored on disk, if any
+   */
+  private async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const stored: Record<string, PushNotificationConfig> =
+        JSON.parse(content);
+      Object.entries(stored).forEach(([taskId, config]) =>
+        this.configs.set(taskId, config)
+      );
+      Logger.info(
+        `Loaded ${this.configs.size} push notification configs from ${this.filePath}`
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(
+          `Error loading push notification configs: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method persist
+   * @description Write all configurations to disk, one write at a time
+   */
+  private async persist(): Promise<void> {
+    const snapshot = JSON.stringify(Object.fromEntries(this.configs), null, 2);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot);
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writing;
+  }
+
+  public async get(taskId: string): Promise<PushNotificationConfig | null> {
+    await this.loaded;
+    return super.get(taskId);
+  }
+
+  public async set(
+    taskId: string,
+    config: PushNotificationConfig
+  ): Promise<void> {
+    await this.loaded;
+    await super.set(taskId, config);
+    await this.persist();
+  }
+
+  public async delete(taskId: string): Promise<boolean> {
+    await this.loaded;
+    const deleted = await super.delete(taskId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  public async list(): Promise<PushNotificationConfig[]> {
+    await this.loaded;
+    return super.list();
+  }
+}
@@ -0,0 +1,88 @@
+/**
+ * @file retryPolicy.ts
+ * @description Which failed tasks are retried, and how long to wait before
+ * each attempt
+ */
+
+import { RetryConfig, TaskTimeoutError } from "./errorHandler";
+import { MediaError, MediaErrorCode } from "../errors/mediaError";
+
+/**
+ * @function isTimeoutError
+ * @description Whether an error is a provider timeout or the task's deadline
+ * @param {unknown} error - The error
+ * @returns {boolean} True for timeouts
+ */
+function isTimeoutError(error: unknown): boolean {
+  return (
+    error instanceof TaskTimeoutError ||
+    (error instanceof MediaError && error.code === MediaErrorCode.TIMEOUT)
+  );
+}
+
+/**
+ * @function isRetryableError
+ * @description Whether a failed task may succeed if run again: network
+ * failures and provider 5xx responses are, and so are timeouts of idempotent
+ * jobs. Invalid requests, failed generations and any other error are final.
+ * @param {unknown} error - The error the task failed with
+ * @param {boolean} idempotent - Whether running the job again is safe, e.g. a
+ * timed-out job that may still be running at the provider
+ * @returns {boolean} True if the task should be retried
+ */
+export function isRetryableError(error: unknown, idempotent: boolean): boolean {
+  if (isTimeoutError(error)) {
+    return idempotent;
+  }
+  if (!(error instanceof MediaError)) {
+    return false;
+  }
+  return (
+    error.code === MediaErrorCode.NETWORK_ERROR ||
+    (error.code === MediaErrorCode.API_ERROR && error.status >= 500)
+  );
+}
+
+/**
+ * @function getRetryDelay
+ * @description Get the wait before a retry: an exponential backoff capped at
+ * `maxDelayMs`, of which a random half is dropped (jitter) so that tasks
+ * failed by the same outage do not all retry at once
+ * @param {number} attempt - The retry attempt, from 1
+ * @param {RetryConfig} config - The retry configuration
+ * @param {() => number} [random] - Source of randomness in [0, 1)
+ * @returns {number} The delay, in milliseconds
+ */
+export function getRetryDelay(
+  attempt: number,
+  config: RetryConfig,
+  random: () => number = Math.random
+): number {
+  const backoff = Math.min(
+    config.initialDelayMs * Math.pow(config.backoffFactor, attempt - 1),
+    config.maxDelayMs
+  );
+  return Math.round(backoff / 2 + (random() * backoff) / 2);
+}
+
+/**
+ * @function describeRetryCause
+ * @description Short description of why a task is retried, e.g. "provider 503"
+ * @param {unknown} error - The error the task failed with
+ * @returns {string} The description
+ */
+export function describeRetryCause(error: unknown): string {
+  if (isTimeoutError(error)) {
+    return "timeout";
+  }
+  if (error instanceof MediaError && error.code === MediaErrorCode.API_ERROR) {
+    return `provider ${error.status}`;
+  }
+  if (
+    error instanceof MediaError &&
+    error.code === MediaErrorCode.NETWORK_ERROR
+  ) {
+    return "network error";
+  }
+  return error instanceof Error ? error.message : "unknown error";
+}
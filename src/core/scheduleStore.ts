@@ -0,0 +1,195 @@
+/**
+ * @file scheduleStore.ts
+ * @description Storage for recurring schedules, each creating a task from a
+ * template at the times matching its cron expression
+ */
+
+import fs from "fs/promises";
+import path from "path";
+import { JSONRPCError, Message, TaskPriority } from "../interfaces/a2a";
+import { Logger } from "../utils/logger";
+
+/**
+ * @interface ScheduleTaskTemplate
+ * @description The `tasks/send` parameters of the task created at each run
+ */
+export interface ScheduleTaskTemplate {
+  sessionId?: string;
+  message: Message;
+  metadata?: Record<string, any>;
+  acceptedOutputModes?: string[];
+  priority?: TaskPriority;
+}
+
+/**
+ * @interface ScheduleRun
+ * @description A run of a schedule
+ */
+export interface ScheduleRun {
+  /** The time the run was due */
+  scheduledAt: string;
+  /** The task created by the run */
+  taskId?: string;
+  /** Why no task could be created */
+  error?: JSONRPCError;
+}
+
+/**
+ * @interface Schedule
+ * @description A recurring schedule and its latest runs
+ */
+export interface Schedule {
+  id: string;
+  name?: string;
+  /** Cron expression of the run times, in UTC, see parseCron */
+  cron: string;
+  task: ScheduleTaskTemplate;
+  paused: boolean;
+  /** Hash of the API key of the caller who created the schedule */
+  clientId?: string;
+  createdAt: string;
+  /** The time of the next run, unless paused */
+  nextRunAt?: string;
+  /** The latest runs, oldest first */
+  runs: ScheduleRun[];
+}
+
+/**
+ * @interface ScheduleStore
+ * @description Storage interface for schedules, keyed by schedule ID
+ */
+export interface ScheduleStore {
+  get(scheduleId: string): Promise<Schedule | null>;
+  set(schedule: Schedule): Promise<void>;
+  delete(scheduleId: string): Promise<boolean>;
+  list(): Promise<Schedule[]>;
+}
+
+/**
+ * @class InMemoryScheduleStore
+ * @description Keeps schedules in memory (lost on restart)
+ */
+export class InMemoryScheduleStore implements ScheduleStore {
+  protected schedules: Map<string, Schedule> = new Map();
+
+  /**
+   * @method get
+   * @description Get a schedule
+   */
+  public async get(scheduleId: string): Promise<Schedule | null> {
+    return this.schedules.get(scheduleId) || null;
+  }
+
+  /**
+   * @method set
+   * @description Create or replace a schedule
+   */
+  public async set(schedule: Schedule): Promise<void> {
+    this.schedules.set(schedule.id, schedule);
+  }
+
+  /**
+   * @method delete
+   * @description Delete a schedule
+   */
+  public async delete(scheduleId: string): Promise<boolean> {
+    return this.schedules.delete(scheduleId);
+  }
+
+  /**
+   * @method list
+   * @description Get all schedules, oldest first
+   */
+  public async list(): Promise<Schedule[]> {
+    return Array.from(this.schedules.values());
+  }
+}
+
+/**
+ * @class FileScheduleStore
+ * @description Persists schedules to a JSON file so they survive restarts
+ */
+export class FileScheduleStore extends InMemoryScheduleStore {
+  private loaded: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+
+  /**
+   * @constructor
+   * @param {string} filePath - Path of the JSON file holding the schedules
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    this.loaded = this.load();
+  }
+
+  /**
+   * @private
+   * @method load
+   * @description Read the schedules stored on disk, if any
+   */
+  private async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const stored: Schedule[] = JSON.parse(content);
+      stored.forEach((schedule) => this.schedules.set(schedule.id, schedule));
+      Logger.info(
+        `Loaded ${this.schedules.size} schedules from ${this.filePath}`
+      );
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(
+          `Error loading schedules: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method persist
+   * @description Write all schedules to disk, one write at a time
+   */
+  private async persist(): Promise<void> {
+    const snapshot = JSON.stringify(
+      Array.from(this.schedules.values()),
+      null,
+      2
+    );
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot);
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writing;
+  }
+
+  public async get(scheduleId: string): Promise<Schedule | null> {
+    await this.loaded;
+    return super.get(scheduleId);
+  }
+
+  public async set(schedule: Schedule): Promise<void> {
+    await this.loaded;
+    await super.set(schedule);
+    await this.persist();
+  }
+
+  public async delete(scheduleId: string): Promise<boolean> {
+    await this.loaded;
+    const deleted = await super.delete(scheduleId);
+    if (deleted) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  public async list(): Promise<Schedule[]> {
+    await this.loaded;
+    return super.list();
+  }
+}
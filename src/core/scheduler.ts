@@ -0,0 +1,280 @@
+/**
+ * @file scheduler.ts
+ * @description Runs recurring schedules: at each time matching its cron
+ * expression, a schedule creates a task from its template
+ */
+
+import crypto from "crypto";
+import { Task } from "../interfaces/a2a";
+import { Logger } from "../utils/logger";
+import { getNextRun, parseCron } from "../utils/cron";
+import { toJsonRpcError } from "../errors/errorCatalog";
+import {
+  Schedule,
+  ScheduleRun,
+  ScheduleStore,
+  ScheduleTaskTemplate,
+} from "./scheduleStore";
+
+/**
+ * Number of runs kept in the history of a schedule
+ */
+export const MAX_SCHEDULE_RUNS = 50;
+
+/**
+ * Longest delay setTimeout supports (about 24.8 days); later runs are waited
+ * for in several steps
+ */
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * @interface ScheduleInput
+ * @description What a new schedule is made of
+ */
+export interface ScheduleInput {
+  name?: string;
+  cron: string;
+  task: ScheduleTaskTemplate;
+  clientId?: string;
+}
+
+/**
+ * @class Scheduler
+ * @description Keeps a timer for the next run of each active schedule. A run
+ * creates a task through the given callback and is recorded in the history of
+ * the schedule, with the created task or the error. Runs missed while the
+ * agent was stopped are caught up with a single run on start.
+ */
+export class Scheduler {
+  private timers: Map<string, NodeJS.Timeout> = new Map();
+  private stopped: boolean = false;
+
+  /**
+   * @constructor
+   * @param {ScheduleStore} store - Storage of the schedules
+   * @param {Function} createTask - Creates the task of a run of a schedule
+   */
+  constructor(
+    private store: ScheduleStore,
+    private createTask: (schedule: Schedule) => Promise<Task>
+  ) {}
+
+  /**
+   * @method start
+   * @description Set the timers of the stored schedules that are not paused
+   */
+  public async start(): Promise<void> {
+    this.stopped = false;
+    const schedules = (await this.store.list()).filter(
+      (schedule) => !schedule.paused
+    );
+    schedules.forEach((schedule) => this.arm(schedule));
+    if (schedules.length > 0) {
+      Logger.info(`Started ${schedules.length} schedules`);
+    }
+  }
+
+  /**
+   * @method stop
+   * @description Clear the timers of all schedules, e.g. before shutting down
+   */
+  public stop(): void {
+    this.stopped = true;
+    this.timers.forEach((timer) => clearTimeout(timer));
+    this.timers.clear();
+  }
+
+  /**
+   * @method createSchedule
+   * @description Store a new schedule and set the timer of its first run
+   * @param {ScheduleInput} input - The cron expression and task template
+   * @returns {Promise<Schedule>} The schedule
+   * @throws {InvalidParamsError} If the cron expression is invalid
+   */
+  public async createSchedule(input: ScheduleInput): Promise<Schedule> {
+    const cron = parseCron(input.cron);
+    const schedule: Schedule = {
+      id: crypto.randomUUID(),
+      name: input.name,
+      cron: input.cron,
+      task: input.task,
+      paused: false,
+      clientId: input.clientId,
+      createdAt: new Date().toISOString(),
+      nextRunAt: getNextRun(cron, new Date())?.toISOString(),
+      runs: [],
+    };
+    await this.store.set(schedule);
+    this.arm(schedule);
+    Logger.info(`Created schedule ${schedule.id} (${schedule.cron})`);
+    return schedule;
+  }
+
+  /**
+   * @method getSchedule
+   * @description Get a schedule with its latest runs
+   */
+  public async getSchedule(scheduleId: string): Promise<Schedule | null> {
+    return this.store.get(scheduleId);
+  }
+
+  /**
+   * @method listSchedules
+   * @description Get all schedules
+   */
+  public async listSchedules(): Promise<Schedule[]> {
+    return this.store.list();
+  }
+
+  /**
+   * @method pauseSchedule
+   * @description Stop running a schedule until it is resumed
+   * @returns {Promise<Schedule | null>} The schedule, or null if it does not exist
+   */
+  public async pauseSchedule(scheduleId: string): Promise<Schedule | null> {
+    const schedule = await this.store.get(scheduleId);
+    if (!schedule) {
+      return null;
+    }
+    this.disarm(scheduleId);
+    const paused: Schedule = {
+      ...schedule,
+      paused: true,
+      nextRunAt: undefined,
+    };
+    await this.store.set(paused);
+    Logger.info(`Paused schedule ${scheduleId}`);
+    return paused;
+  }
+
+  /**
+   * @method resumeSchedule
+   * @description Run a paused schedule again, from its next matching time
+   * @returns {Promise<Schedule | null>} The schedule, or null if it does not exist
+   */
+  public async resumeSchedule(scheduleId: string): Promise<Schedule | null> {
+    const schedule = await this.store.get(scheduleId);
+    if (!schedule || !schedule.paused) {
+      return schedule;
+    }
+    const resumed: Schedule = {
+      ...schedule,
+      paused: false,
+      nextRunAt: getNextRun(
+        parseCron(schedule.cron),
+        new Date()
+      )?.toISOString(),
+    };
+    await this.store.set(resumed);
+    this.arm(resumed);
+    Logger.info(`Resumed schedule ${scheduleId}`);
+    return resumed;
+  }
+
+  /**
+   * @method deleteSchedule
+   * @description Delete a schedule; the tasks it created are kept
+   * @returns {Promise<boolean>} False if the schedule does not exist
+   */
+  public async deleteSchedule(scheduleId: string): Promise<boolean> {
+    this.disarm(scheduleId);
+    const deleted = await this.store.delete(scheduleId);
+    if (deleted) {
+      Logger.info(`Deleted schedule ${scheduleId}`);
+    }
+    return deleted;
+  }
+
+  /**
+   * @private
+   * @method arm
+   * @description Set the timer of the next run of a schedule. A run that is
+   * already due, e.g. missed while the agent was stopped, starts right away.
+   */
+  private arm(schedule: Schedule): void {
+    this.disarm(schedule.id);
+    if (this.stopped || schedule.paused || !schedule.nextRunAt) {
+      return;
+    }
+    const wait = Math.min(
+      Math.max(Date.parse(schedule.nextRunAt) - Date.now(), 0),
+      MAX_TIMER_DELAY
+    );
+    this.timers.set(
+      schedule.id,
+      setTimeout(() => {
+        this.timers.delete(schedule.id);
+        this.run(schedule.id).catch((error) => {
+          Logger.error(
+            `Error running schedule ${schedule.id}: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        });
+      }, wait)
+    );
+  }
+
+  /**
+   * @private
+   * @method disarm
+   * @description Clear the timer of a schedule
+   */
+  private disarm(scheduleId: string): void {
+    clearTimeout(this.timers.get(scheduleId));
+    this.timers.delete(scheduleId);
+  }
+
+  /**
+   * @private
+   * @method run
+   * @description Create the task of a due schedule and record the run. The
+   * next run is set before the task is created, so a crash in between skips
+   * a run rather than repeating it.
+   */
+  private async run(scheduleId: string): Promise<void> {
+    const schedule = await this.store.get(scheduleId);
+    if (!schedule || schedule.paused || !schedule.nextRunAt) {
+      return;
+    }
+    // A run further away than the longest timer is not due yet
+    if (Date.parse(schedule.nextRunAt) > Date.now()) {
+      this.arm(schedule);
+      return;
+    }
+    const scheduledAt = schedule.nextRunAt;
+    await this.store.set({
+      ...schedule,
+      nextRunAt: getNextRun(
+        parseCron(schedule.cron),
+        new Date()
+      )?.toISOString(),
+    });
+
+    let run: ScheduleRun;
+    try {
+      const task = await this.createTask(schedule);
+      run = { scheduledAt, taskId: task.id };
+      Logger.info(`Schedule ${scheduleId} created task ${task.id}`);
+    } catch (error) {
+      run = { scheduledAt, error: toJsonRpcError(error) };
+      Logger.error(
+        `Error creating the task of schedule ${scheduleId}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+
+    // The schedule may have been paused or deleted meanwhile
+    const current = await this.store.get(scheduleId);
+    if (!current) {
+      return;
+    }
+    const updated: Schedule = {
+      ...current,
+      runs: [...current.runs, run].slice(-MAX_SCHEDULE_RUNS),
+    };
+    await this.store.set(updated);
+    this.arm(updated);
+  }
+}
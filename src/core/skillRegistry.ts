@@ -0,0 +1,140 @@
+/**
+ * @file skillRegistry.ts
+ * @description Registry of the skills exposed by the agent. The agent card is
+ * generated from it and tasks are routed to the handler of their skill.
+ */
+
+import {
+  AgentSkill,
+  InputParameter,
+  TaskContext,
+  TaskYieldUpdate,
+} from "../interfaces/a2a";
+
+/**
+ * @interface SkillHandler
+ * @description Executes the tasks of a skill, yielding status updates and artifacts
+ */
+export interface SkillHandler {
+  handleTask(context: TaskContext): AsyncGenerator<TaskYieldUpdate>;
+}
+
+/**
+ * @interface SkillDefinition
+ * @description A skill as advertised in the agent card, plus the task type it
+ * handles and its handler
+ */
+export interface SkillDefinition extends Omit<AgentSkill, "parameters"> {
+  /** Value of the `taskType` parameter routed to this skill */
+  taskType: string;
+  /** Parameters of the skill, besides `taskType` and `timeout` */
+  parameters: InputParameter[];
+  /** Deadline of the skill's tasks in milliseconds, defaults to TASK_TIMEOUT */
+  timeout?: number;
+  /** Longest deadline a request may set with `timeout`, defaults to `timeout` */
+  maxTimeout?: number;
+  /** Provider running the skill's jobs, whose concurrency pool the tasks share */
+  provider?: string;
+  /** Whether a timed-out job may be run again without side effects */
+  idempotent?: boolean;
+  handler: SkillHandler;
+}
+
+/**
+ * @class SkillRegistry
+ * @description Keeps the skills of the agent, keyed by ID and task type
+ */
+export class SkillRegistry {
+  private skills: Map<string, SkillDefinition> = new Map();
+
+  /**
+   * @method register
+   * @description Add a skill to the registry
+   * @param {SkillDefinition} skill - The skill to add
+   * @returns {SkillRegistry} The registry, for chaining
+   * @throws {Error} If the skill ID or task type is already registered
+   */
+  public register(skill: SkillDefinition): this {
+    if (this.skills.has(skill.id)) {
+      throw new Error(`Skill ${skill.id} is already registered`);
+    }
+    if (this.getSkillForTaskType(skill.taskType)) {
+      throw new Error(`Task type ${skill.taskType} is already registered`);
+    }
+    this.skills.set(skill.id, skill);
+    return this;
+  }
+
+  /**
+   * @method getSkillForTaskType
+   * @description Find the skill handling a task type
+   * @param {string} [taskType] - The task type
+   * @returns {SkillDefinition | undefined} The skill, if any
+   */
+  public getSkillForTaskType(taskType?: string): SkillDefinition | undefined {
+    return this.listSkills().find((skill) => skill.taskType === taskType);
+  }
+
+  /**
+   * @method getTaskTypes
+   * @description Get the task types handled by the registered skills
+   * @returns {string[]} The task types, in registration order
+   */
+  public getTaskTypes(): string[] {
+    return this.listSkills().map((skill) => skill.taskType);
+  }
+
+  /**
+   * @method listSkills
+   * @description Get the registered skills
+   * @returns {SkillDefinition[]} The skills, in registration order
+   */
+  public listSkills(): SkillDefinition[] {
+    return Array.from(this.skills.values());
+  }
+
+  /**
+   * @method toAgentSkills
+   * @description Describe the registered skills for the agent card
+   * @param {number} defaultTimeout - Deadline of skills without their own, in milliseconds
+   * @returns {AgentSkill[]} The skills, with their `taskType` and `timeout` parameters
+   */
+  public toAgentSkills(defaultTimeout: number): AgentSkill[] {
+    return this.listSkills().map(
+      ({
+        handler,
+        taskType,
+        parameters,
+        timeout,
+        maxTimeout,
+        provider,
+        idempotent,
+        ...skill
+      }): AgentSkill => {
+        const deadline = timeout ?? defaultTimeout;
+        return {
+          ...skill,
+          parameters: [
+            {
+              name: "taskType",
+              description: `Type of ${skill.name.toLowerCase()} task. Must be '${taskType}' (required)`,
+              required: true,
+              type: "string",
+              enum: [taskType],
+            },
+            ...parameters,
+            {
+              name: "timeout",
+              description: `Deadline of the task in milliseconds, up to ${Math.max(
+                maxTimeout ?? deadline,
+                deadline
+              )} (optional, default ${deadline})`,
+              required: false,
+              type: "number",
+            },
+          ],
+        };
+      }
+    );
+  }
+}
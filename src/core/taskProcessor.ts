@@ -11,88 +11,151 @@ import {
   TaskContext,
 } from "../interfaces/a2a";
 import { TaskStore } from "./taskStore";
+import { TaskTransition } from "./taskStateMachine";
 import { Logger } from "../utils/logger";
-import { ImageGenerationController } from "../controllers/imageController";
-import { VideoGenerationController } from "../controllers/videoController";
-import { PushNotificationService } from "../services/pushNotificationService";
+import { SkillDefinition, SkillRegistry } from "./skillRegistry";
 import {
-  PushNotificationEvent,
-  PushNotificationEventType,
-} from "../interfaces/a2a";
+  InvalidParamsError,
+  InvalidTaskTransitionError,
+  TaskCancellationError,
+  TaskTimeoutError,
+} from "./errorHandler";
+import { toJsonRpcError } from "../errors/errorCatalog";
+import { CancellationToken } from "./cancellationToken";
+import { getTaskParameters } from "../utils/taskParameters";
+import { toJsonDescriptor } from "../utils/outputModes";
+import { labelArtifacts } from "../utils/sweep";
+import { resolveTaskTimeout } from "../utils/taskTimeout";
+import { describeRetryCause } from "./retryPolicy";
+
+/**
+ * @interface TaskRetry
+ * @description A retry of a failed task, as recorded in its history
+ */
+export interface TaskRetry {
+  /** The retry attempt, from 1 */
+  attempt: number;
+  maxAttempts: number;
+  /** Wait before the attempt, in milliseconds */
+  delay: number;
+  /** The error the previous attempt failed with */
+  error: unknown;
+}
 
 /**
  * @class TaskProcessor
  * @description Handles the processing of individual tasks
  */
 export class TaskProcessor {
-  private isCancelled: boolean = false;
-  private pushNotificationService: PushNotificationService;
+  private cancellationTokens: Map<string, CancellationToken> = new Map();
 
   /**
    * @constructor
    * @param {TaskStore} taskStore - Store for task persistence
-   * @param {ImageGenerationController} imageController - Controller for image generation
-   * @param {VideoGenerationController} videoController - Controller for video generation
+   * @param {SkillRegistry} skillRegistry - Skills handling the tasks, by task type
+   * @param {number} [defaultTimeout] - Deadline of tasks whose skill sets none, in milliseconds
    */
   constructor(
     private taskStore: TaskStore,
-    private imageController: ImageGenerationController,
-    private videoController: VideoGenerationController
-  ) {
-    this.pushNotificationService = new PushNotificationService();
-  }
+    private skillRegistry: SkillRegistry,
+    private defaultTimeout: number = 300000
+  ) {}
 
   /**
    * @method processTask
-   * @description Process a single task
+   * @description Process a single task, within the deadline of its skill
+   * @param {Task} task - The task to process
+   * @param {Function} [willRetry] - Whether the caller retries the task after
+   * an error; the task is then not moved to failed
+   * @returns {Promise<TaskState | void>} The state the task ended in, none if
+   * it was cancelled
    */
-  public async processTask(task: Task): Promise<void> {
+  public async processTask(
+    task: Task,
+    willRetry: (error: unknown) => boolean = () => false
+  ): Promise<TaskState | void> {
+    const cancellationToken = new CancellationToken();
+    this.cancellationTokens.set(task.id, cancellationToken);
+    let deadlineTimer: NodeJS.Timeout | undefined;
     try {
       Logger.info(`Processing task ${task.id}`);
 
       // Validate task data
       this.validateTask(task);
 
+      // Route to the skill registered for the taskType
+      const parameters = getTaskParameters(task.message, task.metadata);
+      const taskType = parameters.taskType || task.taskType;
+      const skill = this.skillRegistry.getSkillForTaskType(taskType);
+      if (!skill) {
+        throw new InvalidParamsError(
+          `Invalid or missing taskType. Must be one of: ${this.skillRegistry
+            .getTaskTypes()
+            .join(", ")}.`,
+          { taskType }
+        );
+      }
+      const timeout = resolveTaskTimeout(
+        skill,
+        this.defaultTimeout,
+        parameters.timeout
+      );
+
+      // The deadline is set when the task first starts, and is kept by its
+      // retries and by a recovery after a restart
+      if (!task.deadline) {
+        task.deadline = new Date(Date.now() + timeout).toISOString();
+      }
+      const deadline = Date.parse(task.deadline);
+
       // Update task status to working
-      await this.updateTaskStatus(task, TaskState.WORKING);
+      await this.updateTaskStatus(task, TaskState.WORKING, undefined, {
+        deadline: task.deadline,
+      });
+      if (deadline <= Date.now()) {
+        throw new TaskTimeoutError(task.id, timeout);
+      }
 
       // Create task context
       const context: TaskContext = {
         task,
-        isCancelled: () => this.isCancelled,
+        isCancelled: () => cancellationToken.isCancelled,
+        cancellationToken,
+        deadline,
       };
 
-      // Route to the correct controller based on taskType
-      let controller;
-      if (task.taskType === "text2image") {
-        controller = this.imageController;
-      } else if (task.taskType === "text2video") {
-        controller = this.videoController;
-      } else {
-        throw new Error(
-          "Invalid or missing taskType. Must be one of: text2image, text2video."
-        );
-      }
-      for await (const update of controller.handleTask(context)) {
-        await this.updateTaskStatus(
-          task,
-          update.state,
-          update.message,
-          update.artifacts
-        );
-        if (
-          update.state === TaskState.COMPLETED ||
-          update.state === TaskState.FAILED
-        ) {
-          break;
-        }
-      }
+      // The deadline aborts the handler and its provider job, and fails the
+      // task even if the handler never yields again
+      const expiry = new Promise<never>((_, reject) => {
+        deadlineTimer = setTimeout(() => {
+          if (cancellationToken.isCancelled) {
+            reject(new TaskCancellationError(task.id));
+            return;
+          }
+          const error = new TaskTimeoutError(task.id, timeout);
+          cancellationToken.cancel(error.message);
+          reject(error);
+        }, deadline - Date.now());
+      });
+      await Promise.race([this.runSkill(skill, context), expiry]);
+      return (await this.taskStore.getTask(task.id))?.status.state;
     } catch (error) {
+      // cancelTask has already moved the task to cancelled
+      if (
+        cancellationToken.isCancelled &&
+        !(error instanceof TaskTimeoutError)
+      ) {
+        Logger.info(`Task ${task.id} stopped after cancellation`);
+        return;
+      }
       Logger.error(
         `Error processing task ${task.id}: ${
           error instanceof Error ? error.message : "Unknown error"
         }`
       );
+      if (willRetry(error)) {
+        throw error;
+      }
 
       const errorMessage: Message = {
         role: "agent",
@@ -104,21 +167,68 @@ export class TaskProcessor {
                 ? error.message
                 : "Unknown error occurred during processing",
           },
+          {
+            type: "data",
+            data: { error: toJsonRpcError(error, this.isIdempotent(task)) },
+          },
         ],
       };
 
       await this.updateTaskStatus(task, TaskState.FAILED, errorMessage);
       throw error;
+    } finally {
+      clearTimeout(deadlineTimer);
+      this.cancellationTokens.delete(task.id);
     }
   }
 
+  /**
+   * @private
+   * @method runSkill
+   * @description Run the handler of a skill and record its updates, until the
+   * task completes, fails or is cancelled
+   */
+  private async runSkill(
+    skill: SkillDefinition,
+    context: TaskContext
+  ): Promise<void> {
+    const { task, cancellationToken } = context;
+    for await (const update of skill.handler.handleTask(context)) {
+      // The task was cancelled or timed out meanwhile
+      if (cancellationToken.isCancelled) {
+        break;
+      }
+      await this.updateTaskStatus(
+        task,
+        update.state,
+        update.message,
+        update.artifacts ? { artifacts: update.artifacts } : undefined
+      );
+      if (
+        update.state === TaskState.COMPLETED ||
+        update.state === TaskState.FAILED
+      ) {
+        break;
+      }
+    }
+  }
+
+  /**
+   * @method isIdempotent
+   * @description Whether the skill of a task is safe to run again after a
+   * timeout, which makes its timeouts retryable
+   */
+  private isIdempotent(task: Task): boolean {
+    return !!this.skillRegistry.getSkillForTaskType(task.taskType)?.idempotent;
+  }
+
   /**
    * @method validateTask
    * @description Validate task data before processing
    */
   private validateTask(task: Task): void {
     if (!task?.message?.parts) {
-      throw new Error("Task message is empty or invalid");
+      throw new InvalidParamsError("Task message is empty or invalid");
     }
 
     const textParts = task.message.parts.filter(
@@ -129,84 +239,51 @@ export class TaskProcessor {
     );
 
     if (textParts.length === 0) {
-      throw new Error("Task must contain a non-empty text prompt");
+      throw new InvalidParamsError("Task must contain a non-empty text prompt");
     }
   }
 
   /**
    * @method updateTaskStatus
-   * @description Update task status, persist changes, and notify subscribers if state or progress changes
+   * @description Move a task to a new state, along with changes such as its
+   * artifacts. The task store notifies subscribers of the transition. An
+   * update repeating the current state and message is skipped, and a
+   * cancelled task keeps its final state.
    */
   private async updateTaskStatus(
     task: Task,
     state: TaskState,
     message?: Message,
-    artifacts?: any[]
+    changes?: TaskTransition["changes"]
   ): Promise<void> {
     try {
-      const timestamp = new Date().toISOString();
-      const currentTask = await this.taskStore.getTask(task.id);
-
-      if (!currentTask) {
-        throw new Error(`Task ${task.id} not found`);
+      let artifacts = changes?.artifacts;
+      // Artifacts of a sweep task are labelled with the values that made it
+      if (artifacts && task.variables) {
+        artifacts = labelArtifacts(artifacts, task.variables);
       }
 
-      // Only update and notify if state or progress text changes
-      const lastStatus = currentTask.status;
-      const lastHistory = currentTask.history || [];
-      const lastProgress =
-        lastHistory.length > 0
-          ? lastHistory[lastHistory.length - 1]
-          : undefined;
-      const isStateChanged = lastStatus?.state !== state;
-      let isProgressChanged = false;
-      if (
-        message &&
-        lastProgress &&
-        message.parts &&
-        lastProgress.message &&
-        lastProgress.message.parts
-      ) {
-        // Compare progress text if present
-        const lastText = lastProgress.message.parts.find(
-          (p: any) => p.type === "text"
-        )?.text;
-        const newText = message.parts.find((p: any) => p.type === "text")?.text;
-        isProgressChanged = lastText !== newText;
-      }
-
-      if (!isStateChanged && !isProgressChanged) {
-        return;
+      // Tasks negotiated to JSON get their artifacts as JSON descriptors
+      if (artifacts && task.outputMode === "application/json") {
+        artifacts = artifacts.map(toJsonDescriptor);
       }
 
-      const statusUpdate = {
+      const updatedTask = await this.taskStore.transitionTask(task.id, {
         state,
-        timestamp,
         message,
-      };
-
-      const updatedTask = {
-        ...currentTask,
-        status: statusUpdate,
-        history: [...(currentTask.history || []), statusUpdate],
-        ...(artifacts ? { artifacts } : {}),
-      };
-
-      await this.taskStore.updateTask(updatedTask);
-      Logger.info(`Updated task ${task.id} status to ${state}`);
-
-      // Notify subscribers if there is a relevant change
-      const event: PushNotificationEvent = {
-        type: PushNotificationEventType.STATUS_UPDATE,
-        taskId: task.id,
-        timestamp,
-        data: {
-          status: statusUpdate,
-          artifacts: artifacts,
-        },
-      };
-      this.pushNotificationService.notify(task.id, event);
+        changes: changes && { ...changes, ...(artifacts && { artifacts }) },
+      });
+      if (updatedTask) {
+        Logger.info(`Updated task ${task.id} status to ${state}`);
+      }
     } catch (error) {
+      // A cancelled task keeps its final state
+      if (
+        error instanceof InvalidTaskTransitionError &&
+        error.data.from === TaskState.CANCELLED
+      ) {
+        return;
+      }
       Logger.error(
         `Error updating task status: ${
           error instanceof Error ? error.message : "Unknown error"
@@ -216,11 +293,66 @@ export class TaskProcessor {
     }
   }
 
+  /**
+   * @method recordRetry
+   * @description Move a failed task back to submitted until its retry, with
+   * the attempt and its cause in the status message and history
+   * @param {Task} task - The task to retry
+   * @param {TaskRetry} retry - The retry attempt
+   */
+  public async recordRetry(task: Task, retry: TaskRetry): Promise<void> {
+    const { attempt, maxAttempts, delay, error } = retry;
+    await this.updateTaskStatus(task, TaskState.SUBMITTED, {
+      role: "agent",
+      parts: [
+        {
+          type: "text",
+          text: `Retry ${attempt}/${maxAttempts} after ${describeRetryCause(
+            error
+          )}, in ${(delay / 1000).toFixed(1)}s`,
+        },
+        {
+          type: "data",
+          data: {
+            retry: {
+              attempt,
+              maxAttempts,
+              delay,
+              error: toJsonRpcError(error, this.isIdempotent(task)),
+            },
+          },
+        },
+      ],
+    });
+  }
+
   /**
    * @method cancelTask
-   * @description Cancel the current task processing
+   * @description Cancel a task being processed: abort its handler and provider
+   * job through its cancellation token, then move it to cancelled
+   * @param {string} taskId - The task to cancel
+   * @param {string} [reason] - Why the task is cancelled, kept in its status message
+   * @returns {Promise<boolean>} False if the task is not being processed
    */
-  public cancelTask(): void {
-    this.isCancelled = true;
+  public async cancelTask(
+    taskId: string,
+    reason: string = "Task cancelled by user"
+  ): Promise<boolean> {
+    const cancellationToken = this.cancellationTokens.get(taskId);
+    if (!cancellationToken || cancellationToken.isCancelled) {
+      return false;
+    }
+    const task = await this.taskStore.getTask(taskId);
+    if (!task) {
+      return false;
+    }
+    // Stop the handler first, so none of its updates land after the cancellation
+    cancellationToken.cancel(reason);
+    await this.updateTaskStatus(task, TaskState.CANCELLED, {
+      role: "agent",
+      parts: [{ type: "text", text: reason }],
+    });
+    Logger.info(`Cancelled task ${taskId}: ${reason}`);
+    return true;
   }
 }
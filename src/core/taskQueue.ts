@@ -1,11 +1,31 @@
 /**
  * @file taskQueue.ts
- * @description Manages a queue of tasks with retry logic
+ * @description Manages a queue of tasks with priorities, per-client fairness,
+ * concurrency pools per skill and provider, delayed starts, retries with
+ * backoff, and a dead-letter store for the tasks it gives up on
  */
 
-import { Task } from "../interfaces/a2a";
+import {
+  Task,
+  TaskPriority,
+  TaskQueuePosition,
+  TaskState,
+} from "../interfaces/a2a";
 import { TaskProcessor } from "./taskProcessor";
 import { Logger } from "../utils/logger";
+import { AgentBusyError, RetryConfig } from "./errorHandler";
+import { toJsonRpcError } from "../errors/errorCatalog";
+import { getTaskParameters } from "../utils/taskParameters";
+import {
+  DeadLetterAttempt,
+  DeadLetterStore,
+  InMemoryDeadLetterStore,
+} from "./deadLetterStore";
+import {
+  describeRetryCause,
+  getRetryDelay,
+  isRetryableError,
+} from "./retryPolicy";
 
 /**
  * @interface QueueConfig
@@ -14,7 +34,37 @@ import { Logger } from "../utils/logger";
 interface QueueConfig {
   maxConcurrent: number;
   maxRetries: number;
+  /** Wait before the first retry, doubled at each attempt */
   retryDelay: number;
+  /** Longest wait before a retry */
+  maxRetryDelay?: number;
+  /** Wait in milliseconds after which a task runs next, whatever its priority */
+  starvationThreshold?: number;
+  /** Most tasks running at once per task type, e.g. { text2video: 2 } */
+  skillConcurrency?: Record<string, number>;
+  /** Most tasks running at once per provider, e.g. { piapi: 5 } */
+  providerConcurrency?: Record<string, number>;
+  /** Most tasks waiting in the queue per task type, e.g. { text2video: 20 } */
+  skillQueueDepth?: Record<string, number>;
+  /** Most tasks waiting in the queue per provider, e.g. { piapi: 50 } */
+  providerQueueDepth?: Record<string, number>;
+  /** Provider of each task type, e.g. { text2video: "piapi" } */
+  skillProviders?: Record<string, string>;
+  /** Task types whose jobs are safe to run again after a timeout */
+  idempotentTaskTypes?: string[];
+}
+
+/**
+ * @interface PoolStatus
+ * @description Status of a concurrency pool (a skill or a provider)
+ */
+export interface PoolStatus {
+  /** Most tasks of the pool running at once, if limited */
+  limit?: number;
+  /** Most tasks of the pool waiting in the queue, if limited */
+  queueLimit?: number;
+  queued: number;
+  processing: number;
 }
 
 /**
@@ -23,21 +73,87 @@ interface QueueConfig {
  */
 interface QueueStatus {
   queuedTasks: number;
+  /** Tasks waiting for their `runAt` time before joining the queue */
+  delayedTasks: number;
+  queuedByPriority: Record<TaskPriority, number>;
   processingTasks: number;
   failedTasks: number;
   completedTasks: number;
+  pools: {
+    skills: Record<string, PoolStatus>;
+    providers: Record<string, PoolStatus>;
+  };
 }
 
+/**
+ * @interface QueueEntry
+ * @description A queued task and the time it joined the queue
+ */
+interface QueueEntry {
+  task: Task;
+  enqueuedAt: number;
+}
+
+/**
+ * Priorities in the order they are served
+ */
+const PRIORITY_ORDER: TaskPriority[] = [
+  TaskPriority.HIGH,
+  TaskPriority.NORMAL,
+  TaskPriority.LOW,
+];
+
+/**
+ * Default wait after which a queued task is no longer passed over (5 minutes)
+ */
+const DEFAULT_STARVATION_THRESHOLD = 300000;
+
+/**
+ * Number of recent run times kept per skill and duration for ETAs
+ */
+const RUN_TIME_SAMPLES = 20;
+
+/**
+ * Seconds a client is asked to wait before resubmitting to a full queue
+ */
+const BUSY_RETRY_AFTER = 30;
+
+/**
+ * Longest delay setTimeout supports (about 24.8 days); later starts are
+ * waited for in several steps
+ */
+const MAX_TIMER_DELAY = 2147483647;
+
+/**
+ * Default longest wait before a retry (30 seconds)
+ */
+const DEFAULT_MAX_RETRY_DELAY = 30000;
+
 /**
  * @class TaskQueue
- * @description Manages task queuing and processing with retry logic
+ * @description Manages task queuing and processing with retry logic. Higher
+ * priorities run first; within a priority, clients take turns so one caller's
+ * backlog does not hold up everyone else. Besides `maxConcurrent`, each skill
+ * and provider may have its own limit, so slow video jobs cannot take every
+ * slot from quick image jobs.
  */
 export class TaskQueue {
-  private queue: Task[] = [];
-  private processing: Set<string> = new Set();
+  private queue: QueueEntry[] = [];
+  private lastServed: Map<string, number> = new Map();
+  private servedCount: number = 0;
+  private processing: Map<string, Task> = new Map();
   private failed: Set<string> = new Set();
   private completed: Set<string> = new Set();
   private retryCount: Map<string, number> = new Map();
+  private retryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private delayed: Map<string, { task: Task; timer: NodeJS.Timeout }> =
+    new Map();
+  private attempts: Map<string, DeadLetterAttempt[]> = new Map();
+  private draining: boolean = false;
+  private startedAt: Map<string, number> = new Map();
+  private runTimes: Map<string, number[]> = new Map();
+  private queueListeners: Set<() => void> = new Set();
+  private idleListeners: Array<() => void> = [];
 
   constructor(
     private taskProcessor: TaskProcessor,
@@ -45,12 +161,14 @@ export class TaskQueue {
       maxConcurrent: 5,
       maxRetries: 3,
       retryDelay: 1000,
-    }
+    },
+    private deadLetterStore: DeadLetterStore = new InMemoryDeadLetterStore()
   ) {}
 
   /**
    * @method enqueueTask
-   * @description Add a task to the queue
+   * @description Add a task to the queue. A task whose `runAt` time is in the
+   * future is held until then.
    */
   public async enqueueTask(task: Task): Promise<void> {
     try {
@@ -58,8 +176,14 @@ export class TaskQueue {
         throw new Error("Invalid task: missing task ID");
       }
 
+      if (task.runAt && Date.parse(task.runAt) > Date.now()) {
+        this.delay(task);
+        return;
+      }
+
       Logger.info(`Enqueueing task ${task.id}`);
-      this.queue.push(task);
+      this.failed.delete(task.id);
+      this.queue.push({ task, enqueuedAt: Date.now() });
       await this.processNextTasks();
     } catch (error) {
       Logger.error(
@@ -71,18 +195,101 @@ export class TaskQueue {
     }
   }
 
+  /**
+   * @private
+   * @method delay
+   * @description Hold a task until its `runAt` time, then enqueue it
+   */
+  private delay(task: Task): void {
+    if (this.draining) {
+      return;
+    }
+    const wait = Math.min(
+      Date.parse(task.runAt!) - Date.now(),
+      MAX_TIMER_DELAY
+    );
+    Logger.info(`Delaying task ${task.id} until ${task.runAt}`);
+    this.delayed.set(task.id, {
+      task,
+      timer: setTimeout(() => {
+        this.delayed.delete(task.id);
+        this.enqueueTask(task).catch((error) => {
+          Logger.error(
+            `Error enqueueing delayed task ${task.id}: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        });
+      }, wait),
+    });
+  }
+
+  /**
+   * @method checkCapacity
+   * @description Make sure the queues of new or resumed tasks' skills and
+   * providers can take them all. Retries, recovered and requeued tasks were
+   * accepted before, and are not checked.
+   * @param {...Task} tasks - The tasks, e.g. the children of a batch
+   * @throws {AgentBusyError} If a queue is full
+   */
+  public checkCapacity(...tasks: Task[]): void {
+    const queued = this.queue.map((entry) => entry.task);
+    tasks.forEach((task) => {
+      this.checkPoolCapacity(task, queued);
+      queued.push(task);
+    });
+  }
+
+  /**
+   * @private
+   * @method checkPoolCapacity
+   * @description Make sure the queues of a task's skill and provider can take it
+   * @param {Task} task - The new task
+   * @param {Task[]} queued - The tasks queued, or about to be
+   * @throws {AgentBusyError} If either queue is full
+   */
+  private checkPoolCapacity(task: Task, queued: Task[]): void {
+    const skillLimit = task.taskType
+      ? this.config.skillQueueDepth?.[task.taskType]
+      : undefined;
+    if (
+      skillLimit !== undefined &&
+      queued.filter((other) => other.taskType === task.taskType).length >=
+        skillLimit
+    ) {
+      throw new AgentBusyError(task.taskType!, skillLimit, BUSY_RETRY_AFTER);
+    }
+    const provider = this.getProvider(task);
+    const providerLimit = provider
+      ? this.config.providerQueueDepth?.[provider]
+      : undefined;
+    if (
+      providerLimit !== undefined &&
+      queued.filter((other) => this.getProvider(other) === provider).length >=
+        providerLimit
+    ) {
+      throw new AgentBusyError(provider!, providerLimit, BUSY_RETRY_AFTER);
+    }
+  }
+
   /**
    * @method processNextTasks
    * @description Process next tasks in queue if capacity allows
    */
   private async processNextTasks(): Promise<void> {
     try {
-      const availableSlots = this.config.maxConcurrent - this.processing.size;
-      for (let i = 0; i < availableSlots && this.queue.length > 0; i++) {
-        const task = this.queue.shift();
-        if (!task) continue;
+      if (this.draining) {
+        if (this.processing.size === 0) {
+          this.idleListeners.splice(0).forEach((resolve) => resolve());
+        }
+        return;
+      }
+      while (this.processing.size < this.config.maxConcurrent) {
+        const task = this.dequeue();
+        if (!task) break;
 
-        this.processing.add(task.id);
+        this.processing.set(task.id, task);
+        this.startedAt.set(task.id, Date.now());
         this.processTask(task).catch((error) => {
           Logger.error(
             `Error in processTask: ${
@@ -91,6 +298,7 @@ export class TaskQueue {
           );
         });
       }
+      this.notifyQueueListeners();
     } catch (error) {
       Logger.error(
         `Error processing next tasks: ${
@@ -100,62 +308,351 @@ export class TaskQueue {
     }
   }
 
+  /**
+   * @private
+   * @method dequeue
+   * @description Take the next task to run, among those whose skill and
+   * provider pools have a free slot (see selectNext)
+   * @returns {Task | undefined} The task, or undefined if none can run
+   */
+  private dequeue(): Task | undefined {
+    const next = this.selectNext(
+      this.queue.filter((entry) => this.hasCapacity(entry.task)),
+      this.lastServed,
+      Date.now()
+    );
+    if (!next) {
+      return undefined;
+    }
+    this.queue.splice(this.queue.indexOf(next), 1);
+    this.servedCount = this.markServed(
+      next.task,
+      this.queue,
+      this.lastServed,
+      this.servedCount
+    );
+    return next.task;
+  }
+
+  /**
+   * @private
+   * @method selectNext
+   * @description Pick the next of the given queue entries to run. A task that
+   * has waited past the starvation threshold goes first; otherwise the highest
+   * priority is served, taking the oldest task of the client served least
+   * recently.
+   * @param {QueueEntry[]} entries - Candidate entries, in arrival order
+   * @param {Map<string, number>} lastServed - Turn at which each client was last served
+   * @param {number} now - The current time
+   * @returns {QueueEntry | undefined} The entry, or undefined if there is none
+   */
+  private selectNext(
+    entries: QueueEntry[],
+    lastServed: Map<string, number>,
+    now: number
+  ): QueueEntry | undefined {
+    if (entries.length === 0) {
+      return undefined;
+    }
+    const threshold =
+      this.config.starvationThreshold ?? DEFAULT_STARVATION_THRESHOLD;
+    // Entries are in arrival order, so this finds the longest-waiting one
+    const starved = entries.find(
+      (entry) => now - entry.enqueuedAt >= threshold
+    );
+    if (starved) {
+      return starved;
+    }
+    const priority = PRIORITY_ORDER.find((level) =>
+      entries.some((entry) => this.getPriority(entry.task) === level)
+    );
+    const candidates = entries.filter(
+      (entry) => this.getPriority(entry.task) === priority
+    );
+    const clientKey = candidates
+      .map((entry) => this.getClientKey(entry.task))
+      .reduce((best, key) =>
+        (lastServed.get(key) ?? -1) < (lastServed.get(best) ?? -1) ? key : best
+      );
+    return candidates.find(
+      (entry) => this.getClientKey(entry.task) === clientKey
+    );
+  }
+
+  /**
+   * @private
+   * @method markServed
+   * @description Record the turn of the client of a task that was taken from
+   * the queue. Clients with nothing left queued are forgotten; they rejoin as
+   * new.
+   * @param {Task} task - The task taken
+   * @param {QueueEntry[]} remaining - The entries left in the queue
+   * @param {Map<string, number>} lastServed - Turn at which each client was last served
+   * @param {number} servedCount - The last turn
+   * @returns {number} The new last turn
+   */
+  private markServed(
+    task: Task,
+    remaining: QueueEntry[],
+    lastServed: Map<string, number>,
+    servedCount: number
+  ): number {
+    const key = this.getClientKey(task);
+    if (remaining.some((entry) => this.getClientKey(entry.task) === key)) {
+      lastServed.set(key, servedCount + 1);
+      return servedCount + 1;
+    }
+    lastServed.delete(key);
+    return servedCount;
+  }
+
+  /**
+   * @private
+   * @method hasCapacity
+   * @description Check that the skill and provider pools of a task have a free slot
+   */
+  private hasCapacity(task: Task): boolean {
+    const processing = Array.from(this.processing.values());
+    const skillLimit = task.taskType
+      ? this.config.skillConcurrency?.[task.taskType]
+      : undefined;
+    if (
+      skillLimit !== undefined &&
+      processing.filter((running) => running.taskType === task.taskType)
+        .length >= skillLimit
+    ) {
+      return false;
+    }
+    const provider = this.getProvider(task);
+    const providerLimit = provider
+      ? this.config.providerConcurrency?.[provider]
+      : undefined;
+    return (
+      providerLimit === undefined ||
+      processing.filter((running) => this.getProvider(running) === provider)
+        .length < providerLimit
+    );
+  }
+
+  /**
+   * @private
+   * @method getProvider
+   * @description Get the provider running a task, from its task type
+   */
+  private getProvider(task: Task): string | undefined {
+    return task.taskType
+      ? this.config.skillProviders?.[task.taskType]
+      : undefined;
+  }
+
+  /**
+   * @private
+   * @method getPriority
+   * @description Get the priority of a task
+   */
+  private getPriority(task: Task): TaskPriority {
+    return task.priority || TaskPriority.NORMAL;
+  }
+
+  /**
+   * @private
+   * @method getClientKey
+   * @description Get the key clients take turns by: the caller's API key, else its session
+   */
+  private getClientKey(task: Task): string {
+    return task.clientId || task.sessionId || "anonymous";
+  }
+
   /**
    * @method processTask
-   * @description Process a single task with retry logic
+   * @description Process a single task. Retryable failures run again after a
+   * backoff, during which the task frees its slot; other failures are
+   * dead-lettered.
    */
   private async processTask(task: Task): Promise<void> {
     try {
-      await this.taskProcessor.processTask(task);
+      const state = await this.taskProcessor.processTask(task, (error) =>
+        this.shouldRetry(task, error)
+      );
       this.processing.delete(task.id);
-      this.completed.add(task.id);
-      Logger.info(`Task ${task.id} completed successfully`);
+      // Runs cut short by a cancellation, or waiting for input, would skew
+      // the run time estimates
+      if (state === TaskState.COMPLETED) {
+        this.recordRunTime(task);
+        this.completed.add(task.id);
+        Logger.info(`Task ${task.id} completed successfully`);
+      }
+      this.startedAt.delete(task.id);
+      this.retryCount.delete(task.id);
+      this.attempts.delete(task.id);
       await this.processNextTasks();
     } catch (error) {
-      const retries = this.retryCount.get(task.id) || 0;
-
-      if (retries < this.config.maxRetries) {
-        Logger.warn(
-          `Retrying task ${task.id} (attempt ${retries + 1}/${
-            this.config.maxRetries
-          })`
-        );
-        this.retryCount.set(task.id, retries + 1);
-
-        setTimeout(() => {
-          this.queue.push(task);
-          this.processing.delete(task.id);
-          this.processNextTasks().catch((error) => {
-            Logger.error(
-              `Error in retry processNextTasks: ${
-                error instanceof Error ? error.message : "Unknown error"
-              }`
-            );
-          });
-        }, this.config.retryDelay);
+      this.processing.delete(task.id);
+      this.startedAt.delete(task.id);
+      const attempts = this.attempts.get(task.id) || [];
+      attempts.push({
+        attempt: attempts.length + 1,
+        failedAt: new Date().toISOString(),
+        error: toJsonRpcError(error, this.isIdempotent(task)),
+      });
+      this.attempts.set(task.id, attempts);
+      if (this.shouldRetry(task, error)) {
+        await this.scheduleRetry(task, error);
       } else {
         Logger.error(
-          `Task ${task.id} failed after ${this.config.maxRetries} retries`
+          `Task ${task.id} failed after ${
+            this.retryCount.get(task.id) || 0
+          } retries`
         );
-        this.processing.delete(task.id);
         this.failed.add(task.id);
-        await this.processNextTasks();
+        await this.deadLetter(task);
       }
+      await this.processNextTasks();
     }
   }
 
+  /**
+   * @private
+   * @method deadLetter
+   * @description Keep a task the queue gave up on, with the error of each
+   * attempt, so it can be inspected and requeued
+   */
+  private async deadLetter(task: Task): Promise<void> {
+    const attempts = this.attempts.get(task.id) || [];
+    this.retryCount.delete(task.id);
+    this.attempts.delete(task.id);
+    try {
+      await this.deadLetterStore.set({
+        taskId: task.id,
+        task,
+        error: attempts[attempts.length - 1].error,
+        attempts,
+        deadLetteredAt: new Date().toISOString(),
+      });
+      Logger.warn(`Task ${task.id} moved to the dead-letter store`);
+    } catch (error) {
+      Logger.error(
+        `Error dead-lettering task ${task.id}: ${
+          error instanceof Error ? error.message : "Unknown error"
+        }`
+      );
+    }
+  }
+
+  /**
+   * @private
+   * @method shouldRetry
+   * @description Check that a failed task has retries left, failed with a
+   * retryable error and has time left before its deadline
+   */
+  private shouldRetry(task: Task, error: unknown): boolean {
+    return (
+      (this.retryCount.get(task.id) || 0) < this.config.maxRetries &&
+      isRetryableError(error, this.isIdempotent(task)) &&
+      !(task.deadline && Date.parse(task.deadline) <= Date.now())
+    );
+  }
+
+  /**
+   * @private
+   * @method isIdempotent
+   * @description Whether the job of a task is safe to run again after a timeout
+   */
+  private isIdempotent(task: Task): boolean {
+    return (
+      !!task.taskType &&
+      !!this.config.idempotentTaskTypes?.includes(task.taskType)
+    );
+  }
+
+  /**
+   * @private
+   * @method scheduleRetry
+   * @description Record the next attempt of a failed task in its history and
+   * queue the task again once the backoff has elapsed
+   */
+  private async scheduleRetry(task: Task, error: unknown): Promise<void> {
+    const attempt = (this.retryCount.get(task.id) || 0) + 1;
+    const retryConfig: RetryConfig = {
+      maxAttempts: this.config.maxRetries,
+      initialDelayMs: this.config.retryDelay,
+      maxDelayMs: this.config.maxRetryDelay ?? DEFAULT_MAX_RETRY_DELAY,
+      backoffFactor: 2,
+    };
+    const delay = getRetryDelay(attempt, retryConfig);
+    this.retryCount.set(task.id, attempt);
+    Logger.warn(
+      `Retrying task ${task.id} (attempt ${attempt}/${
+        this.config.maxRetries
+      }) in ${delay}ms after ${describeRetryCause(error)}`
+    );
+    try {
+      await this.taskProcessor.recordRetry(task, {
+        attempt,
+        maxAttempts: this.config.maxRetries,
+        delay,
+        error,
+      });
+    } catch (recordError) {
+      Logger.error(
+        `Error recording retry of task ${task.id}: ${
+          recordError instanceof Error ? recordError.message : "Unknown error"
+        }`
+      );
+    }
+
+    // A draining agent leaves the task submitted, to be recovered on restart
+    if (this.draining) {
+      return;
+    }
+    this.retryTimers.set(
+      task.id,
+      setTimeout(() => {
+        this.retryTimers.delete(task.id);
+        this.queue.push({ task, enqueuedAt: Date.now() });
+        this.processNextTasks().catch((error) => {
+          Logger.error(
+            `Error in retry processNextTasks: ${
+              error instanceof Error ? error.message : "Unknown error"
+            }`
+          );
+        });
+      }, delay)
+    );
+  }
+
   /**
    * @method cancelTask
-   * @description Cancel a task if it's in the queue
+   * @description Cancel a task if it's in the queue, waiting for its start
+   * time or waiting for a retry
    */
   public cancelTask(taskId: string): boolean {
     try {
-      const index = this.queue.findIndex((task) => task.id === taskId);
+      const delayed = this.delayed.get(taskId);
+      if (delayed) {
+        clearTimeout(delayed.timer);
+        this.delayed.delete(taskId);
+        Logger.info(`Delayed task ${taskId} cancelled successfully`);
+        return true;
+      }
+
+      const retryTimer = this.retryTimers.get(taskId);
+      if (retryTimer) {
+        clearTimeout(retryTimer);
+        this.retryTimers.delete(taskId);
+        this.retryCount.delete(taskId);
+        this.attempts.delete(taskId);
+        Logger.info(`Retry of task ${taskId} cancelled successfully`);
+        return true;
+      }
+
+      const index = this.queue.findIndex((entry) => entry.task.id === taskId);
       if (index === -1) {
         return false;
       }
 
       this.queue.splice(index, 1);
+      this.notifyQueueListeners();
       Logger.info(`Task ${taskId} cancelled successfully`);
       return true;
     } catch (error) {
@@ -168,16 +665,354 @@ export class TaskQueue {
     }
   }
 
+  /**
+   * @method drain
+   * @description Stop starting tasks, including pending retries and delayed
+   * tasks, and wait up to the grace period for the running ones to finish.
+   * Queued tasks stay submitted in the task store, to be recovered on the next
+   * start.
+   * @param {number} gracePeriod - Longest wait, in milliseconds
+   * @returns {Promise<string[]>} IDs of the tasks still running afterwards
+   */
+  public async drain(gracePeriod: number): Promise<string[]> {
+    this.draining = true;
+    this.retryTimers.forEach((timer) => clearTimeout(timer));
+    this.retryTimers.clear();
+    this.delayed.forEach(({ timer }) => clearTimeout(timer));
+    this.delayed.clear();
+    if (this.processing.size > 0) {
+      let graceTimer: NodeJS.Timeout | undefined;
+      await Promise.race([
+        new Promise<void>((resolve) => this.idleListeners.push(resolve)),
+        new Promise<void>((resolve) => {
+          graceTimer = setTimeout(resolve, gracePeriod);
+        }),
+      ]);
+      clearTimeout(graceTimer);
+    }
+    return Array.from(this.processing.keys());
+  }
+
+  /**
+   * @method addQueueListener
+   * @description Add a listener called whenever tasks join or leave the queue,
+   * e.g. to report the new queue positions
+   */
+  public addQueueListener(listener: () => void): void {
+    this.queueListeners.add(listener);
+  }
+
+  /**
+   * @private
+   * @method notifyQueueListeners
+   * @description Call the queue listeners, logging their errors
+   */
+  private notifyQueueListeners(): void {
+    this.queueListeners.forEach((listener) => {
+      try {
+        listener();
+      } catch (error) {
+        Logger.error(
+          `Error notifying queue listener: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    });
+  }
+
+  /**
+   * @private
+   * @method getRunTimeKey
+   * @description Key under which run times are averaged: the task type and,
+   * for videos, the requested duration
+   */
+  private getRunTimeKey(task: Task): string {
+    const duration = getTaskParameters(task.message, task.metadata).duration;
+    return `${task.taskType || "unknown"}:${duration ?? ""}`;
+  }
+
+  /**
+   * @private
+   * @method recordRunTime
+   * @description Keep the run time of a task that completed
+   */
+  private recordRunTime(task: Task): void {
+    const startedAt = this.startedAt.get(task.id);
+    this.startedAt.delete(task.id);
+    if (startedAt === undefined) {
+      return;
+    }
+    const key = this.getRunTimeKey(task);
+    const samples = [...(this.runTimes.get(key) || []), Date.now() - startedAt];
+    this.runTimes.set(key, samples.slice(-RUN_TIME_SAMPLES));
+  }
+
+  /**
+   * @private
+   * @method estimateRunTime
+   * @description Average run time of past tasks with the same skill and
+   * duration, else of the same skill
+   * @returns {number | undefined} The estimate in milliseconds, if any task ran
+   */
+  private estimateRunTime(task: Task): number | undefined {
+    const sameKey = this.runTimes.get(this.getRunTimeKey(task));
+    const samples =
+      sameKey ||
+      Array.from(this.runTimes.entries())
+        .filter(([key]) => key.startsWith(`${task.taskType || "unknown"}:`))
+        .flatMap(([, times]) => times);
+    return samples.length > 0
+      ? samples.reduce((sum, time) => sum + time, 0) / samples.length
+      : undefined;
+  }
+
+  /**
+   * @private
+   * @method getServiceOrder
+   * @description Order in which the queued tasks are expected to run: the
+   * order dequeue takes them in, taking turns between clients and serving
+   * starved tasks first, as if slots were free
+   * @returns {Task[]} The queued tasks, the next to run first
+   */
+  private getServiceOrder(): Task[] {
+    const remaining = [...this.queue];
+    const lastServed = new Map(this.lastServed);
+    let servedCount = this.servedCount;
+    const now = Date.now();
+    const order: Task[] = [];
+    while (remaining.length > 0) {
+      const next = this.selectNext(remaining, lastServed, now)!;
+      remaining.splice(remaining.indexOf(next), 1);
+      servedCount = this.markServed(
+        next.task,
+        remaining,
+        lastServed,
+        servedCount
+      );
+      order.push(next.task);
+    }
+    return order;
+  }
+
+  /**
+   * @private
+   * @method getSlotPool
+   * @description Pool whose slots a task waits for: its provider or skill if
+   * either is limited, else all slots of the queue
+   * @returns {Object} The key of the pool and its number of slots
+   */
+  private getSlotPool(task: Task): { key: string; slots: number } {
+    const provider = this.getProvider(task);
+    const skillLimit = task.taskType
+      ? this.config.skillConcurrency?.[task.taskType]
+      : undefined;
+    const providerLimit = provider
+      ? this.config.providerConcurrency?.[provider]
+      : undefined;
+    const slots = Math.max(
+      Math.min(
+        this.config.maxConcurrent,
+        skillLimit ?? Infinity,
+        providerLimit ?? Infinity
+      ),
+      1
+    );
+    // Tasks of a skill all share its provider
+    if (providerLimit !== undefined) {
+      return { key: `provider:${provider}`, slots };
+    }
+    if (skillLimit !== undefined) {
+      return { key: `skill:${task.taskType}`, slots };
+    }
+    return { key: "all", slots };
+  }
+
+  /**
+   * @private
+   * @method getPoolKeys
+   * @description Keys of every pool a task takes a slot of
+   */
+  private getPoolKeys(task: Task): string[] {
+    const provider = this.getProvider(task);
+    return [
+      "all",
+      ...(task.taskType ? [`skill:${task.taskType}`] : []),
+      ...(provider ? [`provider:${provider}`] : []),
+    ];
+  }
+
+  /**
+   * @method getQueuePosition
+   * @description Get where a queued task stands, see getQueuePositions
+   * @param {string} taskId - The task ID
+   * @returns {TaskQueuePosition | null} The position, or null if the task is not queued
+   */
+  public getQueuePosition(taskId: string): TaskQueuePosition | null {
+    if (!this.queue.some((entry) => entry.task.id === taskId)) {
+      return null;
+    }
+    return this.getQueuePositions().get(taskId) || null;
+  }
+
+  /**
+   * @method getQueuePositions
+   * @description Get where every queued task stands among the tasks waiting
+   * for the same slots (its provider or skill pool if limited, else the whole
+   * queue), in the order dequeue takes them. The ETA assumes the tasks of the
+   * pool running and ahead share its slots, each taking the average run time
+   * of its skill and duration.
+   * @returns {Map<string, TaskQueuePosition>} Positions by task ID
+   */
+  public getQueuePositions(): Map<string, TaskQueuePosition> {
+    const estimates = new Map<string, number | undefined>();
+    const estimate = (task: Task) => {
+      const key = this.getRunTimeKey(task);
+      if (!estimates.has(key)) {
+        estimates.set(key, this.estimateRunTime(task));
+      }
+      return estimates.get(key);
+    };
+    const order = this.getServiceOrder();
+    const queueLengths = new Map<string, number>();
+    order.forEach((task) =>
+      this.getPoolKeys(task).forEach((key) =>
+        queueLengths.set(key, (queueLengths.get(key) || 0) + 1)
+      )
+    );
+
+    // Tasks ahead of the next task and their run times, per pool; tasks
+    // without run times count as long as the task asking
+    const ahead = new Map<string, number>();
+    const aheadWork = new Map<string, number>();
+    const aheadUnknown = new Map<string, number>();
+    const running = new Map<string, Task[]>();
+    const now = Date.now();
+    this.processing.forEach((task) =>
+      this.getPoolKeys(task).forEach((key) =>
+        running.set(key, [...(running.get(key) || []), task])
+      )
+    );
+
+    const positions = new Map<string, TaskQueuePosition>();
+    order.forEach((task) => {
+      const pool = this.getSlotPool(task);
+      const position: TaskQueuePosition = {
+        position: (ahead.get(pool.key) || 0) + 1,
+        queueLength: queueLengths.get(pool.key) || 0,
+      };
+      const runTime = estimate(task);
+      if (runTime === undefined) {
+        positions.set(task.id, position);
+      } else {
+        const remaining = (running.get(pool.key) || []).map((other) =>
+          Math.max(
+            0,
+            (estimate(other) ?? runTime) -
+              (now - (this.startedAt.get(other.id) ?? now))
+          )
+        );
+        const work =
+          remaining.reduce((sum, time) => sum + time, 0) +
+          (aheadWork.get(pool.key) || 0) +
+          (aheadUnknown.get(pool.key) || 0) * runTime;
+        positions.set(task.id, {
+          ...position,
+          etaSeconds: Math.ceil((work / pool.slots + runTime) / 1000),
+        });
+      }
+      this.getPoolKeys(task).forEach((key) => {
+        ahead.set(key, (ahead.get(key) || 0) + 1);
+        if (runTime === undefined) {
+          aheadUnknown.set(key, (aheadUnknown.get(key) || 0) + 1);
+        } else {
+          aheadWork.set(key, (aheadWork.get(key) || 0) + runTime);
+        }
+      });
+    });
+    return positions;
+  }
+
+  /**
+   * @method hasTask
+   * @description Whether a task is queued, delayed, processing or waiting for
+   * a retry
+   */
+  public hasTask(taskId: string): boolean {
+    return (
+      this.processing.has(taskId) ||
+      this.retryTimers.has(taskId) ||
+      this.delayed.has(taskId) ||
+      this.queue.some((entry) => entry.task.id === taskId)
+    );
+  }
+
   /**
    * @method getQueueStatus
    * @description Get current status of the queue
    */
   public getQueueStatus(): QueueStatus {
+    const queuedByPriority = Object.fromEntries(
+      PRIORITY_ORDER.map((priority) => [
+        priority,
+        this.queue.filter((entry) => this.getPriority(entry.task) === priority)
+          .length,
+      ])
+    ) as Record<TaskPriority, number>;
+    const queued = this.queue.map((entry) => entry.task);
+    const processing = Array.from(this.processing.values());
+    const skills = new Set([
+      ...Object.keys(this.config.skillConcurrency || {}),
+      ...Object.keys(this.config.skillQueueDepth || {}),
+      ...Object.keys(this.config.skillProviders || {}),
+      ...[...queued, ...processing]
+        .map((task) => task.taskType)
+        .filter((taskType): taskType is string => !!taskType),
+    ]);
+    const providers = new Set([
+      ...Object.keys(this.config.providerConcurrency || {}),
+      ...Object.keys(this.config.providerQueueDepth || {}),
+      ...Object.values(this.config.skillProviders || {}),
+    ]);
+    const getPoolStatus = (
+      limit: number | undefined,
+      queueLimit: number | undefined,
+      inPool: (task: Task) => boolean
+    ): PoolStatus => ({
+      limit,
+      queueLimit,
+      queued: queued.filter(inPool).length,
+      processing: processing.filter(inPool).length,
+    });
     return {
       queuedTasks: this.queue.length,
+      delayedTasks: this.delayed.size,
+      queuedByPriority,
       processingTasks: this.processing.size,
       failedTasks: this.failed.size,
       completedTasks: this.completed.size,
+      pools: {
+        skills: Object.fromEntries(
+          Array.from(skills, (taskType) => [
+            taskType,
+            getPoolStatus(
+              this.config.skillConcurrency?.[taskType],
+              this.config.skillQueueDepth?.[taskType],
+              (task) => task.taskType === taskType
+            ),
+          ])
+        ),
+        providers: Object.fromEntries(
+          Array.from(providers, (provider) => [
+            provider,
+            getPoolStatus(
+              this.config.providerConcurrency?.[provider],
+              this.config.providerQueueDepth?.[provider],
+              (task) => this.getProvider(task) === provider
+            ),
+          ])
+        ),
+      },
     };
   }
 }
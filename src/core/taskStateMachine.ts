@@ -0,0 +1,111 @@
+/**
+ * @file taskStateMachine.ts
+ * @description The states a task moves through, the transitions allowed
+ * between them, and how a transition is recorded in the task history
+ */
+
+import { Message, Task, TaskState, TaskStatus } from "../interfaces/a2a";
+import { InvalidTaskTransitionError } from "./errorHandler";
+
+/**
+ * States each state may move to. Completed and cancelled tasks are final; a
+ * failed task only goes back to submitted when it is run again, e.g. from the
+ * dead-letter store.
+ */
+export const TASK_TRANSITIONS: Record<TaskState, TaskState[]> = {
+  [TaskState.SUBMITTED]: [
+    TaskState.WORKING,
+    TaskState.FAILED,
+    TaskState.CANCELLED,
+  ],
+  [TaskState.WORKING]: [
+    // Progress updates
+    TaskState.WORKING,
+    TaskState.INPUT_REQUIRED,
+    // Waiting for a retry
+    TaskState.SUBMITTED,
+    TaskState.COMPLETED,
+    TaskState.FAILED,
+    TaskState.CANCELLED,
+  ],
+  [TaskState.INPUT_REQUIRED]: [TaskState.SUBMITTED, TaskState.CANCELLED],
+  [TaskState.COMPLETED]: [],
+  [TaskState.FAILED]: [TaskState.SUBMITTED],
+  [TaskState.CANCELLED]: [],
+};
+
+/**
+ * @interface TaskTransition
+ * @description A change of the state of a task
+ */
+export interface TaskTransition {
+  state: TaskState;
+  /** Status message of the new state */
+  message?: Message;
+  /** Other fields of the task changed along with its state, e.g. artifacts */
+  changes?: Partial<Omit<Task, "id" | "status" | "history">>;
+}
+
+/**
+ * @function canTransition
+ * @description Whether a task may move from a state to another
+ */
+export function canTransition(from: TaskState, to: TaskState): boolean {
+  return TASK_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * @function startHistory
+ * @description Record the initial status of a new task as the first entry of
+ * its history. A task that already has a history, e.g. restored from the
+ * dead-letter store, keeps it.
+ * @param {Task} task - The new task
+ * @returns {Task} The task with its history
+ */
+export function startHistory(task: Task): Task {
+  if (task.history?.length) {
+    return task;
+  }
+  const status: TaskStatus = { ...task.status, sequence: 1 };
+  return { ...task, status, history: [status] };
+}
+
+/**
+ * @function applyTransition
+ * @description Move a task to a new state. The new status is appended to the
+ * history with the next sequence number, so the status of a task is always
+ * the last entry of its history.
+ * @param {Task} task - The task in its current state
+ * @param {TaskTransition} transition - The new state, message and changes
+ * @returns {Task | null} The updated task, or null if the task already is in
+ * that state with that message
+ * @throws {InvalidTaskTransitionError} If the task cannot move to the state
+ */
+export function applyTransition(
+  task: Task,
+  transition: TaskTransition
+): Task | null {
+  const { state, message, changes } = transition;
+  const from = task.status.state;
+  if (!canTransition(from, state)) {
+    throw new InvalidTaskTransitionError(task.id, from, state);
+  }
+  if (
+    state === from &&
+    JSON.stringify(message) === JSON.stringify(task.status.message)
+  ) {
+    return null;
+  }
+  const status: TaskStatus = {
+    state,
+    timestamp: new Date().toISOString(),
+    message,
+    sequence: (task.status.sequence ?? task.history?.length ?? 0) + 1,
+  };
+  return {
+    ...task,
+    ...changes,
+    status,
+    history: [...(task.history || []), status],
+  };
+}
@@ -3,8 +3,17 @@
  * @description Storage management for tasks
  */
 
+import fs from "fs/promises";
+import path from "path";
 import { Task } from "../interfaces/a2a";
 import { Logger } from "../utils/logger";
+import { isFinalState } from "../utils/batch";
+import { TaskNotFoundError } from "./errorHandler";
+import {
+  TaskTransition,
+  applyTransition,
+  startHistory,
+} from "./taskStateMachine";
 
 /**
  * @typedef {Function} StatusListener
@@ -14,11 +23,14 @@ type StatusListener = (task: Task) => Promise<void>;
 
 /**
  * @class TaskStore
- * @description Manages task storage and retrieval
+ * @description Manages task storage and retrieval. The status of a task only
+ * changes through transitionTask, which checks the transition and records it
+ * in the task history.
  */
 export class TaskStore {
-  private tasks: Map<string, Task> = new Map();
+  protected tasks: Map<string, Task> = new Map();
   private statusListeners: Set<StatusListener> = new Set();
+  private transitions: Map<string, Promise<void>> = new Map();
 
   /**
    * @method addStatusListener
@@ -56,9 +68,21 @@ export class TaskStore {
     }
   }
 
+  /**
+   * @protected
+   * @method writeTask
+   * @description Store a task and notify the listeners
+   */
+  protected async writeTask(task: Task): Promise<Task> {
+    this.tasks.set(task.id, task);
+    await this.notifyStatusListeners(task);
+    return task;
+  }
+
   /**
    * @method createTask
-   * @description Create a new task in the store
+   * @description Create a new task in the store, its initial status being the
+   * first entry of its history
    */
   public async createTask(task: Task): Promise<Task> {
     try {
@@ -70,10 +94,9 @@ export class TaskStore {
         throw new Error(`Task with ID ${task.id} already exists`);
       }
 
-      this.tasks.set(task.id, task);
+      const created = await this.writeTask(startHistory(task));
       Logger.info(`Created task ${task.id} in store`);
-      await this.notifyStatusListeners(task);
-      return task;
+      return created;
     } catch (error) {
       Logger.error(
         `Error creating task: ${
@@ -104,7 +127,9 @@ export class TaskStore {
 
   /**
    * @method updateTask
-   * @description Update an existing task
+   * @description Update the fields of an existing task other than its status
+   * and history, which change through transitionTask
+   * @throws {Error} If the task does not exist or its status was changed
    */
   public async updateTask(task: Task): Promise<Task> {
     try {
@@ -112,14 +137,22 @@ export class TaskStore {
         throw new Error("Invalid task: missing task ID");
       }
 
-      if (!this.tasks.has(task.id)) {
+      const current = await this.getTask(task.id);
+      if (!current) {
         throw new Error(`Task ${task.id} not found`);
       }
+      if (
+        JSON.stringify([current.status, current.history]) !==
+        JSON.stringify([task.status, task.history])
+      ) {
+        throw new Error(
+          `The status of task ${task.id} can only change through transitionTask`
+        );
+      }
 
-      this.tasks.set(task.id, task);
+      const updated = await this.writeTask(task);
       Logger.info(`Updated task ${task.id}`);
-      await this.notifyStatusListeners(task);
-      return task;
+      return updated;
     } catch (error) {
       Logger.error(
         `Error updating task: ${
@@ -130,6 +163,52 @@ export class TaskStore {
     }
   }
 
+  /**
+   * @method transitionTask
+   * @description Move a task to a new state, checked against the task state
+   * machine and recorded as one history entry with the next sequence number.
+   * The transitions of a task run one at a time, in call order.
+   * @param {string} taskId - The task
+   * @param {TaskTransition} transition - The new state, message and changes
+   * @returns {Promise<Task | null>} The updated task, or null if the task
+   * already is in that state with that message
+   * @throws {TaskNotFoundError} If the task does not exist
+   * @throws {InvalidTaskTransitionError} If the task cannot move to the state
+   */
+  public transitionTask(
+    taskId: string,
+    transition: TaskTransition
+  ): Promise<Task | null> {
+    const next = (this.transitions.get(taskId) || Promise.resolve()).then(
+      async () => {
+        const task = await this.getTask(taskId);
+        if (!task) {
+          throw new TaskNotFoundError(taskId);
+        }
+        const updated = applyTransition(task, transition);
+        if (!updated) {
+          return null;
+        }
+        await this.writeTask(updated);
+        Logger.info(
+          `Task ${taskId} moved from ${task.status.state} to ${transition.state}`
+        );
+        return updated;
+      }
+    );
+    const settled = next.then(
+      () => undefined,
+      () => undefined
+    );
+    this.transitions.set(taskId, settled);
+    settled.then(() => {
+      if (this.transitions.get(taskId) === settled) {
+        this.transitions.delete(taskId);
+      }
+    });
+    return next;
+  }
+
   /**
    * @method deleteTask
    * @description Delete a task from the store
@@ -170,3 +249,105 @@ export class TaskStore {
     }
   }
 }
+
+/**
+ * @class FileTaskStore
+ * @description Persists tasks to a JSON file so that queued and running tasks
+ * survive restarts. Finished tasks are kept in memory only: the file holds the
+ * unfinished ones, so its size follows the queue rather than the task count.
+ */
+export class FileTaskStore extends TaskStore {
+  private loaded: Promise<void>;
+  private writing: Promise<void> = Promise.resolve();
+  /** IDs of the tasks in the last snapshot written to disk */
+  private persisted: Set<string> = new Set();
+
+  /**
+   * @constructor
+   * @param {string} filePath - Path of the JSON file holding the tasks
+   */
+  constructor(private readonly filePath: string) {
+    super();
+    this.loaded = this.load();
+  }
+
+  /**
+   * @private
+   * @method load
+   * @description Read the tasks stored on disk, if any
+   */
+  private async load(): Promise<void> {
+    try {
+      const content = await fs.readFile(this.filePath, "utf-8");
+      const stored: Task[] = JSON.parse(content);
+      stored.forEach((task) => {
+        this.tasks.set(task.id, task);
+        this.persisted.add(task.id);
+      });
+      Logger.info(`Loaded ${this.tasks.size} tasks from ${this.filePath}`);
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        Logger.error(
+          `Error loading tasks: ${
+            error instanceof Error ? error.message : "Unknown error"
+          }`
+        );
+      }
+    }
+  }
+
+  /**
+   * @private
+   * @method persist
+   * @description Write the unfinished tasks to disk, one write at a time
+   */
+  private async persist(): Promise<void> {
+    const unfinished = Array.from(this.tasks.values()).filter(
+      (task) => !isFinalState(task.status.state)
+    );
+    this.persisted = new Set(unfinished.map((task) => task.id));
+    const snapshot = JSON.stringify(unfinished);
+    this.writing = this.writing
+      .catch(() => undefined)
+      .then(async () => {
+        const tmpPath = `${this.filePath}.tmp`;
+        await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+        await fs.writeFile(tmpPath, snapshot);
+        await fs.rename(tmpPath, this.filePath);
+      });
+    return this.writing;
+  }
+
+  protected async writeTask(task: Task): Promise<Task> {
+    const written = await super.writeTask(task);
+    // A finished task that is not on disk leaves the file unchanged
+    if (!isFinalState(task.status.state) || this.persisted.has(task.id)) {
+      await this.persist();
+    }
+    return written;
+  }
+
+  public async createTask(task: Task): Promise<Task> {
+    await this.loaded;
+    return super.createTask(task);
+  }
+
+  public async getTask(taskId: string): Promise<Task | null> {
+    await this.loaded;
+    return super.getTask(taskId);
+  }
+
+  public async deleteTask(taskId: string): Promise<boolean> {
+    await this.loaded;
+    const deleted = await super.deleteTask(taskId);
+    if (deleted && this.persisted.has(taskId)) {
+      await this.persist();
+    }
+    return deleted;
+  }
+
+  public async listTasks(): Promise<Task[]> {
+    await this.loaded;
+    return super.listTasks();
+  }
+}
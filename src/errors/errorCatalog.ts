@@ -0,0 +1,236 @@
+/**
+ * @file errorCatalog.ts
+ * @description Catalog of the JSON-RPC error codes returned by the agent and the
+ * mapping from internal errors (A2AError, MediaError) to those codes
+ */
+
+import { JSONRPCError } from "../interfaces/a2a";
+import { A2AError, TaskTimeoutError } from "../core/errorHandler";
+import { isRetryableError } from "../core/retryPolicy";
+import { MediaError, MediaErrorCode } from "./mediaError";
+
+/**
+ * @enum {number}
+ * @description JSON-RPC error codes. Codes from -32700 to -32600 are defined by
+ * JSON-RPC 2.0, -32001 to -32005 by the A2A protocol and -32010 onwards by this agent
+ */
+export enum A2AErrorCode {
+  PARSE_ERROR = -32700,
+  INVALID_REQUEST = -32600,
+  METHOD_NOT_FOUND = -32601,
+  INVALID_PARAMS = -32602,
+  INTERNAL_ERROR = -32603,
+  TASK_NOT_FOUND = -32001,
+  TASK_NOT_CANCELABLE = -32002,
+  PUSH_NOTIFICATION_NOT_SUPPORTED = -32003,
+  UNSUPPORTED_OPERATION = -32004,
+  CONTENT_TYPE_NOT_SUPPORTED = -32005,
+  PROVIDER_ERROR = -32010,
+  TASK_TIMEOUT = -32011,
+  TASK_CANCELLED = -32012,
+  UNAUTHORIZED = -32013,
+  IDEMPOTENCY_CONFLICT = -32014,
+  AGENT_RESTARTING = -32015,
+  AGENT_BUSY = -32016,
+  SCHEDULE_NOT_FOUND = -32017,
+  INVALID_TASK_TRANSITION = -32018,
+}
+
+/**
+ * @interface ErrorCatalogEntry
+ * @description How an error is reported to clients
+ */
+interface ErrorCatalogEntry {
+  code: A2AErrorCode;
+  type: string;
+  httpStatus: number;
+}
+
+/**
+ * @interface A2AErrorData
+ * @description Structured payload sent in the data field of every error
+ */
+export interface A2AErrorData {
+  type: string;
+  retryable: boolean;
+  [key: string]: any;
+}
+
+/**
+ * Catalog entries keyed by A2AError code
+ */
+const ERROR_CATALOG: Record<string, ErrorCatalogEntry> = {
+  PARSE_ERROR: {
+    code: A2AErrorCode.PARSE_ERROR,
+    type: "ParseError",
+    httpStatus: 400,
+  },
+  INVALID_REQUEST: {
+    code: A2AErrorCode.INVALID_REQUEST,
+    type: "InvalidRequest",
+    httpStatus: 400,
+  },
+  METHOD_NOT_FOUND: {
+    code: A2AErrorCode.METHOD_NOT_FOUND,
+    type: "MethodNotFound",
+    httpStatus: 404,
+  },
+  INVALID_PARAMS: {
+    code: A2AErrorCode.INVALID_PARAMS,
+    type: "InvalidParams",
+    httpStatus: 400,
+  },
+  INTERNAL_ERROR: {
+    code: A2AErrorCode.INTERNAL_ERROR,
+    type: "InternalError",
+    httpStatus: 500,
+  },
+  TASK_NOT_FOUND: {
+    code: A2AErrorCode.TASK_NOT_FOUND,
+    type: "TaskNotFound",
+    httpStatus: 404,
+  },
+  TASK_NOT_CANCELABLE: {
+    code: A2AErrorCode.TASK_NOT_CANCELABLE,
+    type: "TaskNotCancelable",
+    httpStatus: 409,
+  },
+  PUSH_NOTIFICATION_NOT_SUPPORTED: {
+    code: A2AErrorCode.PUSH_NOTIFICATION_NOT_SUPPORTED,
+    type: "PushNotificationNotSupported",
+    httpStatus: 400,
+  },
+  UNSUPPORTED_OPERATION: {
+    code: A2AErrorCode.UNSUPPORTED_OPERATION,
+    type: "UnsupportedOperation",
+    httpStatus: 400,
+  },
+  CONTENT_TYPE_NOT_SUPPORTED: {
+    code: A2AErrorCode.CONTENT_TYPE_NOT_SUPPORTED,
+    type: "ContentTypeNotSupported",
+    httpStatus: 415,
+  },
+  PROVIDER_ERROR: {
+    code: A2AErrorCode.PROVIDER_ERROR,
+    type: "ProviderError",
+    httpStatus: 502,
+  },
+  TASK_TIMEOUT: {
+    code: A2AErrorCode.TASK_TIMEOUT,
+    type: "TaskTimeout",
+    httpStatus: 504,
+  },
+  TASK_CANCELLED: {
+    code: A2AErrorCode.TASK_CANCELLED,
+    type: "TaskCancelled",
+    httpStatus: 409,
+  },
+  UNAUTHORIZED: {
+    code: A2AErrorCode.UNAUTHORIZED,
+    type: "Unauthorized",
+    httpStatus: 401,
+  },
+  IDEMPOTENCY_CONFLICT: {
+    code: A2AErrorCode.IDEMPOTENCY_CONFLICT,
+    type: "IdempotencyConflict",
+    httpStatus: 409,
+  },
+  AGENT_RESTARTING: {
+    code: A2AErrorCode.AGENT_RESTARTING,
+    type: "AgentRestarting",
+    httpStatus: 503,
+  },
+  AGENT_BUSY: {
+    code: A2AErrorCode.AGENT_BUSY,
+    type: "AgentBusy",
+    httpStatus: 429,
+  },
+  SCHEDULE_NOT_FOUND: {
+    code: A2AErrorCode.SCHEDULE_NOT_FOUND,
+    type: "ScheduleNotFound",
+    httpStatus: 404,
+  },
+  INVALID_TASK_TRANSITION: {
+    code: A2AErrorCode.INVALID_TASK_TRANSITION,
+    type: "InvalidTaskTransition",
+    httpStatus: 409,
+  },
+};
+
+/**
+ * Catalog entry used for each media error code
+ */
+const MEDIA_ERROR_CATALOG: Record<MediaErrorCode, string> = {
+  [MediaErrorCode.INVALID_API_KEY]: "INTERNAL_ERROR",
+  [MediaErrorCode.INVALID_REQUEST]: "INVALID_PARAMS",
+  [MediaErrorCode.API_ERROR]: "PROVIDER_ERROR",
+  [MediaErrorCode.NETWORK_ERROR]: "PROVIDER_ERROR",
+  [MediaErrorCode.TIMEOUT]: "TASK_TIMEOUT",
+  [MediaErrorCode.GENERATION_FAILED]: "PROVIDER_ERROR",
+  [MediaErrorCode.INVALID_RESPONSE]: "PROVIDER_ERROR",
+  [MediaErrorCode.CANCELLED]: "TASK_CANCELLED",
+  [MediaErrorCode.UNKNOWN_ERROR]: "INTERNAL_ERROR",
+};
+
+/**
+ * @function toJsonRpcError
+ * @description Map any error to a JSON-RPC error object from the catalog. The
+ * `retryable` flag of task failures (timeouts and media errors) follows the
+ * retry policy of the task queue, see isRetryableError.
+ * @param {unknown} error - The error to map
+ * @param {boolean} [idempotent] - Whether the failed task's job is safe to run
+ * again, which makes its timeouts retryable
+ * @returns {JSONRPCError} The error code, message and structured data
+ */
+export function toJsonRpcError(
+  error: unknown,
+  idempotent: boolean = false
+): JSONRPCError {
+  if (error instanceof A2AError) {
+    const entry = ERROR_CATALOG[error.code] || ERROR_CATALOG.INTERNAL_ERROR;
+    const data: A2AErrorData = {
+      ...error.data,
+      type: entry.type,
+      retryable:
+        error instanceof TaskTimeoutError
+          ? isRetryableError(error, idempotent)
+          : error.retryable,
+    };
+    return { code: entry.code, message: error.message, data };
+  }
+
+  if (error instanceof MediaError) {
+    const entry = ERROR_CATALOG[MEDIA_ERROR_CATALOG[error.code]];
+    const data: A2AErrorData = {
+      type: entry.type,
+      retryable: isRetryableError(error, idempotent),
+      mediaErrorCode: error.code,
+      providerStatus: error.status,
+      details: error.details,
+    };
+    return { code: entry.code, message: error.message, data };
+  }
+
+  const data: A2AErrorData = {
+    type: ERROR_CATALOG.INTERNAL_ERROR.type,
+    retryable: false,
+  };
+  return {
+    code: A2AErrorCode.INTERNAL_ERROR,
+    message: error instanceof Error ? error.message : "Internal error",
+    data,
+  };
+}
+
+/**
+ * @function getHttpStatus
+ * @description Get the HTTP status used on REST routes for a JSON-RPC error code
+ * @param {number} code - The JSON-RPC error code
+ * @returns {number} The HTTP status, 500 for unknown codes
+ */
+export function getHttpStatus(code: number): number {
+  const entry = Object.values(ERROR_CATALOG).find(
+    (candidate) => candidate.code === code
+  );
+  return entry ? entry.httpStatus : 500;
+}
@@ -10,6 +10,7 @@ export enum MediaErrorCode {
   TIMEOUT = "TIMEOUT",
   GENERATION_FAILED = "GENERATION_FAILED",
   INVALID_RESPONSE = "INVALID_RESPONSE",
+  CANCELLED = "CANCELLED",
   UNKNOWN_ERROR = "UNKNOWN_ERROR",
 }
 
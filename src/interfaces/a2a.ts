@@ -3,6 +3,8 @@
  * @description Type definitions for A2A (Agent-to-Agent) interactions
  */
 
+import { CancellationToken } from "../core/cancellationToken";
+
 /**
  * @enum TaskState
  * @description Possible states of a task as defined by the A2A protocol
@@ -16,6 +18,41 @@ export enum TaskState {
   CANCELLED = "cancelled",
 }
 
+/**
+ * @enum TaskPriority
+ * @description Scheduling priorities of queued tasks, highest first
+ */
+export enum TaskPriority {
+  HIGH = "high",
+  NORMAL = "normal",
+  LOW = "low",
+}
+
+/**
+ * @interface TaskQueuePosition
+ * @description Where a submitted task stands in the queue
+ */
+export interface TaskQueuePosition {
+  /** 1 for the next task to run */
+  position: number;
+  /** Number of tasks waiting in the queue */
+  queueLength: number;
+  /** Estimated seconds until the task completes, from past run times */
+  etaSeconds?: number;
+}
+
+/**
+ * @interface TaskBatch
+ * @description Progress of the child tasks of a batch
+ */
+export interface TaskBatch {
+  total: number;
+  /** Number of child tasks in each state */
+  counts: Record<TaskState, number>;
+  /** Share of child tasks that finished (completed, failed or cancelled), 0-100 */
+  percentComplete: number;
+}
+
 /**
  * @type MessageRole
  * @description Message roles in the conversation
@@ -26,7 +63,13 @@ export type MessageRole = "user" | "agent";
  * @type MessagePartType
  * @description Message part types supported by the protocol
  */
-export type MessagePartType = "text" | "image" | "audio" | "file" | "video";
+export type MessagePartType =
+  | "text"
+  | "image"
+  | "audio"
+  | "file"
+  | "video"
+  | "data";
 
 /**
  * @interface MessagePart
@@ -36,10 +79,15 @@ export interface MessagePart {
   type: MessagePartType;
   text?: string;
   url?: string;
+  /** Inline (base64 `bytes`) or remote (`uri`) file content */
   file?: {
-    bytes: string;
-    name: string;
+    bytes?: string;
+    uri?: string;
+    name?: string;
+    mimeType?: string;
   };
+  /** Structured content of a data part, e.g. skill parameters */
+  data?: Record<string, any>;
 }
 
 /**
@@ -59,6 +107,8 @@ export interface TaskStatus {
   state: TaskState;
   timestamp: string;
   message?: Message;
+  /** Number of the transition that led to this status, from 1 at creation */
+  sequence?: number;
 }
 
 /**
@@ -70,9 +120,14 @@ export interface TaskArtifactPart {
   text?: string;
   url?: string;
   audioUrl?: string;
+  /** Structured content of a data part */
+  data?: Record<string, any>;
+  /** Inline (base64 `bytes`) or remote (`uri`) file content */
   file?: {
-    bytes: string;
-    name: string;
+    bytes?: string;
+    uri?: string;
+    name?: string;
+    mimeType?: string;
   };
 }
 
@@ -95,6 +150,8 @@ export interface TaskHistoryEntry {
   timestamp: string;
   state: TaskState;
   message?: Message;
+  /** Number of the transition, see TaskStatus */
+  sequence?: number;
 }
 
 /**
@@ -124,6 +181,50 @@ export interface Task {
    * @property {string[]} [acceptedOutputModes] - Optional accepted output modes for the task
    */
   acceptedOutputModes?: string[];
+  /**
+   * @property {string} [outputMode] - Output mode negotiated from acceptedOutputModes and the skill
+   */
+  outputMode?: string;
+  /**
+   * @property {TaskPriority} [priority] - Scheduling priority in the queue (default normal)
+   */
+  priority?: TaskPriority;
+  /**
+   * @property {string} [clientId] - Hash of the API key of the caller, used to share the queue fairly
+   */
+  clientId?: string;
+  /**
+   * @property {string} [runAt] - Time before which the task does not start, in UTC
+   */
+  runAt?: string;
+  /**
+   * @property {string} [deadline] - Time by which the task must finish, in UTC, set when it first starts
+   */
+  deadline?: string;
+  /**
+   * @property {string} [scheduleId] - Schedule that created the task, if any
+   */
+  scheduleId?: string;
+  /**
+   * @property {string[]} [children] - IDs of the child tasks, if the task is a batch
+   */
+  children?: string[];
+  /**
+   * @property {string} [parentId] - Batch the task belongs to, if any
+   */
+  parentId?: string;
+  /**
+   * @property {TaskBatch} [batch] - Progress of the child tasks, if the task is a batch
+   */
+  batch?: TaskBatch;
+  /**
+   * @property {Record<string, unknown>} [variables] - Values of the sweep variables and parameters the task was made from, if any
+   */
+  variables?: Record<string, unknown>;
+  /**
+   * @property {TaskQueuePosition} [queue] - Position in the queue while submitted, reported by tasks/get (not stored)
+   */
+  queue?: TaskQueuePosition;
 }
 
 /**
@@ -133,6 +234,10 @@ export interface Task {
 export interface TaskContext {
   task: Task;
   isCancelled: () => boolean;
+  /** Cancellation of this task; abort provider calls on its signal */
+  cancellationToken: CancellationToken;
+  /** Time (epoch milliseconds) at which the task times out */
+  deadline?: number;
 }
 
 /**
@@ -180,6 +285,8 @@ export enum PushNotificationEventType {
   ARTIFACT_CREATED = "artifact_created",
   ERROR = "error",
   COMPLETION = "completion",
+  /** Position of a queued task, sent without a sequence number and not replayed */
+  QUEUE_POSITION = "queue_position",
 }
 
 /**
@@ -187,6 +294,8 @@ export enum PushNotificationEventType {
  * @description Structure of a push notification event
  */
 export interface PushNotificationEvent {
+  /** Sequence number of the event within its task, used for replay */
+  id?: number;
   /** The type of event */
   type: PushNotificationEventType;
   /** The task ID associated with the event */
@@ -225,6 +334,7 @@ export interface InputParameter {
   description: string;
   required: boolean;
   type: string;
+  enum?: string[];
 }
 
 /**
@@ -236,7 +346,7 @@ export interface AgentSkill {
   name: string;
   description?: string;
   tags?: string[];
-  examples?: string[];
+  examples?: (string | Message)[];
   inputModes?: string[];
   outputModes?: string[];
   parameters?: InputParameter[];
@@ -256,5 +366,38 @@ export interface AgentCard {
   capabilities: AgentCapabilities;
   defaultInputModes: string[];
   defaultOutputModes: string[];
+  notificationEvents?: { type: string; description: string }[];
   skills: AgentSkill[];
 }
+
+/**
+ * @interface JSONRPCError
+ * @description Error object returned in a JSON-RPC 2.0 response
+ */
+export interface JSONRPCError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+/**
+ * @interface JSONRPCRequest
+ * @description JSON-RPC 2.0 request envelope used by the A2A protocol
+ */
+export interface JSONRPCRequest {
+  jsonrpc: "2.0";
+  id?: string | number | null;
+  method: string;
+  params?: any;
+}
+
+/**
+ * @interface JSONRPCResponse
+ * @description JSON-RPC 2.0 response envelope used by the A2A protocol
+ */
+export interface JSONRPCResponse {
+  jsonrpc: "2.0";
+  id: string | number | null;
+  result?: any;
+  error?: JSONRPCError;
+}
@@ -41,6 +41,8 @@ export interface WaitForCompletionOptions {
   timeout?: number;
   interval?: number;
   onStatusUpdate?: (status: StatusData) => TaskYieldUpdate | null;
+  /** Stops the polling when aborted, e.g. when the task is cancelled */
+  signal?: AbortSignal;
 }
 
 /** @interface GenerateVideoResponse */
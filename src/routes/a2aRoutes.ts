@@ -15,23 +15,63 @@ const controller = new A2AController({
   falKey: config.FAL_KEY,
   piapiKey: config.PIAPI_KEY,
   maxConcurrent: config.MAX_CONCURRENT_TASKS,
+  skillConcurrency: config.SKILL_CONCURRENCY,
+  providerConcurrency: config.PROVIDER_CONCURRENCY,
+  skillQueueDepth: config.SKILL_QUEUE_DEPTH,
+  providerQueueDepth: config.PROVIDER_QUEUE_DEPTH,
   maxRetries: config.MAX_RETRIES,
   retryDelay: config.RETRY_DELAY,
+  maxRetryDelay: config.MAX_RETRY_DELAY,
+  dataDir: config.DATA_DIR,
+  publicUrl: config.PUBLIC_URL,
+  taskTimeout: config.TASK_TIMEOUT,
+  adminApiKey: config.ADMIN_API_KEY,
 });
 
+// Resume the tasks left queued or running before the last restart
+controller.recoverTasks();
+// Start the recurring schedules
+controller.startScheduler();
+
 // Health check
 router.get("/health", controller.healthCheck);
 
 // Agent information
 router.get("/.well-known/agent.json", controller.getAgentCard);
 
+// A2A JSON-RPC 2.0 endpoint (dispatches on `method`)
+router.post("/", controller.handleJsonRpc);
+router.post("/a2a", controller.handleJsonRpc);
+
 // Task management
 router.get("/tasks", controller.listTasks);
-// A2A JSON-RPC 2.0 endpoints
+// Legacy per-method A2A JSON-RPC 2.0 endpoints
 router.post("/tasks/send", controller.sendTask);
 router.post("/tasks/sendSubscribe", controller.sendTaskSubscribe);
 router.get("/tasks/:taskId", controller.getTaskStatus);
-router.post("/tasks/:taskId/cancel", controller.cancelTask);
+router.post("/tasks/:taskId/cancel", controller.handleCancelTask);
 router.get("/tasks/:taskId/history", controller.getTaskHistory);
 
+// Recurring schedules, each creating a task at the times of its cron expression
+router.post("/schedules", controller.createSchedule);
+router.get("/schedules", controller.listSchedules);
+router.get("/schedules/:scheduleId", controller.getSchedule);
+router.post("/schedules/:scheduleId/pause", controller.pauseSchedule);
+router.post("/schedules/:scheduleId/resume", controller.resumeSchedule);
+router.delete("/schedules/:scheduleId", controller.deleteSchedule);
+
+// Files uploaded inline in task messages
+router.get("/artifacts/:artifactId", controller.getArtifact);
+
+// Dead-lettered tasks (require the x-admin-key header)
+router.use("/admin", controller.requireAdminKey);
+router.get("/admin/dead-letters", controller.listDeadLetters);
+router.get("/admin/dead-letters/:taskId", controller.getDeadLetter);
+router.post(
+  "/admin/dead-letters/:taskId/requeue",
+  controller.handleRequeueDeadLetter
+);
+router.delete("/admin/dead-letters/:taskId", controller.purgeDeadLetter);
+
+export { controller };
 export default router;
@@ -7,7 +7,9 @@ import express from "express";
 import cors from "cors";
 import { Logger } from "./utils/logger";
 import { getEnvConfig } from "./utils/checkEnv";
-import a2aRoutes from "./routes/a2aRoutes";
+import a2aRoutes, { controller } from "./routes/a2aRoutes";
+import { JsonParseError } from "./core/errorHandler";
+import { toJsonRpcError } from "./errors/errorCatalog";
 
 // Initialize environment configuration
 const config = getEnvConfig();
@@ -17,7 +19,8 @@ const app = express();
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Messages may carry inline base64 images, so allow larger bodies
+app.use(express.json({ limit: config.MAX_BODY_SIZE }));
 
 // Error handling middleware
 app.use(
@@ -27,16 +30,55 @@ app.use(
     res: express.Response,
     next: express.NextFunction
   ) => {
+    // Malformed JSON bodies get a JSON-RPC 2.0 parse error
+    if ("type" in err && err.type === "entity.parse.failed") {
+      res.status(400).json({
+        jsonrpc: "2.0",
+        id: null,
+        error: toJsonRpcError(new JsonParseError()),
+      });
+      return;
+    }
     Logger.error("Unhandled error:", err);
     res.status(500).json({ error: "Internal server error" });
   }
 );
 
 // Start server
-app.listen(config.PORT, config.HOST, () => {
+const server = app.listen(config.PORT, config.HOST, () => {
   Logger.info(`Server running at http://${config.HOST}:${config.PORT}`);
   Logger.info(`Environment: ${config.NODE_ENV}`);
   Logger.info(`Log level: ${config.LOG_LEVEL}`);
 });
 
 app.use("/", a2aRoutes);
+
+let shuttingDown = false;
+
+/**
+ * @function shutdown
+ * @description Drain the agent, then close the server and exit. Requests keep
+ * being answered while draining, so that new tasks get a retryable error.
+ * @param {string} signal - The signal that asked for the shutdown
+ */
+async function shutdown(signal: string): Promise<void> {
+  if (shuttingDown) {
+    return;
+  }
+  shuttingDown = true;
+  Logger.info(`Received ${signal}, shutting down`);
+  try {
+    await controller.drain(config.SHUTDOWN_GRACE_PERIOD);
+  } catch (error) {
+    Logger.error(
+      `Error draining the agent: ${
+        error instanceof Error ? error.message : "Unknown error"
+      }`
+    );
+  }
+  server.close(() => process.exit(0));
+  server.closeAllConnections();
+}
+
+process.on("SIGTERM", () => shutdown("SIGTERM"));
+process.on("SIGINT", () => shutdown("SIGINT"));
@@ -10,18 +10,50 @@ import {
   PushNotificationEvent,
   PushNotificationEventType,
 } from "../interfaces/a2a";
+import { EventLog } from "../core/eventLog";
+import {
+  PushNotificationConfigStore,
+  InMemoryPushNotificationConfigStore,
+} from "../core/pushNotificationStore";
 
 /**
  * @class PushNotificationService
  * @description Manages SSE connections and push notifications
  */
 export class PushNotificationService {
-  private connections: Map<string, Set<Response>>;
-  private subscriptions: Map<string, PushNotificationConfig>;
+  /** SSE clients of each task, with the configuration of each connection */
+  private connections: Map<string, Map<Response, PushNotificationConfig>>;
+  private webhooks: Map<string, PushNotificationConfig>;
 
-  constructor() {
+  /**
+   * @constructor
+   * @param {EventLog} eventLog - Log of emitted events used to replay missed events
+   * @param {PushNotificationConfigStore} webhookStore - Persistent storage for webhook configurations
+   */
+  constructor(
+    private eventLog: EventLog = new EventLog(),
+    private webhookStore: PushNotificationConfigStore = new InMemoryPushNotificationConfigStore()
+  ) {
     this.connections = new Map();
-    this.subscriptions = new Map();
+    this.webhooks = new Map();
+    this.restoreWebhooks().catch((error) => {
+      Logger.error(`Error restoring webhook configurations: ${error}`);
+    });
+  }
+
+  /**
+   * @private
+   * @method restoreWebhooks
+   * @description Load the webhook configurations saved before a restart
+   */
+  private async restoreWebhooks(): Promise<void> {
+    const configs = await this.webhookStore.list();
+    configs.forEach((config) => {
+      // Configurations registered while loading take precedence
+      if (!this.webhooks.has(config.taskId)) {
+        this.webhooks.set(config.taskId, config);
+      }
+    });
   }
 
   /**
@@ -30,11 +62,13 @@ export class PushNotificationService {
    * @param {string} taskId - The task ID to subscribe to
    * @param {Response} res - The Express response object for SSE
    * @param {PushNotificationConfig} config - Notification configuration
+   * @param {number} [lastEventId] - If set, replay the logged events newer than this ID
    */
   public subscribeSSE(
     taskId: string,
     res: Response,
-    config: PushNotificationConfig
+    config: PushNotificationConfig,
+    lastEventId?: number
   ): void {
     // If no eventTypes are specified, subscribe to all events
     if (!config.eventTypes || config.eventTypes.length === 0) {
@@ -43,6 +77,7 @@ export class PushNotificationService {
         PushNotificationEventType.ARTIFACT_CREATED,
         PushNotificationEventType.ERROR,
         PushNotificationEventType.COMPLETION,
+        PushNotificationEventType.QUEUE_POSITION,
       ];
     } else {
       // Convert strings to PushNotificationEventType if they come from query
@@ -54,11 +89,10 @@ export class PushNotificationService {
           : type
       );
     }
-    this.subscriptions.set(taskId, config);
     if (!this.connections.has(taskId)) {
-      this.connections.set(taskId, new Set());
+      this.connections.set(taskId, new Map());
     }
-    this.connections.get(taskId)?.add(res);
+    this.connections.get(taskId)?.set(res, config);
     res.writeHead(200, {
       "Content-Type": "text/event-stream",
       "Cache-Control": "no-cache",
@@ -74,11 +108,73 @@ export class PushNotificationService {
     res.on("close", () => {
       this.unsubscribe(taskId, res);
     });
+    if (lastEventId !== undefined) {
+      this.replayEvents(taskId, res, config, lastEventId);
+    }
+  }
+
+  /**
+   * @private
+   * @method replayEvents
+   * @description Send a client the logged events it missed, closing the stream
+   * if the task already reached a final event
+   * @param {string} taskId - The task ID
+   * @param {Response} res - The Express response object for SSE
+   * @param {PushNotificationConfig} config - Notification configuration
+   * @param {number} lastEventId - ID of the last event the client received
+   */
+  private replayEvents(
+    taskId: string,
+    res: Response,
+    config: PushNotificationConfig,
+    lastEventId: number
+  ): void {
+    const missed = this.eventLog
+      .getEventsSince(taskId, lastEventId)
+      .filter((event) => config.eventTypes.includes(event.type));
+    if (missed.length > 0) {
+      Logger.info(`Replaying ${missed.length} events for task ${taskId}`);
+    }
+    missed.forEach((event) => this.sendEventToClient(res, event));
+
+    const isFinished = missed.some(
+      (event) =>
+        event.type === PushNotificationEventType.ERROR ||
+        event.type === PushNotificationEventType.COMPLETION
+    );
+    if (isFinished) {
+      this.unsubscribe(taskId, res);
+      res.end();
+    }
+  }
+
+  /**
+   * @method getEventsSince
+   * @description Get the logged events of a task newer than the given event ID
+   * @param {string} taskId - The task ID
+   * @param {number} lastEventId - ID of the last event the client received
+   * @returns {PushNotificationEvent[]} Missed events, oldest first
+   */
+  public getEventsSince(
+    taskId: string,
+    lastEventId: number
+  ): PushNotificationEvent[] {
+    return this.eventLog.getEventsSince(taskId, lastEventId);
+  }
+
+  /**
+   * @method getLastEventId
+   * @description Get the ID of the most recent event logged for a task
+   * @param {string} taskId - The task ID
+   * @returns {number} The last event ID, or 0 if none was logged
+   */
+  public getLastEventId(taskId: string): number {
+    return this.eventLog.getLastEventId(taskId);
   }
 
   /**
    * @method subscribeWebhook
-   * @description Register a webhook for push notifications for a task
+   * @description Register (or replace) the webhook for push notifications for a task
    * @param {string} taskId - The task ID to subscribe to
    * @param {PushNotificationConfig} config - Notification configuration
    */
@@ -86,7 +182,8 @@ export class PushNotificationService {
     taskId: string,
     config: PushNotificationConfig
   ): Promise<void> {
-    // If no eventTypes are specified, subscribe to all events
+    // If no eventTypes are specified, subscribe to all events but queue
+    // positions, which a webhook must ask for
     if (!config.eventTypes || config.eventTypes.length === 0) {
       config.eventTypes = [
         PushNotificationEventType.STATUS_UPDATE,
@@ -95,10 +192,21 @@ export class PushNotificationService {
         PushNotificationEventType.COMPLETION,
       ];
     }
-    this.subscriptions.set(taskId, config);
+    this.webhooks.set(taskId, config);
+    await this.webhookStore.set(taskId, config);
     Logger.info(`Webhook configured for task ${taskId}: ${config.webhookUrl}`);
   }
 
+  /**
+   * @method getWebhookConfig
+   * @description Get the webhook configuration registered for a task
+   * @param {string} taskId - The task ID
+   * @returns {PushNotificationConfig | undefined} The configuration, if any
+   */
+  public getWebhookConfig(taskId: string): PushNotificationConfig | undefined {
+    return this.webhooks.get(taskId);
+  }
+
   /**
    * @method unsubscribe
    * @description Unsubscribe a client from push notifications
@@ -111,51 +219,97 @@ export class PushNotificationService {
       connections.delete(res);
       if (connections.size === 0) {
         this.connections.delete(taskId);
-        this.subscriptions.delete(taskId);
       }
     }
     Logger.info(`Client unsubscribed from notifications for task ${taskId}`);
   }
 
+  /**
+   * @method closeConnections
+   * @description Send every SSE client a final `restarting` status event, with
+   * the last event ID to resubscribe from, and close its stream
+   */
+  public closeConnections(): void {
+    this.connections.forEach((connections, taskId) => {
+      Array.from(connections.keys()).forEach((res) => {
+        this.sendEventToClient(res, {
+          type: PushNotificationEventType.STATUS_UPDATE,
+          taskId,
+          timestamp: new Date().toISOString(),
+          data: {
+            status: "restarting",
+            message: "Agent restarting, resubscribe to follow the task",
+            lastEventId: this.eventLog.getLastEventId(taskId),
+          },
+        });
+        this.unsubscribe(taskId, res);
+        res.end();
+      });
+    });
+  }
+
   /**
    * @method notify
    * @description Send a notification to all subscribed clients for a task
    * @param {string} taskId - The task ID
+   * @param {PushNotificationEvent} notification - The event to send
+   */
+  public notify(taskId: string, notification: PushNotificationEvent): void {
+    // Record every event, even without subscribers, so it can be replayed
+    const event = this.eventLog.append(notification);
+    if (event.type === PushNotificationEventType.COMPLETION) {
+      this.eventLog.expire(taskId);
+    }
+    this.deliver(taskId, event);
+  }
+
+  /**
+   * @method publish
+   * @description Send an event to the current subscribers of a task without
+   * logging it: it gets no sequence number and is not replayed, e.g. a queue
+   * position that is stale once missed
+   * @param {string} taskId - The task ID
+   * @param {PushNotificationEvent} event - The event to send
+   */
+  public publish(taskId: string, event: PushNotificationEvent): void {
+    this.deliver(taskId, event);
+  }
+
+  /**
+   * @private
+   * @method deliver
+   * @description Send an event to the webhook and SSE clients of a task
+   * subscribed to its type, each connection with its own event types
+   * @param {string} taskId - The task ID
    * @param {PushNotificationEvent} event - The event to send
    */
-  public notify(taskId: string, event: PushNotificationEvent): void {
+  private deliver(taskId: string, event: PushNotificationEvent): void {
     const connections = this.connections.get(taskId);
-    const config = this.subscriptions.get(taskId);
+    const webhook = this.webhooks.get(taskId);
 
-    if (!config) {
-      return;
+    // Send to the webhook if it is subscribed to this event type
+    if (webhook?.webhookUrl && webhook.eventTypes.includes(event.type)) {
+      this.sendWebhookNotification(webhook.webhookUrl, event);
     }
 
-    // Only send if client is subscribed to this event type
-    if (config.eventTypes.includes(event.type)) {
-      // Send to all SSE connections if any
-      if (connections) {
-        connections.forEach((res) => {
-          this.sendEventToClient(res, event);
-        });
+    if (!connections) {
+      return;
+    }
+    const isFinal =
+      event.type === PushNotificationEventType.ERROR ||
+      event.type === PushNotificationEventType.COMPLETION;
+    // Create a copy to avoid modifying the map while iterating
+    Array.from(connections).forEach(([res, config]) => {
+      // Only send to SSE clients subscribed to this event type
+      if (!config.eventTypes.includes(event.type)) {
+        return;
       }
-      // Always send to webhook if configured
-      if (config.webhookUrl) {
-        this.sendWebhookNotification(config.webhookUrl, event);
+      this.sendEventToClient(res, event);
+      // Unsubscribe the client once it got the ERROR or COMPLETION event
+      if (isFinal) {
+        this.unsubscribe(taskId, res);
       }
-      // Unsubscribe all SSE clients if event is ERROR or COMPLETION
-      if (
-        event.type === PushNotificationEventType.ERROR ||
-        event.type === PushNotificationEventType.COMPLETION
-      ) {
-        if (connections) {
-          // Create a copy to avoid modifying the set while iterating
-          Array.from(connections).forEach((res) => {
-            this.unsubscribe(taskId, res);
-          });
-        }
-      }
-    }
+    });
   }
 
   /**
@@ -169,7 +323,8 @@ export class PushNotificationService {
     try {
       const eventData = JSON.stringify(event);
 
-      // Format according to A2A protocol
+      // Format according to A2A protocol, tagging logged events with their ID
+      const idLine = event.id !== undefined ? `id: ${event.id}\n` : "";
       let output: string;
 
       // Map PushNotificationEventType to appropriate event type name
@@ -186,11 +341,14 @@ export class PushNotificationService {
         case PushNotificationEventType.COMPLETION:
           output = `event: completion\ndata: ${eventData}\n\n`;
           break;
+        case PushNotificationEventType.QUEUE_POSITION:
+          output = `event: queue_position\ndata: ${eventData}\n\n`;
+          break;
         default:
           output = `data: ${eventData}\n\n`;
       }
 
-      res.write(output);
+      res.write(idLine + output);
     } catch (error) {
       Logger.error(`Error sending event to client: ${error}`);
       this.unsubscribe(event.taskId, res);
@@ -7,6 +7,7 @@ import { VideoClient as RealVideoClient } from "../clients/videoClient";
 import { VideoClient as DemoVideoClient } from "../clients/videoClientDemo";
 import { Logger } from "../utils/logger";
 import { DEMO_MODE } from "../config/env";
+import { ProviderJobStore } from "../core/providerJobStore";
 
 /**
  * @interface VideoClientConfig
@@ -19,6 +20,8 @@ interface VideoClientConfig {
   baseUrl?: string;
   /** @property {number} [timeout] - Default timeout in milliseconds */
   timeout?: number;
+  /** @property {ProviderJobStore} [jobStore] - Storage of provider job IDs, ignored in demo mode */
+  jobStore?: ProviderJobStore;
 }
 
 /**
@@ -0,0 +1,140 @@
+/**
+ * @file mediaSkills.ts
+ * @description Definitions of the image and video generation skills
+ */
+
+import {
+  SkillDefinition,
+  SkillHandler,
+  SkillRegistry,
+} from "../core/skillRegistry";
+
+/**
+ * @function createImageGenerationSkill
+ * @description Text-to-image (or image-to-image with a reference image) skill
+ * @param {SkillHandler} handler - Handler executing the tasks, e.g. ImageGenerationController
+ * @returns {SkillDefinition} The skill definition
+ */
+export function createImageGenerationSkill(
+  handler: SkillHandler
+): SkillDefinition {
+  return {
+    id: "image-generation",
+    name: "Image Generation",
+    description:
+      "Generates an image from a text prompt, optionally transforming a reference image.",
+    tags: ["image", "generation", "ai"],
+    inputModes: ["text/plain", "application/json"],
+    outputModes: ["image/png", "application/json"],
+    taskType: "text2image",
+    provider: "fal",
+    idempotent: true,
+    maxTimeout: 600000, // 10 minutes; the deadline defaults to TASK_TIMEOUT
+    parameters: [
+      {
+        name: "prompt",
+        description:
+          "Text prompt for image generation. When calling the agent, include this as a Message object: { role: 'user', parts: [{ type: 'text', text: <prompt> }] }",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "seed",
+        description:
+          "Seed of the generation (non-negative integer), to reproduce an image",
+        required: false,
+        type: "number",
+      },
+      {
+        name: "aspectRatio",
+        description:
+          "Aspect ratio of the image: 1:1, 4:3, 3:4, 16:9 (default) or 9:16. Not allowed with a reference image, whose aspect ratio is kept",
+        required: false,
+        type: "string",
+      },
+    ],
+    examples: [
+      {
+        role: "user",
+        parts: [{ type: "text", text: "A cat riding a bicycle" }],
+      },
+    ],
+    handler,
+  };
+}
+
+/**
+ * @function createVideoGenerationSkill
+ * @description Video generation skill from a text prompt and reference images
+ * @param {SkillHandler} handler - Handler executing the tasks, e.g. VideoGenerationController
+ * @returns {SkillDefinition} The skill definition
+ */
+export function createVideoGenerationSkill(
+  handler: SkillHandler
+): SkillDefinition {
+  return {
+    id: "video-generation",
+    name: "Video Generation",
+    description:
+      "Generates a video from a text prompt and one or more reference images",
+    tags: ["video", "generation", "ai"],
+    inputModes: ["text/plain", "application/json"],
+    outputModes: ["video/mp4", "application/json"],
+    taskType: "text2video",
+    provider: "piapi",
+    idempotent: false, // A timed-out job may still be running, and billed
+    timeout: 1200000, // 20 minutes
+    maxTimeout: 1800000, // 30 minutes
+    parameters: [
+      {
+        name: "prompt",
+        description:
+          "Text prompt for video generation. When calling the agent, include this as a Message object: { role: 'user', parts: [{ type: 'text', text: <prompt> }] }",
+        required: true,
+        type: "string",
+      },
+      {
+        name: "imageUrls",
+        description:
+          "List of reference image URLs. Required unless the message has image or file parts",
+        required: false,
+        type: "string[]",
+      },
+      {
+        name: "duration",
+        description: "Video duration in seconds (5 or 10)",
+        required: false,
+        type: "number",
+      },
+      {
+        name: "aspectRatio",
+        description: "Aspect ratio of the video: 16:9 (default), 9:16 or 1:1",
+        required: false,
+        type: "string",
+      },
+    ],
+    examples: [
+      {
+        role: "user",
+        parts: [{ type: "text", text: "A dog surfing a wave" }],
+      },
+    ],
+    handler,
+  };
+}
+
+/**
+ * @function createSkillRegistry
+ * @description Build the registry of the skills exposed by the agent
+ * @param {SkillHandler} imageHandler - Handler of image generation tasks
+ * @param {SkillHandler} videoHandler - Handler of video generation tasks
+ * @returns {SkillRegistry} The registry
+ */
+export function createSkillRegistry(
+  imageHandler: SkillHandler,
+  videoHandler: SkillHandler
+): SkillRegistry {
+  return new SkillRegistry()
+    .register(createImageGenerationSkill(imageHandler))
+    .register(createVideoGenerationSkill(videoHandler));
+}
@@ -0,0 +1,112 @@
+/**
+ * @file batch.ts
+ * @description Aggregation of the child tasks of a batch into the status,
+ * progress and artifacts of its parent task
+ */
+
+import { Task, TaskArtifact, TaskBatch, TaskState } from "../interfaces/a2a";
+
+/**
+ * Most child tasks accepted in a batch
+ */
+export const MAX_BATCH_TASKS = 200;
+
+/**
+ * States in which a task is finished
+ */
+const FINAL_STATES = [
+  TaskState.COMPLETED,
+  TaskState.FAILED,
+  TaskState.CANCELLED,
+];
+
+/**
+ * @interface BatchAggregate
+ * @description What the parent task of a batch shows of its children
+ */
+export interface BatchAggregate {
+  state: TaskState;
+  batch: TaskBatch;
+  /** The artifacts of the completed children, in batch order */
+  artifacts: TaskArtifact[];
+}
+
+/**
+ * @function isFinalState
+ * @description Whether a task in a state is finished
+ */
+export function isFinalState(state: TaskState): boolean {
+  return FINAL_STATES.includes(state);
+}
+
+/**
+ * @function aggregateBatch
+ * @description Summarize the child tasks of a batch. The batch is submitted
+ * until a child starts and working until all are finished; it then completes
+ * if any child completed, else fails if any child failed, else is cancelled.
+ * @param {Array<Task | null>} children - The child tasks, in batch order;
+ * null for a child not stored yet, counted as submitted
+ * @returns {BatchAggregate} The state, progress and artifacts of the batch
+ */
+export function aggregateBatch(children: Array<Task | null>): BatchAggregate {
+  const counts = Object.fromEntries(
+    Object.values(TaskState).map((state) => [state, 0])
+  ) as Record<TaskState, number>;
+  children.forEach((child) => {
+    counts[child?.status.state ?? TaskState.SUBMITTED] += 1;
+  });
+  const total = children.length;
+  const finished = FINAL_STATES.reduce((sum, state) => sum + counts[state], 0);
+
+  let state: TaskState;
+  if (finished < total) {
+    state =
+      counts[TaskState.SUBMITTED] === total
+        ? TaskState.SUBMITTED
+        : TaskState.WORKING;
+  } else if (counts[TaskState.COMPLETED] > 0) {
+    state = TaskState.COMPLETED;
+  } else {
+    state =
+      counts[TaskState.FAILED] > 0 ? TaskState.FAILED : TaskState.CANCELLED;
+  }
+
+  const artifacts = children
+    .filter(
+      (child): child is Task => child?.status.state === TaskState.COMPLETED
+    )
+    .flatMap((child) =>
+      (child.artifacts || []).map((artifact) => ({
+        ...artifact,
+        metadata: { ...artifact.metadata, taskId: child.id },
+      }))
+    )
+    .map((artifact, index) => ({ ...artifact, index }));
+
+  return {
+    state,
+    batch: {
+      total,
+      counts,
+      percentComplete: total > 0 ? Math.floor((finished * 100) / total) : 100,
+    },
+    artifacts,
+  };
+}
+
+/**
+ * @function describeBatch
+ * @description Status text of a batch, e.g. "12 of 20 tasks finished: 11
+ * completed, 1 failed"
+ */
+export function describeBatch(batch: TaskBatch): string {
+  const finished = FINAL_STATES.reduce(
+    (sum, state) => sum + batch.counts[state],
+    0
+  );
+  const details = FINAL_STATES.filter((state) => batch.counts[state] > 0).map(
+    (state) => `${batch.counts[state]} ${state}`
+  );
+  const text = `${finished} of ${batch.total} tasks finished`;
+  return details.length > 0 ? `${text}: ${details.join(", ")}` : text;
+}
@@ -6,6 +6,42 @@
 import { EnvConfig, defaultConfig, requiredEnvVars } from "../config/env";
 import { Logger } from "./logger";
 
+/**
+ * @function parseConcurrencyLimits
+ * @description Parses a list of limits per pool, such as concurrency limits
+ * `text2video:2,text2image:4`
+ * @param {string | undefined} value - The environment variable value
+ * @param {Record<string, number>} defaults - Limits used when the variable is not set
+ * @param {string} [label] - What the limits are, used in error messages
+ * @returns {Record<string, number>} The limits, by pool name
+ * @throws {Error} If an entry is not a name and a positive integer
+ */
+export function parseConcurrencyLimits(
+  value: string | undefined,
+  defaults: Record<string, number>,
+  label: string = "concurrency limit"
+): Record<string, number> {
+  if (value === undefined) {
+    return { ...defaults };
+  }
+  const limits: Record<string, number> = {};
+  value
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter((entry) => entry.length > 0)
+    .forEach((entry) => {
+      const [name, limit] = entry.split(":").map((part) => part.trim());
+      const parsedLimit = Number(limit);
+      if (!name || !Number.isInteger(parsedLimit) || parsedLimit < 1) {
+        throw new Error(
+          `Invalid ${label} "${entry}". Expected <name>:<positive integer>`
+        );
+      }
+      limits[name] = parsedLimit;
+    });
+  return limits;
+}
+
 /**
  * @function validateEnv
  * @description Validates environment variables and returns a complete config
@@ -25,21 +61,46 @@ export function validateEnv(): EnvConfig {
     throw new Error(errorMessage);
   }
 
+  const port = parseInt(process.env.PORT || defaultConfig.PORT!.toString(), 10);
+  const host = process.env.HOST || defaultConfig.HOST!;
+
   // Merge environment variables with defaults
   const config: EnvConfig = {
     ...defaultConfig,
-    PORT: parseInt(process.env.PORT || defaultConfig.PORT!.toString(), 10),
-    HOST: process.env.HOST || defaultConfig.HOST!,
+    PORT: port,
+    HOST: host,
     NODE_ENV: process.env.NODE_ENV || defaultConfig.NODE_ENV!,
     LOG_LEVEL: process.env.LOG_LEVEL || defaultConfig.LOG_LEVEL!,
     FAL_KEY: process.env.FAL_KEY!,
     PIAPI_KEY: process.env.PIAPI_KEY!,
     DEMO_MODE: process.env.DEMO_MODE === "true",
+    DATA_DIR: process.env.DATA_DIR || defaultConfig.DATA_DIR!,
+    PUBLIC_URL: process.env.PUBLIC_URL,
+    MAX_BODY_SIZE: process.env.MAX_BODY_SIZE || defaultConfig.MAX_BODY_SIZE!,
+    ADMIN_API_KEY: process.env.ADMIN_API_KEY || defaultConfig.ADMIN_API_KEY!,
     MAX_CONCURRENT_TASKS: parseInt(
       process.env.MAX_CONCURRENT_TASKS ||
         defaultConfig.MAX_CONCURRENT_TASKS!.toString(),
       10
     ),
+    SKILL_CONCURRENCY: parseConcurrencyLimits(
+      process.env.SKILL_CONCURRENCY,
+      defaultConfig.SKILL_CONCURRENCY!
+    ),
+    PROVIDER_CONCURRENCY: parseConcurrencyLimits(
+      process.env.PROVIDER_CONCURRENCY,
+      defaultConfig.PROVIDER_CONCURRENCY!
+    ),
+    SKILL_QUEUE_DEPTH: parseConcurrencyLimits(
+      process.env.SKILL_QUEUE_DEPTH,
+      defaultConfig.SKILL_QUEUE_DEPTH!,
+      "queue depth"
+    ),
+    PROVIDER_QUEUE_DEPTH: parseConcurrencyLimits(
+      process.env.PROVIDER_QUEUE_DEPTH,
+      defaultConfig.PROVIDER_QUEUE_DEPTH!,
+      "queue depth"
+    ),
     MAX_RETRIES: parseInt(
       process.env.MAX_RETRIES || defaultConfig.MAX_RETRIES!.toString(),
       10
@@ -48,10 +109,19 @@ export function validateEnv(): EnvConfig {
       process.env.RETRY_DELAY || defaultConfig.RETRY_DELAY!.toString(),
       10
     ),
+    MAX_RETRY_DELAY: parseInt(
+      process.env.MAX_RETRY_DELAY || defaultConfig.MAX_RETRY_DELAY!.toString(),
+      10
+    ),
     TASK_TIMEOUT: parseInt(
       process.env.TASK_TIMEOUT || defaultConfig.TASK_TIMEOUT!.toString(),
       10
     ),
+    SHUTDOWN_GRACE_PERIOD: parseInt(
+      process.env.SHUTDOWN_GRACE_PERIOD ||
+        defaultConfig.SHUTDOWN_GRACE_PERIOD!.toString(),
+      10
+    ),
   } as EnvConfig;
 
   Logger.debug("Environment configuration:", config);
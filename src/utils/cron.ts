@@ -0,0 +1,207 @@
+/**
+ * @file cron.ts
+ * @description Parsing of cron expressions (minute, hour, day of month, month
+ * and day of week) and computation of the next time they match, in UTC
+ */
+
+import { InvalidParamsError } from "../core/errorHandler";
+
+/**
+ * @interface CronExpression
+ * @description A parsed cron expression: the values each field matches
+ */
+export interface CronExpression {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  /** Days of the week, from 0 (Sunday) */
+  daysOfWeek: Set<number>;
+  /** Whether the day of month field starts with `*`, see matchesDay */
+  anyDayOfMonth: boolean;
+  /** Whether the day of week field starts with `*`, see matchesDay */
+  anyDayOfWeek: boolean;
+}
+
+/**
+ * @interface CronField
+ * @description Name and range of a field of a cron expression
+ */
+interface CronField {
+  name: string;
+  min: number;
+  max: number;
+}
+
+/**
+ * Fields of a cron expression, in order. Sunday is 0 or 7.
+ */
+const CRON_FIELDS: CronField[] = [
+  { name: "minute", min: 0, max: 59 },
+  { name: "hour", min: 0, max: 23 },
+  { name: "day of month", min: 1, max: 31 },
+  { name: "month", min: 1, max: 12 },
+  { name: "day of week", min: 0, max: 7 },
+];
+
+/**
+ * Shorthands accepted in place of the five fields
+ */
+const CRON_MACROS: Record<string, string> = {
+  "@yearly": "0 0 1 1 *",
+  "@annually": "0 0 1 1 *",
+  "@monthly": "0 0 1 * *",
+  "@weekly": "0 0 * * 0",
+  "@daily": "0 0 * * *",
+  "@midnight": "0 0 * * *",
+  "@hourly": "0 * * * *",
+};
+
+/**
+ * Years searched for the next match before an expression is deemed never to
+ * match (long enough to include a leap year)
+ */
+const MAX_SEARCH_YEARS = 8;
+
+/**
+ * @function invalidCron
+ * @description Build the error reporting an invalid expression
+ */
+function invalidCron(expression: string, reason: string): InvalidParamsError {
+  return new InvalidParamsError(
+    `Invalid cron expression "${expression}": ${reason}`,
+    { parameter: "cron" }
+  );
+}
+
+/**
+ * @function parseField
+ * @description Parse a field made of comma-separated `*`, values and ranges,
+ * each with an optional `/step`
+ * @returns {Set<number>} The values the field matches
+ * @throws {InvalidParamsError} If the field is malformed or out of range
+ */
+function parseField(
+  value: string,
+  field: CronField,
+  expression: string
+): Set<number> {
+  const values = new Set<number>();
+  value.split(",").forEach((item) => {
+    const match = /^(?:(\*)|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(item);
+    if (!match) {
+      throw invalidCron(expression, `invalid ${field.name} "${item}"`);
+    }
+    const [, any, start, end, step] = match;
+    const from = any ? field.min : Number(start);
+    // A single value with a step, e.g. 5/15, runs up to the end of the range
+    const to = any
+      ? field.max
+      : end !== undefined
+      ? Number(end)
+      : step !== undefined
+      ? field.max
+      : from;
+    const increment = step !== undefined ? Number(step) : 1;
+    if (from < field.min || to > field.max || from > to || increment < 1) {
+      throw invalidCron(
+        expression,
+        `${field.name} "${item}" is out of range ${field.min}-${field.max}`
+      );
+    }
+    for (let current = from; current <= to; current += increment) {
+      values.add(current);
+    }
+  });
+  return values;
+}
+
+/**
+ * @function matchesDay
+ * @description Check the day of a date. As in cron, when both the day of
+ * month and the day of week are restricted, a day matching either runs.
+ */
+function matchesDay(cron: CronExpression, date: Date): boolean {
+  const dayOfMonth = cron.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = cron.daysOfWeek.has(date.getUTCDay());
+  return cron.anyDayOfMonth || cron.anyDayOfWeek
+    ? dayOfMonth && dayOfWeek
+    : dayOfMonth || dayOfWeek;
+}
+
+/**
+ * @function getNextRun
+ * @description Find the first minute after a date matching an expression
+ * @param {CronExpression} cron - The parsed expression
+ * @param {Date} after - The date to search from (excluded)
+ * @returns {Date | undefined} The next match, in UTC, if there is one
+ */
+export function getNextRun(
+  cron: CronExpression,
+  after: Date
+): Date | undefined {
+  const date = new Date(after.getTime());
+  date.setUTCSeconds(0, 0);
+  date.setUTCMinutes(date.getUTCMinutes() + 1);
+  const end = new Date(after.getTime());
+  end.setUTCFullYear(end.getUTCFullYear() + MAX_SEARCH_YEARS);
+
+  // Skip whole months, days and hours that cannot match
+  while (date <= end) {
+    if (!cron.months.has(date.getUTCMonth() + 1)) {
+      date.setUTCMonth(date.getUTCMonth() + 1, 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!matchesDay(cron, date)) {
+      date.setUTCDate(date.getUTCDate() + 1);
+      date.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(date.getUTCHours())) {
+      date.setUTCHours(date.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(date.getUTCMinutes())) {
+      date.setUTCMinutes(date.getUTCMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * @function parseCron
+ * @description Parse a five-field cron expression, e.g. `0 9 * * 1-5` for
+ * 9:00 UTC on weekdays, or one of the shorthands `@hourly`, `@daily`,
+ * `@weekly`, `@monthly` and `@yearly`
+ * @param {string} expression - The expression
+ * @returns {CronExpression} The parsed expression
+ * @throws {InvalidParamsError} If the expression is malformed or never matches
+ */
+export function parseCron(expression: string): CronExpression {
+  const fields = (CRON_MACROS[expression.trim().toLowerCase()] ?? expression)
+    .trim()
+    .split(/\s+/);
+  if (fields.length !== CRON_FIELDS.length) {
+    throw invalidCron(
+      expression,
+      "expected 5 fields: minute hour day-of-month month day-of-week"
+    );
+  }
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map(
+    (value, index) => parseField(value, CRON_FIELDS[index], expression)
+  );
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+  const cron: CronExpression = {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2].startsWith("*"),
+    anyDayOfWeek: fields[4].startsWith("*"),
+  };
+  // e.g. 0 0 30 2 *, February 30th
+  if (!getNextRun(cron, new Date(0))) {
+    throw invalidCron(expression, "it never matches");
+  }
+  return cron;
+}
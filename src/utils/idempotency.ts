@@ -0,0 +1,79 @@
+/**
+ * @file idempotency.ts
+ * @description Idempotency keys for task submissions, so that a client can
+ * safely resend a `tasks/send` whose response it did not receive
+ */
+
+import crypto from "crypto";
+import { InvalidParamsError } from "../core/errorHandler";
+
+/**
+ * Longest idempotency key accepted, in characters
+ */
+export const MAX_IDEMPOTENCY_KEY_LENGTH = 255;
+
+/**
+ * How long a submission is remembered by its key, in milliseconds
+ */
+export const IDEMPOTENCY_KEY_TTL = 24 * 60 * 60 * 1000;
+
+/**
+ * @function canonicalize
+ * @description Copy a value with the keys of its objects sorted and undefined
+ * properties dropped, so that equal submissions serialize identically
+ * @param {unknown} value - The value
+ * @returns {unknown} The canonical copy
+ */
+function canonicalize(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(canonicalize);
+  }
+  if (value && typeof value === "object") {
+    return Object.keys(value)
+      .sort()
+      .filter((key) => (value as Record<string, unknown>)[key] !== undefined)
+      .reduce<Record<string, unknown>>((result, key) => {
+        result[key] = canonicalize((value as Record<string, unknown>)[key]);
+        return result;
+      }, {});
+  }
+  return value;
+}
+
+/**
+ * @function getSubmissionFingerprint
+ * @description Hash a task submission, to tell a repeated submission from a
+ * different one sent with the same idempotency key
+ * @param {unknown} submission - The submitted parameters
+ * @returns {string} The SHA-256 hash of the canonical submission
+ */
+export function getSubmissionFingerprint(submission: unknown): string {
+  return crypto
+    .createHash("sha256")
+    .update(JSON.stringify(canonicalize(submission)))
+    .digest("hex");
+}
+
+/**
+ * @function validateIdempotencyKey
+ * @description Check the value of an `Idempotency-Key` header
+ * @param {unknown} key - The header value
+ * @returns {string | undefined} The key, or undefined if none was sent
+ * @throws {InvalidParamsError} If the key is empty or too long
+ */
+export function validateIdempotencyKey(key: unknown): string | undefined {
+  if (key === undefined) {
+    return undefined;
+  }
+  if (
+    typeof key !== "string" ||
+    key.trim().length === 0 ||
+    key.length > MAX_IDEMPOTENCY_KEY_LENGTH
+  ) {
+    throw new InvalidParamsError(
+      `Idempotency key must be a non-empty string of at most ${MAX_IDEMPOTENCY_KEY_LENGTH} characters`,
+      { parameter: "Idempotency-Key" }
+    );
+  }
+  return key;
+}
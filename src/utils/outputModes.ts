@@ -0,0 +1,82 @@
+/**
+ * @file outputModes.ts
+ * @description Negotiation of a task's output mode from the modes a client
+ * accepts and the modes a skill produces, and JSON rendering of artifacts
+ */
+
+import { TaskArtifact, TaskArtifactPart } from "../interfaces/a2a";
+
+/**
+ * MIME type of the media produced for each artifact part type
+ */
+const PART_MIME_TYPES: Record<string, string> = {
+  image: "image/png",
+  video: "video/mp4",
+  text: "text/plain",
+};
+
+/**
+ * @function matchesMode
+ * @description Check an output mode against an accepted mode, which may be a
+ * wildcard such as `image/*` or `*\/*`
+ */
+function matchesMode(mode: string, accepted: string): boolean {
+  if (accepted === "*/*" || accepted === mode) {
+    return true;
+  }
+  return accepted.endsWith("/*") && mode.startsWith(accepted.slice(0, -1));
+}
+
+/**
+ * @function negotiateOutputMode
+ * @description Pick the output mode of a task: the first mode accepted by the
+ * client (in its order of preference) that the skill supports
+ * @param {string[]} supportedModes - Output modes declared by the skill, preferred first
+ * @param {string[]} [acceptedModes] - Output modes accepted by the client
+ * @returns {string | null} The negotiated mode, or null if none is acceptable.
+ * Without accepted modes, the skill's preferred mode is used.
+ */
+export function negotiateOutputMode(
+  supportedModes: string[],
+  acceptedModes?: string[]
+): string | null {
+  if (!acceptedModes || acceptedModes.length === 0) {
+    return supportedModes[0] || null;
+  }
+  for (const accepted of acceptedModes) {
+    const mode = supportedModes.find((supported) =>
+      matchesMode(supported, accepted)
+    );
+    if (mode) {
+      return mode;
+    }
+  }
+  return null;
+}
+
+/**
+ * @function toJsonDescriptor
+ * @description Render an artifact as JSON: each part becomes a `data` part
+ * describing the content (type, MIME type, URL...)
+ * @param {TaskArtifact} artifact - The artifact to render
+ * @returns {TaskArtifact} The artifact made only of data parts
+ */
+export function toJsonDescriptor(artifact: TaskArtifact): TaskArtifact {
+  return {
+    ...artifact,
+    parts: artifact.parts.map((part): TaskArtifactPart => {
+      if (part.type === "data") {
+        return part;
+      }
+      const { type, ...content } = part;
+      return {
+        type: "data",
+        data: {
+          type,
+          mimeType: part.file?.mimeType || PART_MIME_TYPES[type],
+          ...content,
+        },
+      };
+    }),
+  };
+}
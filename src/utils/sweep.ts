@@ -0,0 +1,192 @@
+/**
+ * @file sweep.ts
+ * @description Expansion of a parameter sweep, a prompt template and arrays
+ * of values, into the tasks of a batch, one per combination of values
+ */
+
+import { Message, TaskArtifact } from "../interfaces/a2a";
+import { InvalidParamsError } from "../core/errorHandler";
+import { MAX_BATCH_TASKS } from "./batch";
+
+/**
+ * Placeholders of a prompt template, e.g. `{{subject}}`
+ */
+const PLACEHOLDER = /\{\{\s*([\w-]+)\s*\}\}/g;
+
+/**
+ * @interface SweepSpec
+ * @description What a sweep is made of
+ */
+export interface SweepSpec {
+  /** Prompt template, e.g. `{{subject}} in {{style}}` */
+  template: unknown;
+  /** Values of each placeholder of the template */
+  variables?: unknown;
+  /** Values of each skill parameter to sweep, e.g. `seed` or `aspectRatio` */
+  parameters?: unknown;
+}
+
+/**
+ * @interface SweepTask
+ * @description Params of one task of a sweep
+ */
+export interface SweepTask {
+  /** The rendered prompt, with the swept parameters in a data part */
+  message: Message;
+  /** The values of the variables and parameters the task was made from */
+  variables: Record<string, unknown>;
+}
+
+/**
+ * @function getValues
+ * @description Validate the `variables` or `parameters` of a sweep: an object
+ * holding a non-empty array of values per name
+ * @throws {InvalidParamsError} If they are malformed
+ */
+function getValues(
+  values: unknown,
+  parameter: "variables" | "parameters"
+): Array<[string, unknown[]]> {
+  if (values === undefined || values === null) {
+    return [];
+  }
+  if (typeof values !== "object" || Array.isArray(values)) {
+    throw new InvalidParamsError(
+      `${parameter} must be an object of arrays of values`,
+      { parameter }
+    );
+  }
+  return Object.entries(values).map(([name, list]) => {
+    if (!Array.isArray(list) || list.length === 0) {
+      throw new InvalidParamsError(
+        `${parameter}.${name} must be a non-empty array of values`,
+        { parameter, name }
+      );
+    }
+    return [name, list];
+  });
+}
+
+/**
+ * @function renderTemplate
+ * @description Replace the placeholders of a template with their values
+ * @param {string} template - The template, e.g. `{{subject}} in {{style}}`
+ * @param {Record<string, unknown>} values - The value of each placeholder
+ * @returns {string} The rendered text
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, unknown>
+): string {
+  return template.replace(PLACEHOLDER, (placeholder, name: string) =>
+    name in values ? String(values[name]) : placeholder
+  );
+}
+
+/**
+ * @function expandSweep
+ * @description Expand a sweep into the cartesian product of its values, the
+ * first variable changing slowest. Every placeholder of the template must have
+ * values and every variable must be used, so that no two tasks are the same.
+ * @param {SweepSpec} spec - The template, variables and parameters
+ * @returns {SweepTask[]} The params of each task, in order
+ * @throws {InvalidParamsError} If the sweep is malformed or expands to more
+ * than MAX_BATCH_TASKS tasks
+ */
+export function expandSweep(spec: SweepSpec): SweepTask[] {
+  const { template } = spec;
+  if (typeof template !== "string" || !template.trim()) {
+    throw new InvalidParamsError("template must be a non-empty string", {
+      parameter: "template",
+    });
+  }
+  const variables = getValues(spec.variables, "variables");
+  const parameters = getValues(spec.parameters, "parameters");
+
+  const placeholders = new Set(
+    Array.from(template.matchAll(PLACEHOLDER), ([, name]) => name)
+  );
+  placeholders.forEach((name) => {
+    if (!variables.some(([variable]) => variable === name)) {
+      throw new InvalidParamsError(
+        `Template placeholder "${name}" has no values in variables`,
+        { parameter: "variables", name }
+      );
+    }
+  });
+  variables.forEach(([name, values]) => {
+    if (!placeholders.has(name)) {
+      throw new InvalidParamsError(
+        `Variable "${name}" is not used in the template`,
+        { parameter: "variables", name }
+      );
+    }
+    if (values.some((value) => value === null || typeof value === "object")) {
+      throw new InvalidParamsError(
+        `Values of variable "${name}" must be strings, numbers or booleans`,
+        { parameter: "variables", name }
+      );
+    }
+  });
+  parameters.forEach(([name]) => {
+    if (placeholders.has(name)) {
+      throw new InvalidParamsError(
+        `"${name}" cannot be both a variable and a parameter`,
+        { parameter: "parameters", name }
+      );
+    }
+  });
+
+  const dimensions = [...variables, ...parameters];
+  const total = dimensions.reduce(
+    (size, [, values]) => size * values.length,
+    1
+  );
+  if (total > MAX_BATCH_TASKS) {
+    throw new InvalidParamsError(
+      `The sweep expands to ${total} tasks, more than the ${MAX_BATCH_TASKS} of a batch`,
+      { parameter: "variables", total }
+    );
+  }
+
+  const combinations = dimensions.reduce<Array<Record<string, unknown>>>(
+    (partial, [name, values]) =>
+      partial.flatMap((combination) =>
+        values.map((value) => ({ ...combination, [name]: value }))
+      ),
+    [{}]
+  );
+  return combinations.map((combination) => {
+    const data = Object.fromEntries(
+      parameters.map(([name]) => [name, combination[name]])
+    );
+    return {
+      message: {
+        role: "user",
+        parts: [
+          { type: "text", text: renderTemplate(template, combination) },
+          ...(parameters.length > 0 ? [{ type: "data" as const, data }] : []),
+        ],
+      },
+      variables: combination,
+    };
+  });
+}
+
+/**
+ * @function labelArtifacts
+ * @description Add the variables of the sweep task that produced artifacts to
+ * their metadata
+ * @param {TaskArtifact[]} artifacts - The artifacts of the task
+ * @param {Record<string, unknown>} variables - The variables of the task
+ * @returns {TaskArtifact[]} The labelled artifacts
+ */
+export function labelArtifacts(
+  artifacts: TaskArtifact[],
+  variables: Record<string, unknown>
+): TaskArtifact[] {
+  return artifacts.map((artifact) => ({
+    ...artifact,
+    metadata: { ...artifact.metadata, variables },
+  }));
+}
@@ -0,0 +1,128 @@
+/**
+ * @file taskParameters.ts
+ * @description Resolution of skill parameters (taskType, imageUrls, duration...)
+ * from the data parts of a task message, with task metadata as a fallback, of
+ * the reference images attached to the message, of the task priority and of
+ * its start time
+ */
+
+import { Message, TaskPriority } from "../interfaces/a2a";
+import { InvalidParamsError } from "../core/errorHandler";
+
+/**
+ * @function isSameValue
+ * @description Compare two parameter values structurally
+ */
+function isSameValue(a: any, b: any): boolean {
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * @function getTaskParameters
+ * @description Collect the skill parameters of a task. Parameters come from the
+ * `data` parts of the message; metadata entries are used for parameters no data
+ * part sets, so a data part overrides the metadata. The same parameter given
+ * different values in two data parts is rejected.
+ * @param {Message} [message] - The task message
+ * @param {Record<string, any>} [metadata] - The task metadata
+ * @returns {Record<string, any>} The resolved parameters
+ * @throws {InvalidParamsError} If a data part is malformed or parameters conflict
+ */
+export function getTaskParameters(
+  message?: Message,
+  metadata?: Record<string, any>
+): Record<string, any> {
+  const parameters: Record<string, any> = {};
+
+  (message?.parts || [])
+    .filter((part) => part.type === "data")
+    .forEach((part) => {
+      if (
+        !part.data ||
+        typeof part.data !== "object" ||
+        Array.isArray(part.data)
+      ) {
+        throw new InvalidParamsError("Data parts must contain a JSON object");
+      }
+      Object.entries(part.data).forEach(([key, value]) => {
+        if (key in parameters && !isSameValue(parameters[key], value)) {
+          throw new InvalidParamsError(
+            `Conflicting values for parameter "${key}" in data parts`,
+            { parameter: key }
+          );
+        }
+        parameters[key] = value;
+      });
+    });
+
+  Object.entries(metadata || {}).forEach(([key, value]) => {
+    if (!(key in parameters)) {
+      parameters[key] = value;
+    }
+  });
+
+  return parameters;
+}
+
+/**
+ * @function getReferenceImageUrls
+ * @description Collect the URLs of the reference images attached to a message,
+ * from `image` parts with a URL and image files referenced by URI. Inline
+ * files must have been moved to the artifact store first.
+ * @param {Message} [message] - The task message
+ * @returns {string[]} The image URLs, in message order
+ */
+export function getReferenceImageUrls(message?: Message): string[] {
+  return (message?.parts || [])
+    .map((part) => {
+      if (part.type === "image" && part.url) {
+        return part.url;
+      }
+      const isImageFile =
+        part.type === "image" || !!part.file?.mimeType?.startsWith("image/");
+      return isImageFile ? part.file?.uri : undefined;
+    })
+    .filter((url): url is string => !!url);
+}
+
+/**
+ * @function getTaskPriority
+ * @description Validate the `priority` parameter of a task
+ * @param {unknown} [priority] - The requested priority
+ * @returns {TaskPriority} The priority, normal if none is requested
+ * @throws {InvalidParamsError} If the priority is not one of the known levels
+ */
+export function getTaskPriority(priority?: unknown): TaskPriority {
+  if (priority === undefined || priority === null) {
+    return TaskPriority.NORMAL;
+  }
+  const priorities = Object.values(TaskPriority) as string[];
+  if (typeof priority !== "string" || !priorities.includes(priority)) {
+    throw new InvalidParamsError(
+      `Invalid priority. Must be one of: ${priorities.join(", ")}`,
+      { parameter: "priority" }
+    );
+  }
+  return priority as TaskPriority;
+}
+
+/**
+ * @function getTaskRunAt
+ * @description Validate the `runAt` parameter of a task, the time before
+ * which it must not start
+ * @param {unknown} [runAt] - The requested start time, as an ISO 8601 date
+ * @returns {string | undefined} The start time in UTC, if one is requested
+ * @throws {InvalidParamsError} If the start time is not a valid date
+ */
+export function getTaskRunAt(runAt?: unknown): string | undefined {
+  if (runAt === undefined || runAt === null) {
+    return undefined;
+  }
+  if (typeof runAt !== "string" || Number.isNaN(Date.parse(runAt))) {
+    throw new InvalidParamsError(
+      "Invalid runAt. Must be an ISO 8601 date, e.g. 2026-01-01T09:00:00Z",
+      { parameter: "runAt" }
+    );
+  }
+  return new Date(runAt).toISOString();
+}
@@ -0,0 +1,57 @@
+/**
+ * @file taskTimeout.ts
+ * @description Resolution of a task's deadline from its skill, the agent
+ * default and the `timeout` parameter of the request
+ */
+
+import { InvalidParamsError } from "../core/errorHandler";
+
+/**
+ * Shortest deadline a request may ask for, in milliseconds
+ */
+export const MIN_TASK_TIMEOUT = 1000;
+
+/**
+ * @interface TaskTimeoutLimits
+ * @description Deadline settings of a skill, in milliseconds
+ */
+export interface TaskTimeoutLimits {
+  /** Deadline of the skill's tasks, defaults to the agent's TASK_TIMEOUT */
+  timeout?: number;
+  /** Longest deadline a request may ask for, defaults to `timeout` */
+  maxTimeout?: number;
+}
+
+/**
+ * @function resolveTaskTimeout
+ * @description Get the deadline of a task. A request may set its own `timeout`
+ * between MIN_TASK_TIMEOUT and the skill's maximum.
+ * @param {TaskTimeoutLimits | undefined} limits - Deadline settings of the skill
+ * @param {number} defaultTimeout - The agent's default deadline
+ * @param {unknown} [requested] - The `timeout` parameter of the request, in milliseconds
+ * @returns {number} The deadline, in milliseconds
+ * @throws {InvalidParamsError} If the requested timeout is not a number within limits
+ */
+export function resolveTaskTimeout(
+  limits: TaskTimeoutLimits | undefined,
+  defaultTimeout: number,
+  requested?: unknown
+): number {
+  const timeout = limits?.timeout ?? defaultTimeout;
+  if (requested === undefined || requested === null) {
+    return timeout;
+  }
+  const maxTimeout = Math.max(limits?.maxTimeout ?? timeout, timeout);
+  if (
+    typeof requested !== "number" ||
+    !Number.isFinite(requested) ||
+    requested < MIN_TASK_TIMEOUT ||
+    requested > maxTimeout
+  ) {
+    throw new InvalidParamsError(
+      `Parameter "timeout" must be a number of milliseconds between ${MIN_TASK_TIMEOUT} and ${maxTimeout}`,
+      { parameter: "timeout", minTimeout: MIN_TASK_TIMEOUT, maxTimeout }
+    );
+  }
+  return requested;
+}
@@ -26,9 +26,24 @@ jest.mock("../../src/controllers/a2aController", () => {
       sendTaskSubscribe: jest.fn(),
       getTaskStatus: jest.fn(),
       cancelTask: jest.fn(),
+      handleCancelTask: jest.fn(),
       getTaskHistory: jest.fn(),
       setPushNotification: jest.fn(),
       getPushNotification: jest.fn(),
+      requireAdminKey: jest.fn(),
+      listDeadLetters: jest.fn(),
+      getDeadLetter: jest.fn(),
+      handleRequeueDeadLetter: jest.fn(),
+      purgeDeadLetter: jest.fn(),
+      createSchedule: jest.fn(),
+      listSchedules: jest.fn(),
+      getSchedule: jest.fn(),
+      pauseSchedule: jest.fn(),
+      resumeSchedule: jest.fn(),
+      deleteSchedule: jest.fn(),
+      recoverTasks: jest.fn().mockResolvedValue(0),
+      startScheduler: jest.fn().mockResolvedValue(undefined),
+      drain: jest.fn().mockResolvedValue(undefined),
     })),
   };
 });
@@ -14,6 +14,7 @@ import {
 import { mockTaskRequest, createMockTask } from "../../mocks/taskMocks";
 import { TaskStore } from "../../../src/core/taskStore";
 import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { createSkillRegistry } from "../../../src/skills/mediaSkills";
 import { TaskQueue } from "../../../src/core/taskQueue";
 import { SessionManager } from "../../../src/core/sessionManager";
 import { ImageGenerationController } from "../../../src/controllers/imageController";
@@ -73,8 +74,7 @@ describe("A2AController", () => {
     ) as jest.Mocked<VideoGenerationController>;
     taskProcessor = new TaskProcessor(
       taskStore,
-      imageController,
-      videoController
+      createSkillRegistry(imageController, videoController)
     ) as jest.Mocked<TaskProcessor>;
     taskQueue = new TaskQueue(taskProcessor) as jest.Mocked<TaskQueue>;
     sessionManager = new SessionManager() as jest.Mocked<SessionManager>;
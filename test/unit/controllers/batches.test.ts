@@ -0,0 +1,208 @@
+/**
+ * @file batches.test.ts
+ * @description Tests for batch and sweep submission and the aggregate parent
+ * task
+ */
+
+import { Request, Response } from "express";
+import { A2AController } from "../../../src/controllers/a2aController";
+import { TaskStore } from "../../../src/core/taskStore";
+import { TaskQueue } from "../../../src/core/taskQueue";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { SessionManager } from "../../../src/core/sessionManager";
+import { Task, TaskState } from "../../../src/interfaces/a2a";
+import { AgentBusyError } from "../../../src/core/errorHandler";
+
+jest.mock("../../../src/utils/logger");
+jest.mock("../../../src/core/taskQueue");
+jest.mock("../../../src/core/taskProcessor");
+
+describe("A2AController batches", () => {
+  let controller: A2AController;
+  let taskStore: TaskStore;
+  let taskQueue: jest.Mocked<TaskQueue>;
+
+  /**
+   * @function call
+   * @description Sends a JSON-RPC request body through the controller
+   */
+  const call = async (method: string, params: any) => {
+    const res = {
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      setHeader: jest.fn(),
+      end: jest.fn(),
+      headersSent: false,
+    } as any;
+    await controller.handleJsonRpc(
+      {
+        body: { jsonrpc: "2.0", id: 1, method, params },
+        headers: {},
+      } as Request,
+      res as Response
+    );
+    return res.json.mock.calls[0][0];
+  };
+
+  /**
+   * @function sendBatch
+   * @description Sends a batch of image prompts
+   */
+  const sendBatch = (...prompts: string[]) =>
+    call("tasks/sendBatch", {
+      metadata: { taskType: "text2image" },
+      tasks: prompts.map((text) => ({
+        message: { role: "user", parts: [{ type: "text", text }] },
+      })),
+    });
+
+  /**
+   * @function finish
+   * @description Runs a child task to a final state, as the processor would
+   */
+  const finish = async (taskId: string, state: TaskState) => {
+    await taskStore.transitionTask(taskId, { state: TaskState.WORKING });
+    await taskStore.transitionTask(taskId, {
+      state,
+      changes:
+        state === TaskState.COMPLETED
+          ? {
+              artifacts: [
+                { index: 0, parts: [{ type: "text", text: `${taskId} done` }] },
+              ],
+            }
+          : undefined,
+    });
+    // Let the batch update run
+    await new Promise((resolve) => setImmediate(resolve));
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    taskStore = new TaskStore();
+    const taskProcessor = new TaskProcessor(
+      taskStore,
+      {} as any
+    ) as jest.Mocked<TaskProcessor>;
+    taskQueue = new TaskQueue(taskProcessor) as jest.Mocked<TaskQueue>;
+    taskQueue.enqueueTask.mockResolvedValue(undefined);
+    taskQueue.cancelTask.mockReturnValue(true);
+
+    controller = new A2AController(
+      { falKey: "test-fal-key", piapiKey: "test-piapi-key" },
+      taskStore,
+      new SessionManager(),
+      taskProcessor,
+      taskQueue
+    );
+  });
+
+  it("should create a parent task and enqueue a child per entry", async () => {
+    const { result: parent } = await sendBatch("A cat", "A dog");
+
+    expect(parent.children).toHaveLength(2);
+    expect(parent.batch).toMatchObject({ total: 2, percentComplete: 0 });
+    expect(parent.status.state).toBe(TaskState.SUBMITTED);
+    expect(taskQueue.enqueueTask).toHaveBeenCalledTimes(2);
+    expect(taskQueue.enqueueTask.mock.calls[0][0]).toMatchObject({
+      id: parent.children[0],
+      parentId: parent.id,
+      taskType: "text2image",
+    });
+  });
+
+  it("should reject the batch if one of its tasks is invalid", async () => {
+    const response = await call("tasks/sendBatch", {
+      tasks: [
+        {
+          message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+          metadata: { taskType: "text2image" },
+        },
+        { message: { role: "user", parts: [] } },
+      ],
+    });
+
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.data.index).toBe(1);
+    expect(await taskStore.listTasks()).toEqual([]);
+  });
+
+  it("should reject the batch if the queues cannot take it", async () => {
+    taskQueue.checkCapacity.mockImplementation(() => {
+      throw new AgentBusyError("fal", 2, 30);
+    });
+
+    const response = await sendBatch("A cat", "A dog", "A bird");
+
+    expect(response.error.code).toBe(-32016);
+    expect(await taskStore.listTasks()).toEqual([]);
+  });
+
+  it("should aggregate the progress and artifacts of its children", async () => {
+    const { result: parent } = await sendBatch("A cat", "A dog");
+
+    await finish(parent.children[0], TaskState.COMPLETED);
+    let batch = (await controller.getTask(parent.id)) as Task;
+    expect(batch.status.state).toBe(TaskState.WORKING);
+    expect(batch.batch?.percentComplete).toBe(50);
+    expect(batch.artifacts?.[0].metadata?.taskId).toBe(parent.children[0]);
+
+    await finish(parent.children[1], TaskState.FAILED);
+    batch = (await controller.getTask(parent.id)) as Task;
+    expect(batch.status.state).toBe(TaskState.COMPLETED);
+    expect(batch.status.message?.parts[0].text).toBe(
+      "2 of 2 tasks finished: 1 completed, 1 failed"
+    );
+  });
+
+  it("should cancel the children with the parent", async () => {
+    const { result: parent } = await sendBatch("A cat", "A dog");
+
+    const response = await call("tasks/cancel", { id: parent.id });
+
+    expect(response.result.status.state).toBe(TaskState.CANCELLED);
+    for (const childId of parent.children) {
+      expect((await taskStore.getTask(childId))?.status.state).toBe(
+        TaskState.CANCELLED
+      );
+    }
+    await new Promise((resolve) => setImmediate(resolve));
+    const batch = (await controller.getTask(parent.id)) as Task;
+    expect(batch.status.state).toBe(TaskState.CANCELLED);
+    expect(batch.batch?.counts[TaskState.CANCELLED]).toBe(2);
+  });
+
+  it("should expand a sweep into a child per combination", async () => {
+    const { result: parent } = await call("tasks/sendSweep", {
+      template: "{{subject}} in {{style}}",
+      variables: { subject: ["A cat", "A dog"], style: ["watercolor"] },
+      parameters: { seed: [1, 2] },
+      metadata: { taskType: "text2image" },
+    });
+
+    expect(parent.children).toHaveLength(4);
+    const child = await taskStore.getTask(parent.children[1]);
+    expect(child?.message?.parts).toEqual([
+      { type: "text", text: "A cat in watercolor" },
+      { type: "data", data: { seed: 2 } },
+    ]);
+    expect(child?.variables).toEqual({
+      subject: "A cat",
+      style: "watercolor",
+      seed: 2,
+    });
+  });
+
+  it("should reject a sweep larger than a batch", async () => {
+    const response = await call("tasks/sendSweep", {
+      template: "{{subject}}",
+      variables: { subject: ["A cat", "A dog"] },
+      parameters: { seed: Array.from({ length: 101 }, (_, seed) => seed) },
+      metadata: { taskType: "text2image" },
+    });
+
+    expect(response.error.code).toBe(-32602);
+    expect(response.error.data.total).toBe(202);
+    expect(await taskStore.listTasks()).toEqual([]);
+  });
+});
@@ -0,0 +1,195 @@
+/**
+ * @file deadLetters.test.ts
+ * @description Tests for the admin endpoints of the dead-letter store
+ */
+
+import { Request, Response } from "express";
+import { A2AController } from "../../../src/controllers/a2aController";
+import { TaskStore } from "../../../src/core/taskStore";
+import { TaskQueue } from "../../../src/core/taskQueue";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { SessionManager } from "../../../src/core/sessionManager";
+import {
+  DeadLetterEntry,
+  InMemoryDeadLetterStore,
+} from "../../../src/core/deadLetterStore";
+import { Task, TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+jest.mock("../../../src/core/taskQueue");
+jest.mock("../../../src/core/taskProcessor");
+
+describe("A2AController dead letters", () => {
+  let controller: A2AController;
+  let taskStore: TaskStore;
+  let taskQueue: jest.Mocked<TaskQueue>;
+  let deadLetterStore: InMemoryDeadLetterStore;
+
+  const failedTask: Task = {
+    id: "task-1",
+    taskType: "text2video",
+    status: {
+      state: TaskState.FAILED,
+      timestamp: "2026-01-01T00:00:00.000Z",
+    },
+    message: {
+      role: "user",
+      parts: [
+        { type: "text", text: "A cat surfing a wave" },
+        { type: "data", data: { taskType: "text2video", duration: 5 } },
+      ],
+    },
+    metadata: { imageUrls: ["https://example.com/cat.png"] },
+  };
+  const error = { code: -32010, message: "API_ERROR: Provider down" };
+  const entry: DeadLetterEntry = {
+    taskId: "task-1",
+    task: failedTask,
+    error,
+    attempts: [{ attempt: 1, failedAt: "2026-01-01T00:00:00.000Z", error }],
+    deadLetteredAt: "2026-01-01T00:00:00.000Z",
+  };
+
+  /**
+   * @function createMockResponse
+   * @description Creates a minimal Express response double
+   */
+  const createMockResponse = () =>
+    ({
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      end: jest.fn(),
+    } as any);
+
+  /**
+   * @function callAdmin
+   * @description Runs a request through the admin key check, then the handler
+   */
+  const callAdmin = async (
+    handler: (req: Request, res: Response) => Promise<void>,
+    request: Partial<Request>,
+    adminKey: string = "admin-secret"
+  ) => {
+    const req = {
+      headers: { "x-admin-key": adminKey },
+      params: {},
+      body: {},
+      ...request,
+    } as Request;
+    const res = createMockResponse();
+    let admitted = false;
+    controller.requireAdminKey(req, res, () => {
+      admitted = true;
+    });
+    if (admitted) {
+      await handler(req, res);
+    }
+    return res;
+  };
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    taskStore = new TaskStore();
+    deadLetterStore = new InMemoryDeadLetterStore();
+    const taskProcessor = new TaskProcessor(
+      taskStore,
+      {} as any
+    ) as jest.Mocked<TaskProcessor>;
+    taskQueue = new TaskQueue(taskProcessor) as jest.Mocked<TaskQueue>;
+    taskQueue.enqueueTask.mockResolvedValue(undefined);
+
+    controller = new A2AController(
+      {
+        falKey: "test-fal-key",
+        piapiKey: "test-piapi-key",
+        adminApiKey: "admin-secret",
+      },
+      taskStore,
+      new SessionManager(),
+      taskProcessor,
+      taskQueue,
+      deadLetterStore
+    );
+    await taskStore.createTask({ ...failedTask });
+    await deadLetterStore.set(entry);
+  });
+
+  it("should reject requests without the admin key", async () => {
+    const res = await callAdmin(controller.listDeadLetters, {}, "wrong-secret");
+
+    expect(res.status).toHaveBeenCalledWith(401);
+    expect(res.json.mock.calls[0][0].code).toBe(-32013);
+  });
+
+  it("should list and show dead-lettered tasks", async () => {
+    const list = await callAdmin(controller.listDeadLetters, {});
+    expect(list.json).toHaveBeenCalledWith([
+      {
+        taskId: "task-1",
+        taskType: "text2video",
+        error,
+        attempts: 1,
+        deadLetteredAt: entry.deadLetteredAt,
+      },
+    ]);
+
+    const shown = await callAdmin(controller.getDeadLetter, {
+      params: { taskId: "task-1" },
+    });
+    expect(shown.json).toHaveBeenCalledWith(entry);
+  });
+
+  it("should requeue a task with edited parameters", async () => {
+    const res = await callAdmin(controller.handleRequeueDeadLetter, {
+      params: { taskId: "task-1" },
+      body: {
+        parameters: {
+          prompt: "A dog surfing a wave",
+          duration: 10,
+          imageUrls: ["https://example.com/dog.png"],
+        },
+      },
+    });
+
+    const task: Task = res.json.mock.calls[0][0];
+    expect(task.status.state).toBe(TaskState.SUBMITTED);
+    expect(task.message?.parts).toEqual([
+      { type: "text", text: "A dog surfing a wave" },
+      {
+        type: "data",
+        data: {
+          taskType: "text2video",
+          duration: 10,
+          imageUrls: ["https://example.com/dog.png"],
+        },
+      },
+    ]);
+    expect(task.metadata).toEqual({});
+    expect(taskQueue.enqueueTask).toHaveBeenCalledWith(task);
+    expect(await deadLetterStore.get("task-1")).toBeNull();
+  });
+
+  it("should reject invalid edits and keep the dead letter", async () => {
+    const res = await callAdmin(controller.handleRequeueDeadLetter, {
+      params: { taskId: "task-1" },
+      body: { parameters: { timeout: 10 } },
+    });
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(taskQueue.enqueueTask).not.toHaveBeenCalled();
+    expect(await deadLetterStore.get("task-1")).not.toBeNull();
+  });
+
+  it("should purge a dead-lettered task", async () => {
+    const res = await callAdmin(controller.purgeDeadLetter, {
+      params: { taskId: "task-1" },
+    });
+    expect(res.status).toHaveBeenCalledWith(204);
+    expect(await deadLetterStore.list()).toEqual([]);
+
+    const missing = await callAdmin(controller.purgeDeadLetter, {
+      params: { taskId: "task-1" },
+    });
+    expect(missing.status).toHaveBeenCalledWith(404);
+  });
+});
@@ -0,0 +1,89 @@
+/**
+ * @file imageController.test.ts
+ * @description Tests for the parameters passed to image generations
+ */
+
+import { ImageGenerationController } from "../../../src/controllers/imageController";
+import { ImageClient } from "../../../src/clients/imageClient";
+import { CancellationToken } from "../../../src/core/cancellationToken";
+import {
+  MessagePart,
+  TaskContext,
+  TaskState,
+  TaskYieldUpdate,
+} from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+jest.mock("../../../src/clients/imageClient", () => ({
+  ...jest.requireActual("../../../src/clients/imageClient"),
+  ImageClient: jest.fn(),
+}));
+
+describe("ImageGenerationController", () => {
+  const image = { jobId: "job-1", image: { url: "https://fal.media/cat.png" } };
+  let generateImage: jest.Mock;
+  let generateImageToImage: jest.Mock;
+
+  /**
+   * @function run
+   * @description Runs a text2image task made of the given parts to its end
+   */
+  const run = async (parts: MessagePart[]): Promise<TaskYieldUpdate[]> => {
+    const cancellationToken = new CancellationToken();
+    const context: TaskContext = {
+      task: {
+        id: "task-1",
+        status: { state: TaskState.WORKING, timestamp: "" },
+        message: { role: "user", parts },
+      },
+      isCancelled: () => cancellationToken.isCancelled,
+      cancellationToken,
+    };
+    const updates: TaskYieldUpdate[] = [];
+    for await (const update of new ImageGenerationController("key").handleTask(
+      context
+    )) {
+      updates.push(update);
+    }
+    return updates;
+  };
+
+  beforeEach(() => {
+    generateImage = jest.fn().mockResolvedValue(image);
+    generateImageToImage = jest.fn().mockResolvedValue(image);
+    (ImageClient as jest.Mock).mockImplementation(() => ({
+      generateImage,
+      generateImageToImage,
+      cancelImage: jest.fn(),
+    }));
+  });
+
+  it("should pass the seed to an image-to-image generation", async () => {
+    const updates = await run([
+      { type: "text", text: "A cat in watercolor" },
+      { type: "image", url: "https://example.com/cat.png" },
+      { type: "data", data: { seed: 7 } },
+    ]);
+
+    expect(updates[updates.length - 1].state).toBe(TaskState.COMPLETED);
+    expect(generateImageToImage).toHaveBeenCalledWith(
+      "task-1",
+      "https://example.com/cat.png",
+      "A cat in watercolor",
+      expect.anything(),
+      { seed: 7 }
+    );
+  });
+
+  it("should not set the aspect ratio of an image-to-image generation", async () => {
+    const updates = await run([
+      { type: "text", text: "A cat in watercolor" },
+      { type: "image", url: "https://example.com/cat.png" },
+      { type: "data", data: { aspectRatio: "1:1" } },
+    ]);
+
+    expect(updates).toHaveLength(1);
+    expect(updates[0].state).toBe(TaskState.INPUT_REQUIRED);
+    expect(generateImageToImage).not.toHaveBeenCalled();
+  });
+});
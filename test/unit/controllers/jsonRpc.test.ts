@@ -0,0 +1,1009 @@
+/**
+ * @file jsonRpc.test.ts
+ * @description Tests for the single JSON-RPC 2.0 endpoint of the A2A controller
+ */
+
+import { Request, Response } from "express";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { A2AController } from "../../../src/controllers/a2aController";
+import { TaskStore } from "../../../src/core/taskStore";
+import { TaskQueue } from "../../../src/core/taskQueue";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { SessionManager } from "../../../src/core/sessionManager";
+import { TaskState } from "../../../src/interfaces/a2a";
+import { AgentBusyError } from "../../../src/core/errorHandler";
+import { Logger } from "../../../src/utils/logger";
+
+jest.mock("../../../src/utils/logger");
+jest.mock("../../../src/core/taskQueue");
+jest.mock("../../../src/core/taskProcessor");
+
+describe("A2AController JSON-RPC endpoint", () => {
+  let controller: A2AController;
+  let taskStore: TaskStore;
+  let taskQueue: jest.Mocked<TaskQueue>;
+
+  /**
+   * @function createMockResponse
+   * @description Creates a minimal Express response double
+   */
+  const createMockResponse = () =>
+    ({
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      writeHead: jest.fn(),
+      write: jest.fn(),
+      on: jest.fn(),
+      end: jest.fn(),
+      setHeader: jest.fn(),
+      headersSent: false,
+    } as any);
+
+  /**
+   * @function call
+   * @description Sends a JSON-RPC request body through the controller
+   */
+  const call = async (body: any) => {
+    const res = createMockResponse();
+    await controller.handleJsonRpc({ body } as Request, res as Response);
+    return res;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    taskStore = new TaskStore();
+    const taskProcessor = new TaskProcessor(
+      taskStore,
+      {} as any
+    ) as jest.Mocked<TaskProcessor>;
+    taskQueue = new TaskQueue(taskProcessor) as jest.Mocked<TaskQueue>;
+    taskQueue.enqueueTask.mockResolvedValue(undefined);
+
+    controller = new A2AController(
+      { falKey: "test-fal-key", piapiKey: "test-piapi-key" },
+      taskStore,
+      new SessionManager(),
+      taskProcessor,
+      taskQueue
+    );
+  });
+
+  it("should reject an invalid envelope", async () => {
+    const res = await call({ id: 1, method: "tasks/get" });
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].error.code).toBe(-32600);
+  });
+
+  it("should return method not found for unknown methods", async () => {
+    const res = await call({ jsonrpc: "2.0", id: 1, method: "tasks/unknown" });
+    expect(res.json.mock.calls[0][0]).toMatchObject({
+      jsonrpc: "2.0",
+      id: 1,
+      error: { code: -32601 },
+    });
+  });
+
+  it("should create a task through tasks/send", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: "req-1",
+      method: "tasks/send",
+      params: {
+        id: "task-1",
+        message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+        metadata: { taskType: "text2image" },
+      },
+    });
+
+    const response = res.json.mock.calls[0][0];
+    expect(response.result.id).toBe("task-1");
+    expect(response.result.status.state).toBe(TaskState.SUBMITTED);
+    expect(taskQueue.enqueueTask).toHaveBeenCalled();
+  });
+
+  it("should read the task type from a data part", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: "req-2",
+      method: "tasks/send",
+      params: {
+        id: "task-data",
+        message: {
+          role: "user",
+          parts: [
+            { type: "text", text: "A cat" },
+            { type: "data", data: { taskType: "text2image" } },
+          ],
+        },
+      },
+    });
+
+    expect(res.json.mock.calls[0][0].result.taskType).toBe("text2image");
+  });
+
+  it("should reject conflicting data parts", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: "req-3",
+      method: "tasks/send",
+      params: {
+        id: "task-conflict",
+        message: {
+          role: "user",
+          parts: [
+            { type: "text", text: "A cat" },
+            { type: "data", data: { taskType: "text2image" } },
+            { type: "data", data: { taskType: "text2video" } },
+          ],
+        },
+      },
+    });
+
+    expect(res.json.mock.calls[0][0].error).toMatchObject({
+      code: -32602,
+      data: { parameter: "taskType" },
+    });
+    expect(await taskStore.getTask("task-conflict")).toBeNull();
+  });
+
+  describe("output modes", () => {
+    /**
+     * @function sendWithModes
+     * @description Sends a text2video task accepting the given output modes
+     */
+    const sendWithModes = (id: string, acceptedOutputModes: string[]) =>
+      call({
+        jsonrpc: "2.0",
+        id,
+        method: "tasks/send",
+        params: {
+          id,
+          message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+          metadata: { taskType: "text2video" },
+          acceptedOutputModes,
+        },
+      });
+
+    it("should reject tasks whose skill produces no accepted mode", async () => {
+      const res = await sendWithModes("task-png", ["image/png"]);
+
+      expect(res.json.mock.calls[0][0].error).toMatchObject({
+        code: -32005,
+        data: {
+          skill: "video-generation",
+          supportedModes: ["video/mp4", "application/json"],
+        },
+      });
+      expect(await taskStore.getTask("task-png")).toBeNull();
+      expect(taskQueue.enqueueTask).not.toHaveBeenCalled();
+    });
+
+    it("should record the negotiated output mode", async () => {
+      const res = await sendWithModes("task-json", ["application/json"]);
+
+      expect(res.json.mock.calls[0][0].result.outputMode).toBe(
+        "application/json"
+      );
+    });
+  });
+
+  it("should ignore task fields set by the agent in tasks/send", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: "req-injected",
+      method: "tasks/send",
+      params: {
+        id: "task-injected",
+        message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+        metadata: { taskType: "text2image" },
+        acceptedOutputModes: ["application/json"],
+        status: { state: TaskState.COMPLETED, timestamp: "2026-01-01" },
+        history: [],
+        outputMode: "image/png",
+        taskType: "text2video",
+        children: [],
+        parentId: "other",
+      },
+    });
+
+    const task = await taskStore.getTask("task-injected");
+    expect(res.json.mock.calls[0][0].result.id).toBe("task-injected");
+    expect(task).toMatchObject({
+      status: { state: TaskState.SUBMITTED, sequence: 1 },
+      outputMode: "application/json",
+      taskType: "text2image",
+    });
+    expect(task?.history).toHaveLength(1);
+    expect(task?.children).toBeUndefined();
+    expect(task?.parentId).toBeUndefined();
+  });
+
+  it("should move inline files to the artifact store", async () => {
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), "a2a-"));
+    controller = new A2AController(
+      {
+        falKey: "test-fal-key",
+        piapiKey: "test-piapi-key",
+        dataDir,
+        publicUrl: "http://agent.example.com",
+      },
+      taskStore,
+      new SessionManager(),
+      {} as any,
+      taskQueue
+    );
+
+    /**
+     * @function sendFile
+     * @description Sends a text2video task with an inline reference frame
+     */
+    const sendFile = (id: string) =>
+      call({
+        jsonrpc: "2.0",
+        id,
+        method: "tasks/send",
+        params: {
+          id,
+          message: {
+            role: "user",
+            parts: [
+              { type: "text", text: "A cat surfing" },
+              {
+                type: "file",
+                file: {
+                  name: "frame.png",
+                  mimeType: "image/png",
+                  bytes: Buffer.from("frame").toString("base64"),
+                },
+              },
+            ],
+          },
+          metadata: { taskType: "text2video" },
+        },
+      });
+
+    try {
+      // A rejected task leaves no file behind
+      taskQueue.checkCapacity.mockImplementationOnce(() => {
+        throw new AgentBusyError("piapi", 50, 30);
+      });
+      const rejected = await sendFile("task-busy");
+      expect(rejected.json.mock.calls[0][0].error.code).toBe(-32016);
+      expect(fs.existsSync(path.join(dataDir, "artifacts"))).toBe(false);
+
+      const res = await sendFile("task-file");
+
+      const file = res.json.mock.calls[0][0].result.message.parts[1].file;
+      expect(file.bytes).toBeUndefined();
+      expect(file.uri).toMatch(
+        /^http:\/\/agent\.example\.com\/artifacts\/[a-f0-9]{64}\.png$/
+      );
+    } finally {
+      fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+  });
+
+  it("should reject inline files when no public URL is set", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 1,
+      method: "tasks/send",
+      params: {
+        message: {
+          role: "user",
+          parts: [
+            { type: "text", text: "A cat surfing" },
+            {
+              type: "file",
+              file: {
+                mimeType: "image/png",
+                bytes: Buffer.from("frame").toString("base64"),
+              },
+            },
+          ],
+        },
+        metadata: { taskType: "text2video" },
+      },
+    });
+
+    const { error } = res.json.mock.calls[0][0];
+    expect(error.code).toBe(-32602);
+    expect(error.data.parameter).toBe("file.bytes");
+    expect(taskQueue.enqueueTask).not.toHaveBeenCalled();
+  });
+
+  it("should return a task through tasks/get", async () => {
+    await taskStore.createTask({
+      id: "task-2",
+      status: { state: TaskState.WORKING, timestamp: new Date().toISOString() },
+    });
+
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tasks/get",
+      params: { id: "task-2" },
+    });
+
+    expect(res.json.mock.calls[0][0].result.id).toBe("task-2");
+  });
+
+  it("should describe the queue position of a submitted task", async () => {
+    await taskStore.createTask({
+      id: "task-queued",
+      status: {
+        state: TaskState.SUBMITTED,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    taskQueue.getQueuePosition.mockReturnValue({
+      position: 2,
+      queueLength: 4,
+      etaSeconds: 150,
+    });
+
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 2,
+      method: "tasks/get",
+      params: { id: "task-queued" },
+    });
+
+    const task = res.json.mock.calls[0][0].result;
+    expect(task.queue).toEqual({
+      position: 2,
+      queueLength: 4,
+      etaSeconds: 150,
+    });
+    expect(task.status.message.parts[0].text).toBe(
+      "Queued at position 2 of 4, estimated completion in about 3 min"
+    );
+    expect((await taskStore.getTask("task-queued"))?.queue).toBeUndefined();
+  });
+
+  it("should stream the queue position when it changes", async () => {
+    await taskStore.createTask({
+      id: "task-queued",
+      status: {
+        state: TaskState.SUBMITTED,
+        timestamp: new Date().toISOString(),
+      },
+    });
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tasks/resubscribe",
+      params: { id: "task-queued" },
+    });
+    const queueChanged = taskQueue.addQueueListener.mock.calls[0][0];
+    taskQueue.getQueuePositions.mockReturnValue(
+      new Map([["task-queued", { position: 3, queueLength: 3 }]])
+    );
+
+    jest.useFakeTimers();
+    try {
+      // Changes in a burst are reported once
+      queueChanged();
+      queueChanged();
+      jest.advanceTimersByTime(1000);
+      // An unchanged position is not sent again
+      queueChanged();
+      jest.advanceTimersByTime(1000);
+    } finally {
+      jest.useRealTimers();
+    }
+
+    expect(taskQueue.getQueuePositions).toHaveBeenCalledTimes(2);
+    const events = res.write.mock.calls
+      .map(([chunk]: [string]) => chunk)
+      .filter((chunk: string) => chunk.includes("Queued at position 3 of 3"));
+    expect(events).toHaveLength(1);
+    // Not a transition: no sequence number, no history entry
+    expect(events[0]).toMatch(/^event: queue_position\n/);
+    expect(events[0]).toContain('"queue":{"position":3,"queueLength":3}');
+    expect((await taskStore.getTask("task-queued"))?.history).toHaveLength(1);
+  });
+
+  it("should return task not found for unknown task IDs", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 3,
+      method: "tasks/get",
+      params: { id: "missing" },
+    });
+
+    expect(res.json.mock.calls[0][0].error).toEqual({
+      code: -32001,
+      message: "Task missing not found",
+      data: { type: "TaskNotFound", retryable: false, taskId: "missing" },
+    });
+  });
+
+  it("should not expose the message of an internal error", async () => {
+    jest
+      .spyOn(taskStore, "getTask")
+      .mockRejectedValueOnce(new Error("ENOENT: /var/data/tasks.json"));
+
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "tasks/get",
+      params: { id: "task-1" },
+    });
+
+    expect(res.json.mock.calls[0][0].error).toEqual({
+      code: -32603,
+      message: "Internal error",
+      data: { type: "InternalError", retryable: false },
+    });
+    expect(Logger.error).toHaveBeenCalledWith(
+      expect.stringContaining("ENOENT: /var/data/tasks.json")
+    );
+  });
+
+  it("should return invalid params when the task ID is missing", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "tasks/cancel",
+      params: {},
+    });
+
+    expect(res.json.mock.calls[0][0].error).toMatchObject({
+      code: -32602,
+      data: { type: "InvalidParams" },
+    });
+  });
+
+  it("should use the error status on REST routes", async () => {
+    const res = createMockResponse();
+    await controller.sendTask(
+      {
+        body: {
+          jsonrpc: "2.0",
+          id: 5,
+          method: "tasks/send",
+          params: { id: "task-x", message: { role: "user", parts: [] } },
+        },
+      } as Request,
+      res as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(400);
+    expect(res.json.mock.calls[0][0].error.code).toBe(-32602);
+  });
+
+  it("should answer a full queue with 429 and Retry-After", async () => {
+    taskQueue.checkCapacity.mockImplementation(() => {
+      throw new AgentBusyError("piapi", 50, 30);
+    });
+    const res = createMockResponse();
+    await controller.sendTask(
+      {
+        body: {
+          jsonrpc: "2.0",
+          id: 6,
+          method: "tasks/send",
+          params: {
+            id: "task-busy",
+            message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+            metadata: { taskType: "text2video" },
+          },
+        },
+      } as Request,
+      res as Response
+    );
+
+    expect(res.status).toHaveBeenCalledWith(429);
+    expect(res.setHeader).toHaveBeenCalledWith("Retry-After", "30");
+    expect(res.json.mock.calls[0][0].error).toMatchObject({
+      code: -32016,
+      data: { retryable: true, pool: "piapi", retryAfter: 30 },
+    });
+    expect(await taskStore.getTask("task-busy")).toBeNull();
+  });
+
+  it("should reject a timeout beyond the skill limit", async () => {
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 6,
+      method: "tasks/send",
+      params: {
+        id: "task-timeout",
+        message: {
+          role: "user",
+          parts: [
+            { type: "text", text: "A cat surfing a giant wave" },
+            {
+              type: "data",
+              data: { taskType: "text2image", timeout: 3600000 },
+            },
+          ],
+        },
+      },
+    });
+
+    expect(res.json.mock.calls[0][0].error).toMatchObject({
+      code: -32602,
+      data: { parameter: "timeout", maxTimeout: 600000 },
+    });
+    expect(await taskStore.getTask("task-timeout")).toBeNull();
+  });
+
+  it("should queue a task with its priority and caller", async () => {
+    const res = createMockResponse();
+    await controller.handleJsonRpc(
+      {
+        headers: { authorization: "Bearer secret-key" },
+        body: {
+          jsonrpc: "2.0",
+          id: 7,
+          method: "tasks/send",
+          params: {
+            id: "task-priority",
+            message: {
+              role: "user",
+              parts: [
+                { type: "text", text: "A cat surfing a giant wave" },
+                {
+                  type: "data",
+                  data: { taskType: "text2image", priority: "high" },
+                },
+              ],
+            },
+          },
+        },
+      } as unknown as Request,
+      res as Response
+    );
+
+    const task = res.json.mock.calls[0][0].result;
+    expect(task.priority).toBe("high");
+    expect(task.clientId).toMatch(/^[a-f0-9]{16}$/);
+    expect(task.clientId).not.toContain("secret");
+  });
+
+  it("should set and get a push notification config", async () => {
+    await taskStore.createTask({
+      id: "task-3",
+      status: { state: TaskState.WORKING, timestamp: new Date().toISOString() },
+    });
+
+    await call({
+      jsonrpc: "2.0",
+      id: 4,
+      method: "tasks/pushNotification/set",
+      params: {
+        id: "task-3",
+        pushNotificationConfig: { url: "http://example.com/hook" },
+      },
+    });
+    const res = await call({
+      jsonrpc: "2.0",
+      id: 5,
+      method: "tasks/pushNotification/get",
+      params: { id: "task-3" },
+    });
+
+    expect(res.json.mock.calls[0][0].result.pushNotificationConfig.url).toBe(
+      "http://example.com/hook"
+    );
+  });
+
+  describe("idempotent submissions", () => {
+    /**
+     * @function send
+     * @description Sends a text2image `tasks/send` with optional headers
+     */
+    const send = async (
+      params: Record<string, any>,
+      headers: Record<string, string> = {}
+    ) => {
+      const res = createMockResponse();
+      await controller.handleJsonRpc(
+        {
+          headers,
+          body: {
+            jsonrpc: "2.0",
+            id: "req",
+            method: "tasks/send",
+            params: {
+              message: {
+                role: "user",
+                parts: [{ type: "text", text: "A cat" }],
+              },
+              metadata: { taskType: "text2image" },
+              ...params,
+            },
+          },
+        } as unknown as Request,
+        res as Response
+      );
+      return res.json.mock.calls[0][0];
+    };
+
+    it("should return the existing task when a task ID is resent", async () => {
+      const first = await send({ id: "task-idem" });
+      const repeat = await send({ id: "task-idem" });
+
+      expect(repeat.result.id).toBe("task-idem");
+      expect(repeat.result.status).toEqual(first.result.status);
+      expect(taskQueue.enqueueTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject a task ID resent with different parameters", async () => {
+      await send({ id: "task-idem" });
+      const conflict = await send({
+        id: "task-idem",
+        metadata: { taskType: "text2image", seed: 42 },
+      });
+
+      expect(conflict.error).toMatchObject({
+        code: -32014,
+        data: { idempotencyKey: "task-idem", taskId: "task-idem" },
+      });
+      expect(taskQueue.enqueueTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("should reject the ID of a task it did not create", async () => {
+      await taskStore.createTask({
+        id: "task-existing",
+        status: {
+          state: TaskState.COMPLETED,
+          timestamp: new Date().toISOString(),
+        },
+      });
+
+      const conflict = await send({ id: "task-existing" });
+      expect(conflict.error.code).toBe(-32014);
+    });
+
+    it("should deduplicate submissions by Idempotency-Key per caller", async () => {
+      const headers = {
+        authorization: "Bearer key-1",
+        "idempotency-key": "order-1",
+      };
+      const [first, repeat] = await Promise.all([
+        send({}, headers),
+        send({}, headers),
+      ]);
+      const otherCaller = await send(
+        {},
+        { ...headers, authorization: "Bearer key-2" }
+      );
+
+      expect(repeat.result.id).toBe(first.result.id);
+      expect(otherCaller.result.id).not.toBe(first.result.id);
+      expect(taskQueue.enqueueTask).toHaveBeenCalledTimes(2);
+    });
+
+    it("should reject an Idempotency-Key reused for another prompt", async () => {
+      await send({}, { "idempotency-key": "order-2" });
+      const conflict = await send(
+        {
+          message: { role: "user", parts: [{ type: "text", text: "A dog" }] },
+        },
+        { "idempotency-key": "order-2" }
+      );
+
+      expect(conflict.error.code).toBe(-32014);
+    });
+  });
+
+  describe("drain", () => {
+    it("should reject new tasks with a retryable error", async () => {
+      taskQueue.drain.mockResolvedValue([]);
+      await controller.drain(1000);
+
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tasks/send",
+        params: {
+          message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+          metadata: { taskType: "text2image" },
+        },
+      });
+
+      expect(res.json.mock.calls[0][0].error).toMatchObject({
+        code: -32015,
+        data: { retryable: true },
+      });
+      expect(taskQueue.drain).toHaveBeenCalledWith(1000);
+      expect(taskQueue.enqueueTask).not.toHaveBeenCalled();
+    });
+
+    it("should report the health check as draining", async () => {
+      taskQueue.drain.mockResolvedValue([]);
+      await controller.drain(1000);
+
+      const res = createMockResponse();
+      await controller.healthCheck({} as Request, res as Response);
+      expect(res.status).toHaveBeenCalledWith(503);
+    });
+  });
+
+  describe("batch requests", () => {
+    beforeEach(async () => {
+      for (const id of ["task-a", "task-b"]) {
+        await taskStore.createTask({
+          id,
+          status: {
+            state: TaskState.WORKING,
+            timestamp: new Date().toISOString(),
+          },
+        });
+      }
+    });
+
+    it("should return an array of responses", async () => {
+      const res = await call([
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tasks/get",
+          params: { id: "task-a" },
+        },
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tasks/get",
+          params: { id: "task-b" },
+        },
+        { jsonrpc: "2.0", id: 3, method: "tasks/get", params: { id: "nope" } },
+      ]);
+
+      const responses = res.json.mock.calls[0][0];
+      expect(responses).toHaveLength(3);
+      expect(responses[0].result.id).toBe("task-a");
+      expect(responses[1].result.id).toBe("task-b");
+      expect(responses[2].error.code).toBe(-32001);
+    });
+
+    it("should not respond to notifications", async () => {
+      const res = await call([
+        { jsonrpc: "2.0", method: "tasks/get", params: { id: "task-a" } },
+        {
+          jsonrpc: "2.0",
+          id: 1,
+          method: "tasks/get",
+          params: { id: "task-b" },
+        },
+      ]);
+
+      const responses = res.json.mock.calls[0][0];
+      expect(responses).toHaveLength(1);
+      expect(responses[0].id).toBe(1);
+    });
+
+    it("should respond with no content to a batch of notifications", async () => {
+      const res = await call([
+        { jsonrpc: "2.0", method: "tasks/get", params: { id: "task-a" } },
+      ]);
+
+      expect(res.status).toHaveBeenCalledWith(204);
+      expect(res.json).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid entries and streaming methods", async () => {
+      const res = await call([
+        { id: 1, method: "tasks/get" },
+        {
+          jsonrpc: "2.0",
+          id: 2,
+          method: "tasks/resubscribe",
+          params: { id: "task-a" },
+        },
+      ]);
+
+      const responses = res.json.mock.calls[0][0];
+      expect(responses.map((r: any) => r.error.code)).toEqual([-32600, -32600]);
+      expect(res.writeHead).not.toHaveBeenCalled();
+    });
+
+    it("should reject a batch with an idempotency key", async () => {
+      const res = createMockResponse();
+      await controller.handleJsonRpc(
+        {
+          body: [1, 2].map((id) => ({
+            jsonrpc: "2.0",
+            id,
+            method: "tasks/send",
+            params: {
+              message: {
+                role: "user",
+                parts: [{ type: "text", text: `Cat ${id}` }],
+              },
+              metadata: { taskType: "text2image" },
+            },
+          })),
+          headers: { "idempotency-key": "key-1" },
+        } as unknown as Request,
+        res as Response
+      );
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json.mock.calls[0][0].error.code).toBe(-32600);
+      expect(taskQueue.enqueueTask).not.toHaveBeenCalled();
+    });
+
+    it("should reject an empty batch", async () => {
+      const res = await call([]);
+
+      expect(res.status).toHaveBeenCalledWith(400);
+      expect(res.json.mock.calls[0][0].error.code).toBe(-32600);
+    });
+  });
+
+  describe("multi-turn tasks", () => {
+    beforeEach(async () => {
+      await taskStore.createTask({
+        id: "task-input",
+        taskType: "text2video",
+        metadata: { taskType: "text2video" },
+        message: { role: "user", parts: [{ type: "text", text: "Cat" }] },
+        status: {
+          state: TaskState.INPUT_REQUIRED,
+          timestamp: new Date().toISOString(),
+        },
+      });
+    });
+
+    it("should resume a task waiting for input", async () => {
+      const followUp = {
+        role: "user",
+        parts: [{ type: "text", text: "A cat surfing a giant wave" }],
+      };
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tasks/send",
+        params: {
+          id: "task-input",
+          message: followUp,
+          metadata: { imageUrls: ["http://example.com/cat.png"] },
+        },
+      });
+
+      const task = res.json.mock.calls[0][0].result;
+      expect(task.status.state).toBe(TaskState.SUBMITTED);
+      expect(task.message.parts[0].text).toBe("A cat surfing a giant wave");
+      expect(task.metadata).toEqual({
+        taskType: "text2video",
+        imageUrls: ["http://example.com/cat.png"],
+      });
+      expect(task.history).toHaveLength(2);
+      expect(task.history[1]).toMatchObject({
+        state: TaskState.SUBMITTED,
+        message: followUp,
+        sequence: 2,
+      });
+      expect(taskQueue.enqueueTask).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "task-input" })
+      );
+    });
+
+    it("should not resume a task when its queue is full", async () => {
+      taskQueue.checkCapacity.mockImplementationOnce(() => {
+        throw new AgentBusyError("piapi", 50, 30);
+      });
+
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 1,
+        method: "tasks/send",
+        params: {
+          id: "task-input",
+          message: { role: "user", parts: [{ type: "text", text: "Cats" }] },
+        },
+      });
+
+      expect(res.json.mock.calls[0][0].error.code).toBe(-32016);
+      expect(taskQueue.checkCapacity).toHaveBeenCalledWith(
+        expect.objectContaining({ id: "task-input", taskType: "text2video" })
+      );
+      expect(taskQueue.enqueueTask).not.toHaveBeenCalled();
+      expect((await taskStore.getTask("task-input"))?.status.state).toBe(
+        TaskState.INPUT_REQUIRED
+      );
+    });
+
+    it("should let a follow-up data part correct a metadata parameter", async () => {
+      await taskStore.updateTask({
+        ...((await taskStore.getTask("task-input")) as any),
+        metadata: { taskType: "text2video", seed: -1 },
+      });
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 6,
+        method: "tasks/send",
+        params: {
+          id: "task-input",
+          message: {
+            role: "user",
+            parts: [{ type: "data", data: { seed: 5 } }],
+          },
+        },
+      });
+
+      const task = res.json.mock.calls[0][0].result;
+      expect(task.status.state).toBe(TaskState.SUBMITTED);
+      expect(task.message.parts).toContainEqual({
+        type: "data",
+        data: { seed: 5 },
+      });
+    });
+
+    it("should only resume a task waiting for input", async () => {
+      const task = await taskStore.transitionTask("task-input", {
+        state: TaskState.CANCELLED,
+      });
+
+      await expect(
+        controller.resumeTask(task!, {
+          role: "user",
+          parts: [{ type: "text", text: "A cat surfing" }],
+        })
+      ).rejects.toMatchObject({
+        code: "INVALID_PARAMS",
+        data: { taskId: "task-input", state: TaskState.CANCELLED },
+      });
+    });
+
+    it("should cancel a task waiting for input with a reason", async () => {
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 3,
+        method: "tasks/cancel",
+        params: { id: "task-input", metadata: { reason: "Changed my mind" } },
+      });
+
+      const task = res.json.mock.calls[0][0].result;
+      expect(task.status.state).toBe(TaskState.CANCELLED);
+      expect(task.status.message.parts[0].text).toBe("Changed my mind");
+    });
+
+    it("should not cancel a finished task", async () => {
+      await call({
+        jsonrpc: "2.0",
+        id: 4,
+        method: "tasks/cancel",
+        params: { id: "task-input" },
+      });
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 5,
+        method: "tasks/cancel",
+        params: { id: "task-input" },
+      });
+
+      expect(res.json.mock.calls[0][0].error).toMatchObject({
+        code: -32002,
+        data: { type: "TaskNotCancelable" },
+      });
+    });
+
+    it("should keep the original prompt when the follow-up has no text", async () => {
+      const res = await call({
+        jsonrpc: "2.0",
+        id: 2,
+        method: "tasks/send",
+        params: {
+          id: "task-input",
+          message: {
+            role: "user",
+            parts: [{ type: "image", url: "http://example.com/cat.png" }],
+          },
+        },
+      });
+
+      const task = res.json.mock.calls[0][0].result;
+      expect(task.message.parts).toEqual([
+        { type: "text", text: "Cat" },
+        { type: "image", url: "http://example.com/cat.png" },
+      ]);
+    });
+  });
+});
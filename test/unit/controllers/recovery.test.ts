@@ -0,0 +1,78 @@
+/**
+ * @file recovery.test.ts
+ * @description Tests for the recovery of queued and running tasks on startup
+ */
+
+import { A2AController } from "../../../src/controllers/a2aController";
+import { TaskStore } from "../../../src/core/taskStore";
+import { TaskQueue } from "../../../src/core/taskQueue";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { SessionManager } from "../../../src/core/sessionManager";
+import { TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+jest.mock("../../../src/core/taskQueue");
+jest.mock("../../../src/core/taskProcessor");
+
+describe("A2AController task recovery", () => {
+  let controller: A2AController;
+  let taskStore: TaskStore;
+  let taskQueue: jest.Mocked<TaskQueue>;
+
+  /**
+   * @function storeTask
+   * @description Stores a task left in a state by a previous run
+   */
+  const storeTask = (id: string, state: TaskState, timestamp: string) =>
+    taskStore.createTask({ id, status: { state, timestamp } });
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    taskStore = new TaskStore();
+    const taskProcessor = new TaskProcessor(
+      taskStore,
+      {} as any
+    ) as jest.Mocked<TaskProcessor>;
+    taskQueue = new TaskQueue(taskProcessor) as jest.Mocked<TaskQueue>;
+    taskQueue.enqueueTask.mockResolvedValue(undefined);
+    taskQueue.hasTask.mockReturnValue(false);
+
+    controller = new A2AController(
+      { falKey: "test-fal-key", piapiKey: "test-piapi-key" },
+      taskStore,
+      new SessionManager(),
+      taskProcessor,
+      taskQueue
+    );
+
+    await storeTask("queued-late", TaskState.SUBMITTED, "2026-01-01T00:02:00Z");
+    await storeTask(
+      "queued-early",
+      TaskState.SUBMITTED,
+      "2026-01-01T00:01:00Z"
+    );
+    await storeTask("running", TaskState.WORKING, "2026-01-01T00:03:00Z");
+    await storeTask("done", TaskState.COMPLETED, "2026-01-01T00:00:00Z");
+    await storeTask(
+      "waiting",
+      TaskState.INPUT_REQUIRED,
+      "2026-01-01T00:00:00Z"
+    );
+  });
+
+  it("should enqueue running tasks first, then queued tasks in order", async () => {
+    expect(await controller.recoverTasks()).toBe(3);
+
+    expect(taskQueue.enqueueTask.mock.calls.map(([task]) => task.id)).toEqual([
+      "running",
+      "queued-early",
+      "queued-late",
+    ]);
+  });
+
+  it("should skip tasks the queue already holds", async () => {
+    taskQueue.hasTask.mockImplementation((taskId) => taskId === "running");
+
+    expect(await controller.recoverTasks()).toBe(2);
+  });
+});
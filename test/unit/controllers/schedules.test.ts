@@ -0,0 +1,194 @@
+/**
+ * @file schedules.test.ts
+ * @description Tests for delayed tasks and the endpoints of recurring schedules
+ */
+
+import { Request, Response } from "express";
+import { A2AController } from "../../../src/controllers/a2aController";
+import { TaskStore } from "../../../src/core/taskStore";
+import { TaskQueue } from "../../../src/core/taskQueue";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { SessionManager } from "../../../src/core/sessionManager";
+import { TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+jest.mock("../../../src/core/taskQueue");
+jest.mock("../../../src/core/taskProcessor");
+
+describe("A2AController scheduled tasks", () => {
+  let controller: A2AController;
+  let taskStore: TaskStore;
+  let taskQueue: jest.Mocked<TaskQueue>;
+
+  const task = {
+    message: {
+      role: "user",
+      parts: [{ type: "text", text: "Today's scene: a lighthouse at dawn" }],
+    },
+    metadata: { taskType: "text2image" },
+  };
+
+  /**
+   * @function createMockResponse
+   * @description Creates a minimal Express response double
+   */
+  const createMockResponse = () =>
+    ({
+      json: jest.fn(),
+      status: jest.fn().mockReturnThis(),
+      end: jest.fn(),
+      setHeader: jest.fn(),
+    } as any);
+
+  /**
+   * @function call
+   * @description Runs a request through a handler, as the caller with the
+   * given API key
+   */
+  const call = async (
+    handler: (req: Request, res: Response) => Promise<void>,
+    request: Partial<Request>,
+    apiKey: string = "team-key"
+  ) => {
+    const res = createMockResponse();
+    await handler(
+      {
+        headers: { "x-api-key": apiKey },
+        params: {},
+        query: {},
+        body: {},
+        ...request,
+      } as Request,
+      res as Response
+    );
+    return res;
+  };
+
+  /**
+   * @function createSchedule
+   * @description Creates a daily schedule at 9:00 UTC and returns it
+   */
+  const createSchedule = async () => {
+    const res = await call(controller.createSchedule, {
+      body: { name: "Daily scene", cron: "0 9 * * *", task },
+    });
+    expect(res.status).toHaveBeenCalledWith(201);
+    return res.json.mock.calls[0][0];
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.useFakeTimers({ now: new Date("2026-03-01T08:59:00Z") });
+    taskStore = new TaskStore();
+    const taskProcessor = new TaskProcessor(
+      taskStore,
+      {} as any
+    ) as jest.Mocked<TaskProcessor>;
+    taskQueue = new TaskQueue(taskProcessor) as jest.Mocked<TaskQueue>;
+    taskQueue.enqueueTask.mockResolvedValue(undefined);
+
+    controller = new A2AController(
+      { falKey: "test-fal-key", piapiKey: "test-piapi-key" },
+      taskStore,
+      new SessionManager(),
+      taskProcessor,
+      taskQueue
+    );
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it("should hold a task with a future runAt", async () => {
+    const created = await controller.createTask({
+      ...task,
+      message: task.message as any,
+      runAt: "2026-03-01T12:00:00+02:00",
+    });
+
+    expect(created.runAt).toBe("2026-03-01T10:00:00.000Z");
+    expect(created.status.message?.parts[0].text).toBe(
+      "Scheduled to run at 2026-03-01T10:00:00.000Z"
+    );
+    expect(taskQueue.checkCapacity).not.toHaveBeenCalled();
+    expect(taskQueue.enqueueTask).toHaveBeenCalledWith(
+      expect.objectContaining({ runAt: "2026-03-01T10:00:00.000Z" })
+    );
+  });
+
+  it("should create a task linked to the schedule at each run", async () => {
+    const schedule = await createSchedule();
+    expect(schedule.nextRunAt).toBe("2026-03-01T09:00:00.000Z");
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    const [created] = await taskStore.listTasks();
+    expect(created).toMatchObject({
+      scheduleId: schedule.id,
+      taskType: "text2image",
+    });
+    const res = await call(controller.getSchedule, {
+      params: { scheduleId: schedule.id },
+    });
+    expect(res.json.mock.calls[0][0].runs).toEqual([
+      {
+        scheduledAt: "2026-03-01T09:00:00.000Z",
+        taskId: created.id,
+        state: TaskState.SUBMITTED,
+      },
+    ]);
+    const tasks = await call(controller.listTasks, {
+      query: { schedule_id: schedule.id },
+    });
+    expect(tasks.json.mock.calls[0][0]).toHaveLength(1);
+  });
+
+  it("should reject an invalid cron expression or task", async () => {
+    const badCron = await call(controller.createSchedule, {
+      body: { cron: "every day", task },
+    });
+    expect(badCron.status).toHaveBeenCalledWith(400);
+
+    const badTask = await call(controller.createSchedule, {
+      body: {
+        cron: "0 9 * * *",
+        task: { ...task, runAt: "2026-03-02T09:00:00Z" },
+      },
+    });
+    expect(badTask.status).toHaveBeenCalledWith(400);
+  });
+
+  it("should hide schedules from other callers", async () => {
+    const schedule = await createSchedule();
+
+    const res = await call(
+      controller.deleteSchedule,
+      { params: { scheduleId: schedule.id } },
+      "other-key"
+    );
+    expect(res.status).toHaveBeenCalledWith(404);
+    const list = await call(controller.listSchedules, {}, "other-key");
+    expect(list.json.mock.calls[0][0]).toEqual([]);
+  });
+
+  it("should pause, resume and delete a schedule", async () => {
+    const schedule = await createSchedule();
+    const params = { scheduleId: schedule.id };
+
+    const paused = await call(controller.pauseSchedule, { params });
+    expect(paused.json.mock.calls[0][0].paused).toBe(true);
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    expect(await taskStore.listTasks()).toEqual([]);
+
+    const resumed = await call(controller.resumeSchedule, { params });
+    expect(resumed.json.mock.calls[0][0].nextRunAt).toBe(
+      "2026-03-02T09:00:00.000Z"
+    );
+
+    const deleted = await call(controller.deleteSchedule, { params });
+    expect(deleted.status).toHaveBeenCalledWith(204);
+    const list = await call(controller.listSchedules, {});
+    expect(list.json.mock.calls[0][0]).toEqual([]);
+  });
+});
@@ -0,0 +1,61 @@
+/**
+ * @file artifactStore.test.ts
+ * @description Tests for the local artifact store
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { ArtifactStore } from "../../../src/core/artifactStore";
+import { InvalidParamsError } from "../../../src/core/errorHandler";
+
+jest.mock("../../../src/utils/logger");
+
+describe("ArtifactStore", () => {
+  const bytes = Buffer.from("fake png content").toString("base64");
+  let directory: string;
+  let store: ArtifactStore;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "artifacts-"));
+    store = new ArtifactStore(directory, "http://agent.example.com/");
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  it("should save bytes and serve them at a stable URL", async () => {
+    const first = await store.save(bytes, "image/png");
+    const second = await store.save(bytes, "image/png");
+
+    expect(first.id).toMatch(/^[a-f0-9]{64}\.png$/);
+    expect(first.url).toBe(`http://agent.example.com/artifacts/${first.id}`);
+    expect(second.url).toBe(first.url);
+
+    const filePath = await store.getFilePath(first.id);
+    expect(fs.readFileSync(filePath!, "utf-8")).toBe("fake png content");
+  });
+
+  it("should guess the type from the file name", async () => {
+    const artifact = await store.save(bytes, undefined, "frame.JPEG");
+    expect(artifact.mimeType).toBe("image/jpeg");
+    expect(artifact.id).toMatch(/\.jpg$/);
+  });
+
+  it("should reject unsupported or empty files", async () => {
+    await expect(store.save(bytes, "application/pdf")).rejects.toThrow(
+      InvalidParamsError
+    );
+    await expect(store.save(bytes)).rejects.toThrow(InvalidParamsError);
+    await expect(store.save("", "image/png")).rejects.toThrow(
+      InvalidParamsError
+    );
+  });
+
+  it("should not resolve unknown or malformed IDs", async () => {
+    expect(await store.getFilePath(`${"a".repeat(64)}.png`)).toBeNull();
+    expect(await store.getFilePath("../package.json")).toBeNull();
+  });
+});
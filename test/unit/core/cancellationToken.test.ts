@@ -0,0 +1,183 @@
+/**
+ * @file cancellationToken.test.ts
+ * @description Tests for per-task cancellation
+ */
+
+import { describe, expect, it, beforeEach } from "@jest/globals";
+import { CancellationToken, sleep } from "../../../src/core/cancellationToken";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { TaskStore } from "../../../src/core/taskStore";
+import { SkillRegistry } from "../../../src/core/skillRegistry";
+import { TaskContext, TaskState } from "../../../src/interfaces/a2a";
+import { TaskTimeoutError } from "../../../src/core/errorHandler";
+
+jest.mock("../../../src/utils/logger");
+
+describe("CancellationToken", () => {
+  it("should abort its signal and run listeners once", async () => {
+    const token = new CancellationToken();
+    const listener = jest.fn();
+    token.onCancel(listener);
+
+    token.cancel("Stopped by client");
+    token.cancel("Again");
+    await sleep(0);
+
+    expect(token.isCancelled).toBe(true);
+    expect(token.signal.aborted).toBe(true);
+    expect(token.reason).toBe("Stopped by client");
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith("Stopped by client");
+  });
+
+  it("should run listeners registered after cancellation", async () => {
+    const token = new CancellationToken();
+    token.cancel("Stopped by client");
+    const listener = jest.fn();
+
+    token.onCancel(listener);
+    await sleep(0);
+
+    expect(listener).toHaveBeenCalledWith("Stopped by client");
+  });
+
+  it("should end a sleep early when the signal aborts", async () => {
+    const token = new CancellationToken();
+    const start = Date.now();
+
+    setTimeout(() => token.cancel("Stopped"), 10);
+    await sleep(60000, token.signal);
+
+    expect(Date.now() - start).toBeLessThan(5000);
+  });
+});
+
+describe("TaskProcessor cancellation", () => {
+  let taskStore: TaskStore;
+  let registry: SkillRegistry;
+  let processor: TaskProcessor;
+  let cancelProviderJob: jest.Mock;
+
+  beforeEach(async () => {
+    taskStore = new TaskStore();
+    cancelProviderJob = jest.fn();
+    registry = new SkillRegistry().register({
+      id: "video-generation",
+      name: "Video Generation",
+      taskType: "text2video",
+      parameters: [],
+      handler: {
+        async *handleTask({ cancellationToken }: TaskContext) {
+          cancellationToken.onCancel(cancelProviderJob);
+          yield {
+            state: TaskState.WORKING,
+            message: {
+              role: "agent",
+              parts: [{ type: "text", text: "Polling" }],
+            },
+          };
+          // Stands for a provider poll that only ends when aborted
+          await sleep(60000, cancellationToken.signal);
+          throw new Error("Poll aborted");
+        },
+      },
+    });
+    processor = new TaskProcessor(taskStore, registry);
+    await taskStore.createTask({
+      id: "task-1",
+      taskType: "text2video",
+      message: { role: "user", parts: [{ type: "text", text: "A video" }] },
+      status: {
+        state: TaskState.SUBMITTED,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  });
+
+  it("should cancel a task mid-poll with its reason", async () => {
+    const task = await taskStore.getTask("task-1");
+    const processing = processor.processTask(task!);
+    await sleep(10);
+
+    const cancelled = await processor.cancelTask("task-1", "Not needed");
+    await processing;
+
+    const stored = await taskStore.getTask("task-1");
+    expect(cancelled).toBe(true);
+    expect(cancelProviderJob).toHaveBeenCalledWith("Not needed");
+    expect(stored?.status.state).toBe(TaskState.CANCELLED);
+    expect(stored?.status.message?.parts[0].text).toBe("Not needed");
+  });
+
+  it("should fail a task that runs past its deadline", async () => {
+    processor = new TaskProcessor(taskStore, registry, 50);
+    const task = await taskStore.getTask("task-1");
+
+    await expect(processor.processTask(task!)).rejects.toThrow(
+      TaskTimeoutError
+    );
+
+    const stored = await taskStore.getTask("task-1");
+    expect(cancelProviderJob).toHaveBeenCalled();
+    expect(stored?.status.state).toBe(TaskState.FAILED);
+    expect(stored?.status.message?.parts[1].data).toEqual({
+      error: {
+        code: -32011,
+        message: "Task task-1 timed out after 50ms",
+        data: {
+          type: "TaskTimeout",
+          // The skill is not idempotent, so the queue does not retry it
+          retryable: false,
+          taskId: "task-1",
+          timeout: 50,
+        },
+      },
+    });
+  });
+
+  it("should keep the deadline of a task across its retries", async () => {
+    let runs = 0;
+    processor = new TaskProcessor(
+      taskStore,
+      new SkillRegistry().register({
+        id: "video-generation",
+        name: "Video Generation",
+        taskType: "text2video",
+        parameters: [],
+        handler: {
+          async *handleTask() {
+            runs++;
+            throw new Error("Provider unavailable");
+          },
+        },
+      }),
+      50
+    );
+    const task = await taskStore.getTask("task-1");
+
+    await expect(processor.processTask(task!, () => true)).rejects.toThrow(
+      "Provider unavailable"
+    );
+    const { deadline } = (await taskStore.getTask("task-1"))!;
+    await processor.recordRetry(task!, {
+      attempt: 1,
+      maxAttempts: 3,
+      delay: 60,
+      error: new Error("Provider unavailable"),
+    });
+    await sleep(60);
+
+    await expect(processor.processTask(task!)).rejects.toThrow(
+      TaskTimeoutError
+    );
+    const stored = await taskStore.getTask("task-1");
+    // The retry timed out at the deadline of the first attempt, unrun
+    expect(runs).toBe(1);
+    expect(stored?.deadline).toBe(deadline);
+    expect(stored?.status.state).toBe(TaskState.FAILED);
+  });
+
+  it("should not cancel a task that is not being processed", async () => {
+    expect(await processor.cancelTask("task-1")).toBe(false);
+  });
+});
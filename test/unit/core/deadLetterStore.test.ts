@@ -0,0 +1,77 @@
+/**
+ * @file deadLetterStore.test.ts
+ * @description Tests for the dead-letter stores
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  DeadLetterEntry,
+  FileDeadLetterStore,
+  InMemoryDeadLetterStore,
+} from "../../../src/core/deadLetterStore";
+import { TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+
+describe("DeadLetterStore", () => {
+  const error = { code: -32010, message: "API_ERROR: Provider down" };
+  const entry: DeadLetterEntry = {
+    taskId: "task-1",
+    task: {
+      id: "task-1",
+      status: {
+        state: TaskState.SUBMITTED,
+        timestamp: "2026-01-01T00:00:00.000Z",
+      },
+    },
+    error,
+    attempts: [{ attempt: 1, failedAt: "2026-01-01T00:00:01.000Z", error }],
+    deadLetteredAt: "2026-01-01T00:00:01.000Z",
+  };
+
+  describe("InMemoryDeadLetterStore", () => {
+    it("should set, get and delete entries", async () => {
+      const store = new InMemoryDeadLetterStore();
+
+      await store.set(entry);
+      expect(await store.get("task-1")).toEqual(entry);
+      expect(await store.list()).toHaveLength(1);
+
+      expect(await store.delete("task-1")).toBe(true);
+      expect(await store.get("task-1")).toBeNull();
+    });
+  });
+
+  describe("FileDeadLetterStore", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "dead-letters-"));
+      filePath = path.join(dir, "dead-letters.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should keep entries across instances", async () => {
+      await new FileDeadLetterStore(filePath).set(entry);
+
+      const restored = new FileDeadLetterStore(filePath);
+      expect(await restored.list()).toEqual([entry]);
+    });
+
+    it("should persist deletions", async () => {
+      const store = new FileDeadLetterStore(filePath);
+      await store.set(entry);
+      await store.delete("task-1");
+
+      const restored = new FileDeadLetterStore(filePath);
+      expect(await restored.list()).toEqual([]);
+    });
+  });
+});
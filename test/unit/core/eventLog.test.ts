@@ -0,0 +1,95 @@
+/**
+ * @file eventLog.test.ts
+ * @description Tests for EventLog implementation
+ */
+
+import {
+  describe,
+  expect,
+  it,
+  beforeEach,
+  afterEach,
+  jest,
+} from "@jest/globals";
+import { EventLog } from "../../../src/core/eventLog";
+import {
+  PushNotificationEvent,
+  PushNotificationEventType,
+} from "../../../src/interfaces/a2a";
+
+describe("EventLog", () => {
+  let eventLog: EventLog;
+
+  const createEvent = (taskId: string): PushNotificationEvent => ({
+    type: PushNotificationEventType.STATUS_UPDATE,
+    taskId,
+    timestamp: new Date().toISOString(),
+    data: {},
+  });
+
+  beforeEach(() => {
+    eventLog = new EventLog({ maxEventsPerTask: 3 });
+  });
+
+  it("should assign increasing IDs per task", () => {
+    expect(eventLog.append(createEvent("task-1")).id).toBe(1);
+    expect(eventLog.append(createEvent("task-1")).id).toBe(2);
+    expect(eventLog.append(createEvent("task-2")).id).toBe(1);
+  });
+
+  it("should return only events newer than the last event ID", () => {
+    eventLog.append(createEvent("task-1"));
+    eventLog.append(createEvent("task-1"));
+    eventLog.append(createEvent("task-1"));
+
+    const events = eventLog.getEventsSince("task-1", 1);
+    expect(events.map((event) => event.id)).toEqual([2, 3]);
+  });
+
+  it("should keep at most maxEventsPerTask events", () => {
+    for (let i = 0; i < 5; i++) {
+      eventLog.append(createEvent("task-1"));
+    }
+
+    const events = eventLog.getEventsSince("task-1", 0);
+    expect(events.map((event) => event.id)).toEqual([3, 4, 5]);
+  });
+
+  it("should clear the log of a task but not its sequence", () => {
+    eventLog.append(createEvent("task-1"));
+    eventLog.clear("task-1");
+
+    expect(eventLog.getEventsSince("task-1", 0)).toEqual([]);
+    expect(eventLog.append(createEvent("task-1")).id).toBe(2);
+  });
+
+  describe("expiry", () => {
+    beforeEach(() => {
+      jest.useFakeTimers();
+      eventLog = new EventLog({ maxEventsPerTask: 3, retention: 1000 });
+    });
+
+    afterEach(() => {
+      jest.useRealTimers();
+    });
+
+    it("should drop the log of a finished task after the retention", () => {
+      eventLog.append(createEvent("task-1"));
+      eventLog.expire("task-1");
+
+      jest.advanceTimersByTime(999);
+      expect(eventLog.getEventsSince("task-1", 0)).toHaveLength(1);
+      jest.advanceTimersByTime(1);
+      expect(eventLog.getEventsSince("task-1", 0)).toEqual([]);
+    });
+
+    it("should keep the log of a task that has a new event", () => {
+      eventLog.append(createEvent("task-1"));
+      eventLog.expire("task-1");
+      eventLog.append(createEvent("task-1"));
+
+      jest.advanceTimersByTime(1000);
+      expect(eventLog.getEventsSince("task-1", 0)).toHaveLength(2);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * @file providerJobStore.test.ts
+ * @description Tests for the provider job stores and the recovery of PiAPI
+ * jobs across restarts
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import axios from "axios";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FileProviderJobStore,
+  InMemoryProviderJobStore,
+  ProviderJob,
+} from "../../../src/core/providerJobStore";
+import { FileTaskStore } from "../../../src/core/taskStore";
+import { VideoClient } from "../../../src/clients/videoClient";
+import { TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("axios");
+jest.mock("../../../src/utils/logger");
+
+const mockedAxios = axios as jest.Mocked<typeof axios>;
+
+describe("ProviderJobStore", () => {
+  const job: ProviderJob = {
+    taskId: "task-1",
+    provider: "piapi",
+    jobId: "piapi-1",
+    submittedAt: "2026-01-01T00:00:00.000Z",
+  };
+  let dir: string;
+  let filePath: string;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), "provider-jobs-"));
+    filePath = path.join(dir, "provider-jobs.json");
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it("should set, get and delete jobs in memory", async () => {
+    const store = new InMemoryProviderJobStore();
+
+    await store.set(job);
+    expect(await store.get("task-1")).toEqual(job);
+    expect(await store.delete("task-1")).toBe(true);
+    expect(await store.list()).toEqual([]);
+  });
+
+  it("should keep jobs across instances", async () => {
+    await new FileProviderJobStore(filePath).set(job);
+
+    expect(await new FileProviderJobStore(filePath).get("task-1")).toEqual(job);
+  });
+
+  it("should keep tasks across task store instances", async () => {
+    const tasksPath = path.join(dir, "tasks.json");
+    const store = new FileTaskStore(tasksPath);
+    const task = {
+      id: "task-1",
+      status: {
+        state: TaskState.SUBMITTED,
+        timestamp: "2026-01-01T00:00:00.000Z",
+      },
+    };
+    await store.createTask(task);
+    await store.transitionTask("task-1", { state: TaskState.WORKING });
+
+    const restored = new FileTaskStore(tasksPath);
+    expect((await restored.getTask("task-1"))?.status.state).toBe(
+      TaskState.WORKING
+    );
+  });
+
+  it("should not keep finished tasks across task store instances", async () => {
+    const tasksPath = path.join(dir, "tasks.json");
+    const store = new FileTaskStore(tasksPath);
+    for (const id of ["task-1", "task-2"]) {
+      await store.createTask({
+        id,
+        status: {
+          state: TaskState.SUBMITTED,
+          timestamp: "2026-01-01T00:00:00.000Z",
+        },
+      });
+      await store.transitionTask(id, { state: TaskState.WORKING });
+    }
+    await store.transitionTask("task-1", { state: TaskState.COMPLETED });
+
+    const restored = new FileTaskStore(tasksPath);
+    expect(await restored.getTask("task-1")).toBeNull();
+    expect((await restored.getTask("task-2"))?.status.state).toBe(
+      TaskState.WORKING
+    );
+    expect(
+      JSON.parse(fs.readFileSync(tasksPath, "utf-8")).map(
+        (task: { id: string }) => task.id
+      )
+    ).toEqual(["task-2"]);
+  });
+
+  describe("VideoClient", () => {
+    it("should poll the job submitted before a restart", async () => {
+      mockedAxios.post.mockResolvedValue({
+        data: { data: { task_id: "piapi-1", status: "pending" } },
+      });
+      await new VideoClient({
+        apiKey: "key",
+        jobStore: new FileProviderJobStore(filePath),
+      }).generateVideo("task-1", ["https://example.com/cat.png"], "A cat");
+
+      const restarted = new VideoClient({
+        apiKey: "key",
+        jobStore: new FileProviderJobStore(filePath),
+      });
+      mockedAxios.get.mockResolvedValue({
+        data: { data: { status: "processing", progress: 40 } },
+      });
+
+      expect(await restarted.hasJob("task-1")).toBe(true);
+      expect((await restarted.checkStatus("task-1")).progress).toBe(40);
+      expect(mockedAxios.get).toHaveBeenCalledWith(
+        expect.stringContaining("/task/piapi-1"),
+        expect.anything()
+      );
+    });
+
+    it("should forget a released job", async () => {
+      const jobStore = new InMemoryProviderJobStore();
+      await jobStore.set(job);
+      const client = new VideoClient({ apiKey: "key", jobStore });
+
+      await client.releaseJob("task-1");
+      expect(await client.hasJob("task-1")).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * @file pushNotificationStore.test.ts
+ * @description Tests for the push notification configuration stores
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import {
+  FilePushNotificationConfigStore,
+  InMemoryPushNotificationConfigStore,
+} from "../../../src/core/pushNotificationStore";
+import {
+  PushNotificationConfig,
+  PushNotificationEventType,
+} from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+
+describe("PushNotificationConfigStore", () => {
+  const config: PushNotificationConfig = {
+    taskId: "task-1",
+    webhookUrl: "http://example.com/hook",
+    eventTypes: [PushNotificationEventType.COMPLETION],
+  };
+
+  describe("InMemoryPushNotificationConfigStore", () => {
+    it("should set, get and delete configurations", async () => {
+      const store = new InMemoryPushNotificationConfigStore();
+
+      await store.set("task-1", config);
+      expect(await store.get("task-1")).toEqual(config);
+      expect(await store.list()).toHaveLength(1);
+
+      expect(await store.delete("task-1")).toBe(true);
+      expect(await store.get("task-1")).toBeNull();
+    });
+  });
+
+  describe("FilePushNotificationConfigStore", () => {
+    let dir: string;
+    let filePath: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), "push-store-"));
+      filePath = path.join(dir, "push-notifications.json");
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("should keep configurations across instances", async () => {
+      await new FilePushNotificationConfigStore(filePath).set(
+        "task-1",
+        config
+      );
+
+      const restored = new FilePushNotificationConfigStore(filePath);
+      expect(await restored.get("task-1")).toEqual(config);
+    });
+
+    it("should persist deletions", async () => {
+      const store = new FilePushNotificationConfigStore(filePath);
+      await store.set("task-1", config);
+      await store.delete("task-1");
+
+      const restored = new FilePushNotificationConfigStore(filePath);
+      expect(await restored.list()).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * @file retryPolicy.test.ts
+ * @description Tests for the classification of retryable errors and the retry backoff
+ */
+
+import { describe, expect, it, beforeEach } from "@jest/globals";
+import {
+  describeRetryCause,
+  getRetryDelay,
+  isRetryableError,
+} from "../../../src/core/retryPolicy";
+import {
+  InvalidParamsError,
+  RetryConfig,
+  TaskTimeoutError,
+} from "../../../src/core/errorHandler";
+import { MediaError, MediaErrorCode } from "../../../src/errors/mediaError";
+import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { TaskStore } from "../../../src/core/taskStore";
+import { SkillRegistry } from "../../../src/core/skillRegistry";
+import { TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+
+describe("isRetryableError", () => {
+  it("should retry network errors and provider 5xx responses", () => {
+    expect(
+      isRetryableError(new MediaError(MediaErrorCode.NETWORK_ERROR, 500), false)
+    ).toBe(true);
+    expect(
+      isRetryableError(new MediaError(MediaErrorCode.API_ERROR, 503), false)
+    ).toBe(true);
+  });
+
+  it("should not retry invalid requests or failed generations", () => {
+    expect(
+      isRetryableError(new MediaError(MediaErrorCode.API_ERROR, 422), true)
+    ).toBe(false);
+    expect(
+      isRetryableError(
+        new MediaError(MediaErrorCode.INVALID_REQUEST, 400),
+        true
+      )
+    ).toBe(false);
+    expect(
+      isRetryableError(
+        new MediaError(MediaErrorCode.GENERATION_FAILED, 500),
+        true
+      )
+    ).toBe(false);
+    expect(isRetryableError(new InvalidParamsError("Bad prompt"), true)).toBe(
+      false
+    );
+    expect(isRetryableError(new Error("Unexpected"), true)).toBe(false);
+  });
+
+  it("should retry timeouts of idempotent jobs only", () => {
+    const timeouts = [
+      new MediaError(MediaErrorCode.TIMEOUT, 408),
+      new TaskTimeoutError("task-1", 1000),
+    ];
+    for (const error of timeouts) {
+      expect(isRetryableError(error, true)).toBe(true);
+      expect(isRetryableError(error, false)).toBe(false);
+    }
+  });
+});
+
+describe("getRetryDelay", () => {
+  const config: RetryConfig = {
+    maxAttempts: 5,
+    initialDelayMs: 1000,
+    maxDelayMs: 5000,
+    backoffFactor: 2,
+  };
+
+  it("should back off exponentially up to the maximum", () => {
+    const delays = [1, 2, 3, 4].map((attempt) =>
+      getRetryDelay(attempt, config, () => 0.999999)
+    );
+    expect(delays).toEqual([1000, 2000, 4000, 5000]);
+  });
+
+  it("should drop a random part of up to half the backoff", () => {
+    expect(getRetryDelay(2, config, () => 0)).toBe(1000);
+    expect(getRetryDelay(2, config, () => 0.5)).toBe(1500);
+  });
+});
+
+describe("describeRetryCause", () => {
+  it("should name the provider status, network errors and timeouts", () => {
+    expect(
+      describeRetryCause(new MediaError(MediaErrorCode.API_ERROR, 503))
+    ).toBe("provider 503");
+    expect(
+      describeRetryCause(new MediaError(MediaErrorCode.NETWORK_ERROR, 500))
+    ).toBe("network error");
+    expect(describeRetryCause(new TaskTimeoutError("task-1"))).toBe("timeout");
+  });
+});
+
+describe("TaskProcessor retries", () => {
+  const providerError = new MediaError(MediaErrorCode.API_ERROR, 503);
+  let taskStore: TaskStore;
+  let processor: TaskProcessor;
+
+  beforeEach(async () => {
+    taskStore = new TaskStore();
+    processor = new TaskProcessor(
+      taskStore,
+      new SkillRegistry().register({
+        id: "image-generation",
+        name: "Image Generation",
+        taskType: "text2image",
+        parameters: [],
+        handler: {
+          async *handleTask() {
+            throw providerError;
+          },
+        },
+      })
+    );
+    await taskStore.createTask({
+      id: "task-1",
+      taskType: "text2image",
+      message: { role: "user", parts: [{ type: "text", text: "A cat" }] },
+      status: {
+        state: TaskState.SUBMITTED,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  });
+
+  it("should not fail a task that will be retried", async () => {
+    const task = await taskStore.getTask("task-1");
+
+    await expect(processor.processTask(task!, () => true)).rejects.toBe(
+      providerError
+    );
+
+    expect((await taskStore.getTask("task-1"))?.status.state).toBe(
+      TaskState.WORKING
+    );
+  });
+
+  it("should record the retry attempt in the task history", async () => {
+    const task = await taskStore.getTask("task-1");
+    await expect(processor.processTask(task!, () => true)).rejects.toBe(
+      providerError
+    );
+
+    await processor.recordRetry(task!, {
+      attempt: 2,
+      maxAttempts: 3,
+      delay: 4000,
+      error: providerError,
+    });
+
+    const stored = await taskStore.getTask("task-1");
+    const entry = stored?.history?.[stored.history.length - 1];
+    expect(stored?.status.state).toBe(TaskState.SUBMITTED);
+    expect(entry?.message?.parts[0].text).toBe(
+      "Retry 2/3 after provider 503, in 4.0s"
+    );
+    expect(entry?.message?.parts[1].data?.retry).toMatchObject({
+      attempt: 2,
+      maxAttempts: 3,
+      delay: 4000,
+      error: { code: -32010 },
+    });
+  });
+});
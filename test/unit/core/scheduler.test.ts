@@ -0,0 +1,130 @@
+/**
+ * @file scheduler.test.ts
+ * @description Tests for the runs of recurring schedules
+ */
+
+import { describe, expect, it, beforeEach, afterEach } from "@jest/globals";
+import { Scheduler } from "../../../src/core/scheduler";
+import {
+  InMemoryScheduleStore,
+  Schedule,
+} from "../../../src/core/scheduleStore";
+import { AgentRestartingError } from "../../../src/core/errorHandler";
+import { Task, TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+
+describe("Scheduler", () => {
+  const template = {
+    message: {
+      role: "user" as const,
+      parts: [{ type: "text" as const, text: "Today's scene" }],
+    },
+    metadata: { taskType: "text2image" },
+  };
+  let store: InMemoryScheduleStore;
+  let createTask: jest.Mock<Promise<Task>, [Schedule]>;
+  let scheduler: Scheduler;
+  let taskCount: number;
+
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date("2026-03-01T08:59:00Z") });
+    taskCount = 0;
+    store = new InMemoryScheduleStore();
+    createTask = jest.fn(
+      async (_schedule: Schedule): Promise<Task> => ({
+        id: `task-${++taskCount}`,
+        status: {
+          state: TaskState.SUBMITTED,
+          timestamp: new Date().toISOString(),
+        },
+      })
+    );
+    scheduler = new Scheduler(store, createTask);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    jest.useRealTimers();
+  });
+
+  it("should create a task at each matching time and record the runs", async () => {
+    const schedule = await scheduler.createSchedule({
+      cron: "0 9 * * *",
+      task: template,
+    });
+    expect(schedule.nextRunAt).toBe("2026-03-01T09:00:00.000Z");
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+    await jest.advanceTimersByTimeAsync(24 * 60 * 60 * 1000);
+
+    expect(createTask).toHaveBeenCalledTimes(2);
+    expect(createTask.mock.calls[0][0].task).toEqual(template);
+    const stored = await scheduler.getSchedule(schedule.id);
+    expect(stored?.runs).toEqual([
+      { scheduledAt: "2026-03-01T09:00:00.000Z", taskId: "task-1" },
+      { scheduledAt: "2026-03-02T09:00:00.000Z", taskId: "task-2" },
+    ]);
+    expect(stored?.nextRunAt).toBe("2026-03-03T09:00:00.000Z");
+  });
+
+  it("should record a run whose task could not be created", async () => {
+    createTask.mockRejectedValueOnce(new AgentRestartingError());
+    const schedule = await scheduler.createSchedule({
+      cron: "0 9 * * *",
+      task: template,
+    });
+
+    await jest.advanceTimersByTimeAsync(60 * 1000);
+
+    const [run] = (await scheduler.getSchedule(schedule.id))!.runs;
+    expect(run.taskId).toBeUndefined();
+    expect(run.error?.code).toBe(-32015);
+  });
+
+  it("should not run a paused schedule until it is resumed", async () => {
+    const schedule = await scheduler.createSchedule({
+      cron: "0 9 * * *",
+      task: template,
+    });
+
+    const paused = await scheduler.pauseSchedule(schedule.id);
+    expect(paused?.nextRunAt).toBeUndefined();
+    await jest.advanceTimersByTimeAsync(60 * 60 * 1000);
+    expect(createTask).not.toHaveBeenCalled();
+
+    const resumed = await scheduler.resumeSchedule(schedule.id);
+    expect(resumed?.nextRunAt).toBe("2026-03-02T09:00:00.000Z");
+  });
+
+  it("should stop running a deleted schedule", async () => {
+    const schedule = await scheduler.createSchedule({
+      cron: "* * * * *",
+      task: template,
+    });
+
+    expect(await scheduler.deleteSchedule(schedule.id)).toBe(true);
+    await jest.advanceTimersByTimeAsync(5 * 60 * 1000);
+    expect(createTask).not.toHaveBeenCalled();
+  });
+
+  it("should catch up once on a run missed while stopped", async () => {
+    await store.set({
+      id: "daily-scene",
+      cron: "0 9 * * *",
+      task: template,
+      paused: false,
+      createdAt: "2026-02-01T00:00:00.000Z",
+      nextRunAt: "2026-02-27T09:00:00.000Z",
+      runs: [],
+    });
+
+    await scheduler.start();
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(createTask).toHaveBeenCalledTimes(1);
+    expect((await scheduler.getSchedule("daily-scene"))?.nextRunAt).toBe(
+      "2026-03-01T09:00:00.000Z"
+    );
+  });
+});
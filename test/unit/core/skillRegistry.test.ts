@@ -0,0 +1,114 @@
+/**
+ * @file skillRegistry.test.ts
+ * @description Tests for the skill registry and the generated agent card
+ */
+
+import { describe, expect, it, beforeEach } from "@jest/globals";
+import {
+  SkillDefinition,
+  SkillHandler,
+  SkillRegistry,
+} from "../../../src/core/skillRegistry";
+import { buildAgentCard } from "../../../src/core/agentCard";
+
+describe("SkillRegistry", () => {
+  const handler: SkillHandler = {
+    async *handleTask() {},
+  };
+  const createSkill = (
+    overrides: Partial<SkillDefinition> = {}
+  ): SkillDefinition => ({
+    id: "image-generation",
+    name: "Image Generation",
+    taskType: "text2image",
+    inputModes: ["text/plain"],
+    outputModes: ["image/png"],
+    parameters: [
+      { name: "prompt", description: "Prompt", required: true, type: "string" },
+    ],
+    handler,
+    ...overrides,
+  });
+  let registry: SkillRegistry;
+
+  beforeEach(() => {
+    registry = new SkillRegistry().register(createSkill());
+  });
+
+  it("should route task types to their skill", () => {
+    registry.register(
+      createSkill({ id: "video-generation", taskType: "text2video" })
+    );
+
+    expect(registry.getSkillForTaskType("text2video")?.id).toBe(
+      "video-generation"
+    );
+    expect(registry.getSkillForTaskType("text2audio")).toBeUndefined();
+    expect(registry.getTaskTypes()).toEqual(["text2image", "text2video"]);
+  });
+
+  it("should reject duplicate skill IDs and task types", () => {
+    expect(() => registry.register(createSkill({ taskType: "other" }))).toThrow(
+      "Skill image-generation is already registered"
+    );
+    expect(() => registry.register(createSkill({ id: "other" }))).toThrow(
+      "Task type text2image is already registered"
+    );
+  });
+
+  it("should advertise the taskType parameter without the handler", () => {
+    registry = new SkillRegistry().register(createSkill({ provider: "fal" }));
+    const [skill] = registry.toAgentSkills(300000);
+
+    expect(skill).not.toHaveProperty("handler");
+    expect(skill).not.toHaveProperty("taskType");
+    expect(skill).not.toHaveProperty("provider");
+    expect(skill.parameters?.[0]).toMatchObject({
+      name: "taskType",
+      required: true,
+      enum: ["text2image"],
+    });
+    expect(skill.parameters?.[1].name).toBe("prompt");
+  });
+
+  it("should advertise the timeout parameter with its limits", () => {
+    registry.register(
+      createSkill({
+        id: "video-generation",
+        taskType: "text2video",
+        timeout: 60000,
+        maxTimeout: 120000,
+      })
+    );
+
+    const [image, video] = registry.toAgentSkills(300000);
+
+    expect(image.parameters?.[2]).toMatchObject({
+      name: "timeout",
+      required: false,
+      description: expect.stringContaining("up to 300000"),
+    });
+    expect(video.parameters?.[2].description).toContain(
+      "up to 120000 (optional, default 60000)"
+    );
+  });
+
+  it("should build the agent card from the registry and public URL", () => {
+    registry.register(
+      createSkill({
+        id: "video-generation",
+        taskType: "text2video",
+        outputModes: ["video/mp4"],
+      })
+    );
+
+    const card = buildAgentCard(registry, "https://agent.example.com", 300000);
+
+    expect(card.url).toBe("https://agent.example.com");
+    expect(card.skills.map((skill) => skill.id)).toEqual([
+      "image-generation",
+      "video-generation",
+    ]);
+    expect(card.defaultOutputModes).toEqual(["image/png", "video/mp4"]);
+  });
+});
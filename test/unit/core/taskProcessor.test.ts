@@ -5,6 +5,7 @@
 
 import { describe, expect, it, beforeEach, jest } from "@jest/globals";
 import { TaskProcessor } from "../../../src/core/taskProcessor";
+import { createSkillRegistry } from "../../../src/skills/mediaSkills";
 import { TaskStore } from "../../../src/core/taskStore";
 import {
   Task,
@@ -59,8 +60,7 @@ describe("TaskProcessor", () => {
     // Create task processor instance
     taskProcessor = new TaskProcessor(
       taskStore,
-      imageController,
-      videoController
+      createSkillRegistry(imageController, videoController)
     );
 
     // Create mock task
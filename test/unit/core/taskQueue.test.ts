@@ -6,9 +6,13 @@
 import { describe, expect, it, beforeEach, jest } from "@jest/globals";
 import { TaskQueue } from "../../../src/core/taskQueue";
 import { TaskProcessor } from "../../../src/core/taskProcessor";
-import { Task, TaskState } from "../../../src/interfaces/a2a";
+import { createSkillRegistry } from "../../../src/skills/mediaSkills";
+import { Task, TaskPriority, TaskState } from "../../../src/interfaces/a2a";
 import { Logger } from "../../../src/utils/logger";
 import { TaskStore } from "../../../src/core/taskStore";
+import { MediaError, MediaErrorCode } from "../../../src/errors/mediaError";
+import { InMemoryDeadLetterStore } from "../../../src/core/deadLetterStore";
+import { AgentBusyError } from "../../../src/core/errorHandler";
 import { ImageGenerationController } from "../../../src/controllers/imageController";
 import { VideoGenerationController } from "../../../src/controllers/videoController";
 
@@ -65,21 +69,19 @@ describe("TaskQueue", () => {
     // Create mock task processor
     taskProcessor = new TaskProcessor(
       taskStore,
-      imageController,
-      videoController
+      createSkillRegistry(imageController, videoController)
     ) as jest.Mocked<TaskProcessor>;
 
     // Create task queue instance
     taskQueue = new TaskQueue(taskProcessor, {
       maxConcurrent: 2,
       maxRetries: 3,
-      retryDelay: 100,
+      retryDelay: 10,
     });
 
     // Create mock task
     mockTask = {
       id: "task-123",
-      prompt: "Generate a song about testing",
       status: {
         state: TaskState.SUBMITTED,
         timestamp: new Date().toISOString(),
@@ -115,7 +117,10 @@ describe("TaskQueue", () => {
 
       await taskQueue.enqueueTask(mockTask);
 
-      expect(taskProcessor.processTask).toHaveBeenCalledWith(mockTask);
+      expect(taskProcessor.processTask).toHaveBeenCalledWith(
+        mockTask,
+        expect.any(Function)
+      );
     });
   });
 
@@ -152,10 +157,12 @@ describe("TaskQueue", () => {
   });
 
   describe("retry logic", () => {
+    const processedTaskIds = () =>
+      taskProcessor.processTask.mock.calls.map(([task]) => task.id);
+    const providerError = new MediaError(MediaErrorCode.API_ERROR, 503);
+
     it("should retry failed tasks up to maxRetries", async () => {
-      taskProcessor.processTask.mockRejectedValue(
-        new Error("Processing failed")
-      );
+      taskProcessor.processTask.mockRejectedValue(providerError);
 
       await taskQueue.enqueueTask(mockTask);
 
@@ -167,9 +174,7 @@ describe("TaskQueue", () => {
     });
 
     it("should mark task as failed after max retries", async () => {
-      taskProcessor.processTask.mockRejectedValue(
-        new Error("Processing failed")
-      );
+      taskProcessor.processTask.mockRejectedValue(providerError);
 
       await taskQueue.enqueueTask(mockTask);
 
@@ -179,6 +184,372 @@ describe("TaskQueue", () => {
       const status = taskQueue.getQueueStatus();
       expect(status.failedTasks).toBe(1);
     });
+
+    it("should not retry errors that are not retryable", async () => {
+      taskProcessor.processTask.mockRejectedValue(
+        new MediaError(MediaErrorCode.INVALID_REQUEST, 400)
+      );
+
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(taskProcessor.processTask).toHaveBeenCalledTimes(1);
+      expect(taskProcessor.recordRetry).not.toHaveBeenCalled();
+      expect(taskQueue.getQueueStatus().failedTasks).toBe(1);
+    });
+
+    it("should retry timeouts of idempotent task types only", async () => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 2,
+        maxRetries: 1,
+        retryDelay: 10,
+        idempotentTaskTypes: ["text2image"],
+      });
+      taskProcessor.processTask.mockRejectedValue(
+        new MediaError(MediaErrorCode.TIMEOUT, 408)
+      );
+
+      await taskQueue.enqueueTask({ ...mockTask, taskType: "text2image" });
+      await taskQueue.enqueueTask({
+        ...mockTask,
+        id: "task-video",
+        taskType: "text2video",
+      });
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      expect(processedTaskIds()).toEqual([
+        "task-123",
+        "task-video",
+        "task-123",
+      ]);
+    });
+
+    it("should record each attempt and tell the processor it retries", async () => {
+      const willRetry: boolean[] = [];
+      taskProcessor.processTask.mockImplementation(async (_task, retries) => {
+        willRetry.push(retries!(providerError));
+        throw providerError;
+      });
+
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+
+      // The last attempt has no retries left
+      expect(willRetry).toEqual([true, true, true, false]);
+      expect(
+        taskProcessor.recordRetry.mock.calls.map(([, retry]) => retry)
+      ).toEqual(
+        [1, 2, 3].map((attempt) => ({
+          attempt,
+          maxAttempts: 3,
+          delay: expect.any(Number),
+          error: providerError,
+        }))
+      );
+    });
+
+    it("should cancel a task waiting for its retry", async () => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 2,
+        maxRetries: 3,
+        retryDelay: 100,
+      });
+      taskProcessor.processTask.mockRejectedValue(providerError);
+
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 10));
+
+      expect(taskQueue.cancelTask(mockTask.id)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 200));
+      expect(taskProcessor.processTask).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe("delayed tasks", () => {
+    const inMs = (ms: number) => new Date(Date.now() + ms).toISOString();
+
+    it("should hold a task until its start time", async () => {
+      taskProcessor.processTask.mockResolvedValue();
+
+      await taskQueue.enqueueTask({ ...mockTask, runAt: inMs(50) });
+      expect(taskProcessor.processTask).not.toHaveBeenCalled();
+      expect(taskQueue.hasTask(mockTask.id)).toBe(true);
+      expect(taskQueue.getQueueStatus().delayedTasks).toBe(1);
+
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(taskProcessor.processTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("should run a task whose start time has passed at once", async () => {
+      taskProcessor.processTask.mockResolvedValue();
+
+      await taskQueue.enqueueTask({ ...mockTask, runAt: inMs(-1000) });
+      expect(taskProcessor.processTask).toHaveBeenCalledTimes(1);
+    });
+
+    it("should cancel a delayed task", async () => {
+      await taskQueue.enqueueTask({ ...mockTask, runAt: inMs(50) });
+
+      expect(taskQueue.cancelTask(mockTask.id)).toBe(true);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      expect(taskProcessor.processTask).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("queue positions", () => {
+    const releases: Record<string, (state?: TaskState) => void> = {};
+
+    beforeEach(() => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 1,
+        maxRetries: 0,
+        retryDelay: 0,
+      });
+      taskProcessor.processTask.mockImplementation(
+        (task: Task) =>
+          new Promise<TaskState | void>((resolve) => {
+            releases[task.id] = (state = TaskState.COMPLETED) => resolve(state);
+          })
+      );
+    });
+
+    it("should rank queued tasks by priority, then arrival", async () => {
+      await taskQueue.enqueueTask({ ...mockTask, id: "running" });
+      await taskQueue.enqueueTask({ ...mockTask, id: "normal" });
+      await taskQueue.enqueueTask({
+        ...mockTask,
+        id: "high",
+        priority: TaskPriority.HIGH,
+      });
+
+      expect(taskQueue.getQueuePosition("high")).toEqual({
+        position: 1,
+        queueLength: 2,
+      });
+      expect(taskQueue.getQueuePosition("normal")?.position).toBe(2);
+      expect(taskQueue.getQueuePosition("running")).toBeNull();
+    });
+
+    it("should estimate completion from past run times", async () => {
+      const nowSpy = jest.spyOn(Date, "now").mockReturnValue(0);
+      const video = (id: string): Task => ({
+        ...mockTask,
+        id,
+        taskType: "text2video",
+      });
+      try {
+        await taskQueue.enqueueTask(video("first"));
+        await taskQueue.enqueueTask(video("second"));
+        nowSpy.mockReturnValue(60000);
+        releases["first"]();
+        await new Promise((resolve) => setImmediate(resolve));
+        await taskQueue.enqueueTask(video("third"));
+
+        // "second" started at 60s and is expected to run 60s as well
+        nowSpy.mockReturnValue(90000);
+        expect(taskQueue.getQueuePosition("third")).toEqual({
+          position: 1,
+          queueLength: 1,
+          etaSeconds: 90,
+        });
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
+
+    it("should not estimate from runs that did not complete", async () => {
+      const nowSpy = jest.spyOn(Date, "now").mockReturnValue(0);
+      const video = (id: string): Task => ({
+        ...mockTask,
+        id,
+        taskType: "text2video",
+      });
+      try {
+        await taskQueue.enqueueTask(video("first"));
+        await taskQueue.enqueueTask(video("second"));
+        // The first run is abandoned after a cancellation
+        nowSpy.mockReturnValue(1000);
+        releases["first"](TaskState.CANCELLED);
+        await new Promise((resolve) => setImmediate(resolve));
+        await taskQueue.enqueueTask(video("third"));
+
+        expect(taskQueue.getQueuePosition("third")).toEqual({
+          position: 1,
+          queueLength: 1,
+        });
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
+
+    it("should rank tasks in the order clients take turns", async () => {
+      const fromClient = (id: string, clientId: string): Task => ({
+        ...mockTask,
+        id,
+        clientId,
+      });
+      await taskQueue.enqueueTask(fromClient("running", "a"));
+      await taskQueue.enqueueTask(fromClient("a-1", "a"));
+      await taskQueue.enqueueTask(fromClient("a-2", "a"));
+      await taskQueue.enqueueTask(fromClient("a-3", "a"));
+      await taskQueue.enqueueTask(fromClient("b-1", "b"));
+
+      const positions = taskQueue.getQueuePositions();
+      expect(positions.get("b-1")?.position).toBe(2);
+      expect(positions.get("a-3")?.position).toBe(4);
+    });
+
+    it("should only count the tasks waiting for the same pool", async () => {
+      const nowSpy = jest.spyOn(Date, "now").mockReturnValue(0);
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 3,
+        maxRetries: 0,
+        retryDelay: 0,
+        skillProviders: { text2video: "piapi", text2image: "fal" },
+        providerConcurrency: { piapi: 1, fal: 2 },
+      });
+      const task = (id: string, taskType: string): Task => ({
+        ...mockTask,
+        id,
+        taskType,
+      });
+      try {
+        await taskQueue.enqueueTask(task("image-0", "text2image"));
+        nowSpy.mockReturnValue(10000);
+        releases["image-0"]();
+        await new Promise((resolve) => setImmediate(resolve));
+        await taskQueue.enqueueTask(task("video-1", "text2video"));
+        await taskQueue.enqueueTask(task("video-2", "text2video"));
+        await taskQueue.enqueueTask(task("video-3", "text2video"));
+        await taskQueue.enqueueTask(task("image-1", "text2image"));
+        await taskQueue.enqueueTask(task("image-2", "text2image"));
+        await taskQueue.enqueueTask(task("image-3", "text2image"));
+
+        // video-1 and two images run; the others wait for their provider
+        expect(taskQueue.getQueuePosition("video-3")).toEqual({
+          position: 2,
+          queueLength: 2,
+        });
+        // The last image only waits for the images running, 10s each
+        expect(taskQueue.getQueuePosition("image-3")).toEqual({
+          position: 1,
+          queueLength: 1,
+          etaSeconds: 20,
+        });
+      } finally {
+        nowSpy.mockRestore();
+      }
+    });
+
+    it("should tell listeners when the queue changes", async () => {
+      const listener = jest.fn();
+      taskQueue.addQueueListener(listener);
+
+      await taskQueue.enqueueTask({ ...mockTask, id: "running" });
+      await taskQueue.enqueueTask({ ...mockTask, id: "queued" });
+      taskQueue.cancelTask("queued");
+
+      expect(listener).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe("drain", () => {
+    it("should wait for running tasks and start no others", async () => {
+      let finish: () => void = () => undefined;
+      taskProcessor.processTask.mockImplementation(
+        () => new Promise<void>((resolve) => (finish = resolve))
+      );
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 1,
+        maxRetries: 3,
+        retryDelay: 10,
+      });
+      await taskQueue.enqueueTask({ ...mockTask, id: "task-1" });
+      await taskQueue.enqueueTask({ ...mockTask, id: "task-2" });
+
+      const drained = taskQueue.drain(1000);
+      finish();
+
+      expect(await drained).toEqual([]);
+      expect(taskProcessor.processTask).toHaveBeenCalledTimes(1);
+      expect(taskQueue.hasTask("task-2")).toBe(true);
+    });
+
+    it("should report the tasks still running after the grace period", async () => {
+      taskProcessor.processTask.mockImplementation(() => new Promise(() => {}));
+      await taskQueue.enqueueTask(mockTask);
+
+      expect(await taskQueue.drain(10)).toEqual([mockTask.id]);
+    });
+
+    it("should leave failed tasks to be retried after the restart", async () => {
+      taskProcessor.processTask.mockRejectedValue(
+        new MediaError(MediaErrorCode.API_ERROR, 503, "Provider down")
+      );
+      await taskQueue.drain(0);
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(taskProcessor.processTask).not.toHaveBeenCalled();
+      expect(taskQueue.hasTask(mockTask.id)).toBe(true);
+    });
+  });
+
+  describe("dead letters", () => {
+    let deadLetterStore: InMemoryDeadLetterStore;
+
+    beforeEach(() => {
+      deadLetterStore = new InMemoryDeadLetterStore();
+      taskQueue = new TaskQueue(
+        taskProcessor,
+        { maxConcurrent: 2, maxRetries: 1, retryDelay: 10 },
+        deadLetterStore
+      );
+    });
+
+    it("should keep a task that ran out of retries with each error", async () => {
+      taskProcessor.processTask
+        .mockRejectedValueOnce(
+          new MediaError(MediaErrorCode.NETWORK_ERROR, 500)
+        )
+        .mockRejectedValueOnce(new MediaError(MediaErrorCode.API_ERROR, 503));
+
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 100));
+
+      const entry = await deadLetterStore.get(mockTask.id);
+      expect(entry).toMatchObject({
+        taskId: mockTask.id,
+        task: mockTask,
+        error: { code: -32010, data: { providerStatus: 503 } },
+      });
+      expect(
+        entry?.attempts.map(({ attempt, error }) => [attempt, error.code])
+      ).toEqual([
+        [1, -32010],
+        [2, -32010],
+      ]);
+    });
+
+    it("should keep a task failed by an error that is not retryable", async () => {
+      taskProcessor.processTask.mockRejectedValue(new Error("Bad prompt"));
+
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect((await deadLetterStore.get(mockTask.id))?.attempts).toHaveLength(
+        1
+      );
+    });
+
+    it("should not keep completed tasks", async () => {
+      taskProcessor.processTask.mockResolvedValue();
+
+      await taskQueue.enqueueTask(mockTask);
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      expect(await deadLetterStore.list()).toEqual([]);
+    });
   });
 
   describe("cancelTask", () => {
@@ -242,4 +613,201 @@ describe("TaskQueue", () => {
       expect(status.completedTasks).toBeGreaterThanOrEqual(0);
     });
   });
+
+  describe("scheduling", () => {
+    let release: () => void;
+
+    const createTask = (id: string, fields: Partial<Task> = {}): Task => ({
+      ...mockTask,
+      id,
+      ...fields,
+    });
+    const processedIds = () =>
+      taskProcessor.processTask.mock.calls.map(([task]) => task.id);
+    const drain = async () => {
+      release();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+    };
+
+    beforeEach(() => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 1,
+        maxRetries: 0,
+        retryDelay: 0,
+        starvationThreshold: 20,
+      });
+      // The first task holds the only slot until released
+      taskProcessor.processTask.mockReset();
+      taskProcessor.processTask
+        .mockImplementationOnce(
+          () =>
+            new Promise<void>((resolve) => {
+              release = resolve;
+            })
+        )
+        .mockResolvedValue(undefined);
+    });
+
+    it("should run higher priorities first", async () => {
+      await taskQueue.enqueueTask(createTask("blocker"));
+      await taskQueue.enqueueTask(
+        createTask("low", { priority: TaskPriority.LOW })
+      );
+      await taskQueue.enqueueTask(createTask("normal"));
+      await taskQueue.enqueueTask(
+        createTask("high", { priority: TaskPriority.HIGH })
+      );
+
+      expect(taskQueue.getQueueStatus().queuedByPriority).toEqual({
+        high: 1,
+        normal: 1,
+        low: 1,
+      });
+
+      await drain();
+      expect(processedIds()).toEqual(["blocker", "high", "normal", "low"]);
+    });
+
+    it("should let sessions take turns", async () => {
+      await taskQueue.enqueueTask(createTask("blocker", { sessionId: "a" }));
+      for (const id of ["a1", "a2", "a3"]) {
+        await taskQueue.enqueueTask(createTask(id, { sessionId: "a" }));
+      }
+      await taskQueue.enqueueTask(createTask("b1", { sessionId: "b" }));
+      await taskQueue.enqueueTask(createTask("c1", { clientId: "client-c" }));
+
+      await drain();
+      expect(processedIds()).toEqual(["blocker", "a1", "b1", "c1", "a2", "a3"]);
+    });
+
+    it("should run a task that waited too long before higher priorities", async () => {
+      await taskQueue.enqueueTask(createTask("blocker"));
+      await taskQueue.enqueueTask(
+        createTask("low", { priority: TaskPriority.LOW })
+      );
+      await new Promise((resolve) => setTimeout(resolve, 30));
+      await taskQueue.enqueueTask(
+        createTask("high", { priority: TaskPriority.HIGH })
+      );
+
+      await drain();
+      expect(processedIds()).toEqual(["blocker", "low", "high"]);
+    });
+  });
+
+  describe("concurrency pools", () => {
+    const releases: Record<string, () => void> = {};
+
+    const createTask = (id: string, taskType: string): Task => ({
+      ...mockTask,
+      id,
+      taskType,
+    });
+    const processedIds = () =>
+      taskProcessor.processTask.mock.calls.map(([task]) => task.id);
+    const finish = async (id: string) => {
+      releases[id]();
+      await new Promise((resolve) => setTimeout(resolve, 10));
+    };
+
+    beforeEach(() => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 4,
+        maxRetries: 0,
+        retryDelay: 0,
+        skillConcurrency: { text2video: 1 },
+        providerConcurrency: { fal: 2 },
+        skillProviders: { text2image: "fal", text2video: "piapi" },
+      });
+      // Each task runs until released
+      taskProcessor.processTask.mockReset();
+      taskProcessor.processTask.mockImplementation(
+        (task: Task) =>
+          new Promise<void>((resolve) => {
+            releases[task.id] = resolve;
+          })
+      );
+    });
+
+    it("should let tasks of other pools pass a full pool", async () => {
+      await taskQueue.enqueueTask(createTask("video-1", "text2video"));
+      await taskQueue.enqueueTask(createTask("video-2", "text2video"));
+      await taskQueue.enqueueTask(createTask("image-1", "text2image"));
+
+      expect(processedIds()).toEqual(["video-1", "image-1"]);
+
+      await finish("video-1");
+      expect(processedIds()).toEqual(["video-1", "image-1", "video-2"]);
+    });
+
+    it("should limit the tasks running per provider", async () => {
+      for (const id of ["image-1", "image-2", "image-3"]) {
+        await taskQueue.enqueueTask(createTask(id, "text2image"));
+      }
+
+      expect(processedIds()).toEqual(["image-1", "image-2"]);
+
+      await finish("image-2");
+      expect(processedIds()).toEqual(["image-1", "image-2", "image-3"]);
+    });
+
+    it("should report the status of each pool", async () => {
+      await taskQueue.enqueueTask(createTask("video-1", "text2video"));
+      await taskQueue.enqueueTask(createTask("video-2", "text2video"));
+      await taskQueue.enqueueTask(createTask("image-1", "text2image"));
+
+      expect(taskQueue.getQueueStatus().pools).toEqual({
+        skills: {
+          text2video: { limit: 1, queued: 1, processing: 1 },
+          text2image: { limit: undefined, queued: 0, processing: 1 },
+        },
+        providers: {
+          fal: { limit: 2, queued: 0, processing: 1 },
+          piapi: { limit: undefined, queued: 1, processing: 1 },
+        },
+      });
+    });
+
+    it("should reject new tasks when the queue of their pool is full", async () => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 1,
+        maxRetries: 0,
+        retryDelay: 0,
+        skillQueueDepth: { text2video: 1 },
+        providerQueueDepth: { fal: 2 },
+        skillProviders: { text2image: "fal", text2video: "piapi" },
+      });
+      await taskQueue.enqueueTask(createTask("video-1", "text2video"));
+      await taskQueue.enqueueTask(createTask("video-2", "text2video"));
+
+      expect(() =>
+        taskQueue.checkCapacity(createTask("video-3", "text2video"))
+      ).toThrow(AgentBusyError);
+      expect(() =>
+        taskQueue.checkCapacity(createTask("image-1", "text2image"))
+      ).not.toThrow();
+      expect(taskQueue.getQueueStatus().pools.skills.text2video).toMatchObject({
+        queueLimit: 1,
+        queued: 1,
+      });
+    });
+
+    it("should count every task of a batch against its pool", () => {
+      taskQueue = new TaskQueue(taskProcessor, {
+        maxConcurrent: 1,
+        maxRetries: 0,
+        retryDelay: 0,
+        providerQueueDepth: { fal: 2 },
+        skillProviders: { text2image: "fal" },
+      });
+      const images = ["image-1", "image-2", "image-3"].map((id) =>
+        createTask(id, "text2image")
+      );
+
+      expect(() =>
+        taskQueue.checkCapacity(...images.slice(0, 2))
+      ).not.toThrow();
+      expect(() => taskQueue.checkCapacity(...images)).toThrow(AgentBusyError);
+    });
+  });
 });
@@ -0,0 +1,153 @@
+/**
+ * @file taskStateMachine.test.ts
+ * @description Tests for the task state machine and the transitions of the
+ * task store
+ */
+
+import { describe, expect, it, beforeEach } from "@jest/globals";
+import {
+  applyTransition,
+  canTransition,
+  startHistory,
+} from "../../../src/core/taskStateMachine";
+import { TaskStore } from "../../../src/core/taskStore";
+import {
+  InvalidTaskTransitionError,
+  TaskNotFoundError,
+} from "../../../src/core/errorHandler";
+import { Task, TaskState } from "../../../src/interfaces/a2a";
+
+jest.mock("../../../src/utils/logger");
+
+describe("taskStateMachine", () => {
+  /**
+   * @function createTask
+   * @description Builds a new task in a state
+   */
+  const createTask = (state: TaskState): Task =>
+    startHistory({
+      id: "task-1",
+      status: { state, timestamp: "2026-01-01T00:00:00.000Z" },
+    });
+
+  /**
+   * @function text
+   * @description Builds an agent status message
+   */
+  const text = (value: string) => ({
+    role: "agent" as const,
+    parts: [{ type: "text" as const, text: value }],
+  });
+
+  it("should record the initial status as the first history entry", () => {
+    const task = createTask(TaskState.SUBMITTED);
+
+    expect(task.status.sequence).toBe(1);
+    expect(task.history).toEqual([task.status]);
+  });
+
+  it("should append one numbered history entry per transition", () => {
+    let task = createTask(TaskState.SUBMITTED);
+    task = applyTransition(task, { state: TaskState.WORKING }) as Task;
+    task = applyTransition(task, {
+      state: TaskState.WORKING,
+      message: text("Generating image..."),
+    }) as Task;
+    task = applyTransition(task, {
+      state: TaskState.COMPLETED,
+      changes: { artifacts: [{ index: 0, parts: [] }] },
+    }) as Task;
+
+    expect(
+      task.history?.map(({ state, sequence }) => [state, sequence])
+    ).toEqual([
+      [TaskState.SUBMITTED, 1],
+      [TaskState.WORKING, 2],
+      [TaskState.WORKING, 3],
+      [TaskState.COMPLETED, 4],
+    ]);
+    expect(task.status).toBe(task.history?.[3]);
+    expect(task.artifacts).toHaveLength(1);
+  });
+
+  it("should skip a transition repeating the state and message", () => {
+    const task = applyTransition(createTask(TaskState.SUBMITTED), {
+      state: TaskState.WORKING,
+      message: text("Generating image..."),
+    }) as Task;
+
+    expect(
+      applyTransition(task, {
+        state: TaskState.WORKING,
+        message: text("Generating image..."),
+      })
+    ).toBeNull();
+  });
+
+  it("should reject transitions out of final states", () => {
+    expect(canTransition(TaskState.COMPLETED, TaskState.WORKING)).toBe(false);
+    expect(canTransition(TaskState.FAILED, TaskState.SUBMITTED)).toBe(true);
+    expect(() =>
+      applyTransition(createTask(TaskState.CANCELLED), {
+        state: TaskState.WORKING,
+      })
+    ).toThrow(InvalidTaskTransitionError);
+    expect(() =>
+      applyTransition(createTask(TaskState.INPUT_REQUIRED), {
+        state: TaskState.COMPLETED,
+      })
+    ).toThrow("Task task-1 cannot move from input-required to completed");
+  });
+
+  describe("TaskStore", () => {
+    let store: TaskStore;
+
+    beforeEach(async () => {
+      store = new TaskStore();
+      await store.createTask({
+        id: "task-1",
+        status: {
+          state: TaskState.SUBMITTED,
+          timestamp: "2026-01-01T00:00:00.000Z",
+        },
+      });
+    });
+
+    it("should run the transitions of a task one at a time", async () => {
+      await Promise.all([
+        store.transitionTask("task-1", { state: TaskState.WORKING }),
+        store.transitionTask("task-1", {
+          state: TaskState.WORKING,
+          message: text("50%"),
+        }),
+        store.transitionTask("task-1", { state: TaskState.COMPLETED }),
+      ]);
+
+      const task = (await store.getTask("task-1")) as Task;
+      expect(task.history?.map(({ sequence }) => sequence)).toEqual([
+        1, 2, 3, 4,
+      ]);
+      expect(task.status.state).toBe(TaskState.COMPLETED);
+    });
+
+    it("should only change the status through transitions", async () => {
+      const task = (await store.getTask("task-1")) as Task;
+
+      await expect(
+        store.updateTask({
+          ...task,
+          status: { ...task.status, state: TaskState.COMPLETED },
+        })
+      ).rejects.toThrow("can only change through transitionTask");
+      await expect(
+        store.updateTask({ ...task, metadata: { label: "cats" } })
+      ).resolves.toMatchObject({ metadata: { label: "cats" } });
+    });
+
+    it("should reject transitions of unknown tasks", async () => {
+      await expect(
+        store.transitionTask("missing", { state: TaskState.WORKING })
+      ).rejects.toThrow(TaskNotFoundError);
+    });
+  });
+});
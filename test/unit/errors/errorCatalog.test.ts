@@ -0,0 +1,116 @@
+/**
+ * @file errorCatalog.test.ts
+ * @description Tests for the mapping of internal errors to JSON-RPC error codes
+ */
+
+import {
+  A2AErrorCode,
+  getHttpStatus,
+  toJsonRpcError,
+} from "../../../src/errors/errorCatalog";
+import {
+  A2AError,
+  InvalidParamsError,
+  TaskCancellationError,
+  TaskNotCancelableError,
+  TaskNotFoundError,
+  TaskTimeoutError,
+} from "../../../src/core/errorHandler";
+import { MediaError, MediaErrorCode } from "../../../src/errors/mediaError";
+import { TaskState } from "../../../src/interfaces/a2a";
+
+describe("errorCatalog", () => {
+  describe("toJsonRpcError", () => {
+    it("should map A2A errors to their protocol codes with structured data", () => {
+      expect(toJsonRpcError(new TaskNotFoundError("task-1"))).toEqual({
+        code: A2AErrorCode.TASK_NOT_FOUND,
+        message: "Task task-1 not found",
+        data: { type: "TaskNotFound", retryable: false, taskId: "task-1" },
+      });
+      expect(
+        toJsonRpcError(
+          new TaskNotCancelableError("task-1", TaskState.COMPLETED)
+        ).data
+      ).toEqual({
+        type: "TaskNotCancelable",
+        retryable: false,
+        taskId: "task-1",
+        state: TaskState.COMPLETED,
+      });
+      expect(toJsonRpcError(new InvalidParamsError("Bad")).code).toBe(
+        A2AErrorCode.INVALID_PARAMS
+      );
+    });
+
+    it("should map timeouts and cancellations", () => {
+      const timeout = toJsonRpcError(new TaskTimeoutError("task-1"));
+      expect(timeout.code).toBe(A2AErrorCode.TASK_TIMEOUT);
+      // Only the timeouts of idempotent jobs are retried
+      expect(timeout.data.retryable).toBe(false);
+      expect(
+        toJsonRpcError(new TaskTimeoutError("task-1"), true).data.retryable
+      ).toBe(true);
+
+      const cancelled = toJsonRpcError(new TaskCancellationError("task-1"));
+      expect(cancelled.code).toBe(A2AErrorCode.TASK_CANCELLED);
+      expect(cancelled.data).toEqual({
+        type: "TaskCancelled",
+        retryable: false,
+        taskId: "task-1",
+      });
+    });
+
+    it("should map media errors by code and provider status", () => {
+      const providerDown = toJsonRpcError(
+        new MediaError(MediaErrorCode.API_ERROR, 503, "Unavailable")
+      );
+      expect(providerDown).toEqual({
+        code: A2AErrorCode.PROVIDER_ERROR,
+        message: "API_ERROR: Unavailable",
+        data: {
+          type: "ProviderError",
+          retryable: true,
+          mediaErrorCode: MediaErrorCode.API_ERROR,
+          providerStatus: 503,
+          details: "Unavailable",
+        },
+      });
+      expect(
+        toJsonRpcError(new MediaError(MediaErrorCode.API_ERROR, 400)).data
+          .retryable
+      ).toBe(false);
+      // The queue does not retry rate limits
+      expect(
+        toJsonRpcError(new MediaError(MediaErrorCode.API_ERROR, 429)).data
+          .retryable
+      ).toBe(false);
+      expect(
+        toJsonRpcError(new MediaError(MediaErrorCode.INVALID_REQUEST, 422)).code
+      ).toBe(A2AErrorCode.INVALID_PARAMS);
+      expect(
+        toJsonRpcError(new MediaError(MediaErrorCode.TIMEOUT, 0)).code
+      ).toBe(A2AErrorCode.TASK_TIMEOUT);
+    });
+
+    it("should map unknown errors to an internal error", () => {
+      expect(toJsonRpcError(new Error("Boom"))).toEqual({
+        code: A2AErrorCode.INTERNAL_ERROR,
+        message: "Boom",
+        data: { type: "InternalError", retryable: false },
+      });
+      expect(toJsonRpcError(new A2AError("Odd", "SOMETHING_ELSE")).code).toBe(
+        A2AErrorCode.INTERNAL_ERROR
+      );
+    });
+  });
+
+  describe("getHttpStatus", () => {
+    it("should return the HTTP status of a code", () => {
+      expect(getHttpStatus(A2AErrorCode.TASK_NOT_FOUND)).toBe(404);
+      expect(getHttpStatus(A2AErrorCode.INVALID_PARAMS)).toBe(400);
+      expect(getHttpStatus(A2AErrorCode.TASK_NOT_CANCELABLE)).toBe(409);
+      expect(getHttpStatus(A2AErrorCode.PROVIDER_ERROR)).toBe(502);
+      expect(getHttpStatus(12345)).toBe(500);
+    });
+  });
+});
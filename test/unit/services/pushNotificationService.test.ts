@@ -142,6 +142,37 @@ describe("PushNotificationService", () => {
       expect(mockResponse.write).not.toHaveBeenCalled();
     });
 
+    it("should filter the events of each connection by its own types", () => {
+      const otherResponse: Partial<Response> = {
+        writeHead: jest.fn(),
+        write: jest.fn(),
+        on: jest.fn(),
+      };
+      service.subscribeSSE(
+        "test-task-id",
+        mockResponse as Response,
+        mockConfig
+      );
+      service.subscribeSSE("test-task-id", otherResponse as Response, {
+        taskId: "test-task-id",
+        eventTypes: [PushNotificationEventType.COMPLETION],
+      });
+      (mockResponse.write as jest.Mock).mockClear();
+      (otherResponse.write as jest.Mock).mockClear();
+
+      service.notify("test-task-id", {
+        type: PushNotificationEventType.STATUS_UPDATE,
+        taskId: "test-task-id",
+        timestamp: new Date().toISOString(),
+        data: { status: "working" },
+      });
+
+      expect(mockResponse.write).toHaveBeenCalledWith(
+        expect.stringContaining('"status":"working"')
+      );
+      expect(otherResponse.write).not.toHaveBeenCalled();
+    });
+
     it("should handle webhook notifications", async () => {
       global.fetch = jest.fn().mockResolvedValue({ ok: true });
 
@@ -175,6 +206,137 @@ describe("PushNotificationService", () => {
     });
   });
 
+  describe("webhooks", () => {
+    it("should keep the webhook when SSE clients disconnect", async () => {
+      global.fetch = jest.fn().mockResolvedValue({ ok: true });
+
+      await service.subscribeWebhook("test-task-id", {
+        ...mockConfig,
+        webhookUrl: "http://test-webhook.com",
+      });
+      service.subscribeSSE(
+        "test-task-id",
+        mockResponse as Response,
+        mockConfig
+      );
+      service.unsubscribe("test-task-id", mockResponse as Response);
+
+      service.notify("test-task-id", {
+        type: PushNotificationEventType.STATUS_UPDATE,
+        taskId: "test-task-id",
+        timestamp: new Date().toISOString(),
+        data: { status: "working" },
+      });
+
+      expect(global.fetch).toHaveBeenCalledWith(
+        "http://test-webhook.com",
+        expect.anything()
+      );
+      expect(service.getWebhookConfig("test-task-id")?.webhookUrl).toBe(
+        "http://test-webhook.com"
+      );
+    });
+  });
+
+  describe("replay", () => {
+    const createEvent = (
+      type: PushNotificationEventType,
+      status: string
+    ): PushNotificationEvent => ({
+      type,
+      taskId: "test-task-id",
+      timestamp: new Date().toISOString(),
+      data: { status },
+    });
+
+    it("should tag logged events with their ID", () => {
+      service.subscribeSSE(
+        "test-task-id",
+        mockResponse as Response,
+        mockConfig
+      );
+      (mockResponse.write as jest.Mock).mockClear();
+
+      service.notify(
+        "test-task-id",
+        createEvent(PushNotificationEventType.STATUS_UPDATE, "working")
+      );
+
+      expect(mockResponse.write).toHaveBeenCalledWith(
+        expect.stringMatching(/^id: 1\nevent: status_update\n/)
+      );
+    });
+
+    it("should replay events missed since the last event ID", () => {
+      // Events emitted while no client is connected are still logged
+      service.notify(
+        "test-task-id",
+        createEvent(PushNotificationEventType.STATUS_UPDATE, "submitted")
+      );
+      service.notify(
+        "test-task-id",
+        createEvent(PushNotificationEventType.STATUS_UPDATE, "working")
+      );
+
+      service.subscribeSSE(
+        "test-task-id",
+        mockResponse as Response,
+        mockConfig,
+        1
+      );
+
+      const writes = (mockResponse.write as jest.Mock).mock.calls.map(
+        (call) => call[0]
+      );
+      expect(writes.some((w: string) => w.includes("submitted"))).toBe(false);
+      expect(writes.some((w: string) => w.includes("id: 2\n"))).toBe(true);
+    });
+
+    it("should close the stream after replaying a completion event", () => {
+      mockResponse.end = jest.fn() as any;
+      service.notify(
+        "test-task-id",
+        createEvent(PushNotificationEventType.COMPLETION, "completed")
+      );
+
+      service.subscribeSSE(
+        "test-task-id",
+        mockResponse as Response,
+        mockConfig,
+        0
+      );
+
+      expect(mockResponse.write).toHaveBeenCalledWith(
+        expect.stringContaining("event: completion")
+      );
+      expect(mockResponse.end).toHaveBeenCalled();
+    });
+  });
+
+  describe("closeConnections", () => {
+    it("should send a final restarting event and close the stream", () => {
+      mockResponse.end = jest.fn() as any;
+      service.subscribeSSE(
+        "test-task-id",
+        mockResponse as Response,
+        mockConfig
+      );
+      service.notify("test-task-id", {
+        type: PushNotificationEventType.STATUS_UPDATE,
+        taskId: "test-task-id",
+        timestamp: new Date().toISOString(),
+        data: { status: "working" },
+      });
+
+      service.closeConnections();
+
+      const lastWrite = (mockResponse.write as jest.Mock).mock.calls.pop();
+      expect(lastWrite?.[0]).toContain('"status":"restarting"');
+      expect(lastWrite?.[0]).toContain('"lastEventId":1');
+      expect(mockResponse.end).toHaveBeenCalled();
+    });
+  });
+
   describe("unsubscribe", () => {
     it("should remove client from connections", () => {
       service.subscribeSSE(
@@ -0,0 +1,78 @@
+/**
+ * @file batch.test.ts
+ * @description Tests for the aggregation of the child tasks of a batch
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { aggregateBatch, describeBatch } from "../../../src/utils/batch";
+import { Task, TaskState } from "../../../src/interfaces/a2a";
+
+describe("aggregateBatch", () => {
+  /**
+   * @function child
+   * @description Builds a child task in a state, with one image if completed
+   */
+  const child = (id: string, state: TaskState): Task => ({
+    id,
+    status: { state, timestamp: "2026-01-01T00:00:00.000Z" },
+    artifacts:
+      state === TaskState.COMPLETED
+        ? [
+            {
+              index: 0,
+              parts: [{ type: "image", url: `https://example.com/${id}.png` }],
+            },
+          ]
+        : undefined,
+  });
+
+  it("should stay submitted until a child starts", () => {
+    const { state, batch } = aggregateBatch([
+      child("task-1", TaskState.SUBMITTED),
+      null,
+    ]);
+
+    expect(state).toBe(TaskState.SUBMITTED);
+    expect(batch).toMatchObject({ total: 2, percentComplete: 0 });
+    expect(batch.counts[TaskState.SUBMITTED]).toBe(2);
+  });
+
+  it("should report progress and partial artifacts while working", () => {
+    const { state, batch, artifacts } = aggregateBatch([
+      child("task-1", TaskState.COMPLETED),
+      child("task-2", TaskState.FAILED),
+      child("task-3", TaskState.WORKING),
+    ]);
+
+    expect(state).toBe(TaskState.WORKING);
+    expect(batch.percentComplete).toBe(66);
+    expect(artifacts).toEqual([
+      {
+        index: 0,
+        parts: [{ type: "image", url: "https://example.com/task-1.png" }],
+        metadata: { taskId: "task-1" },
+      },
+    ]);
+    expect(describeBatch(batch)).toBe(
+      "2 of 3 tasks finished: 1 completed, 1 failed"
+    );
+  });
+
+  it("should complete if any child completed, else fail or cancel", () => {
+    expect(
+      aggregateBatch([
+        child("task-1", TaskState.COMPLETED),
+        child("task-2", TaskState.FAILED),
+      ]).state
+    ).toBe(TaskState.COMPLETED);
+    expect(
+      aggregateBatch([
+        child("task-1", TaskState.CANCELLED),
+        child("task-2", TaskState.FAILED),
+      ]).state
+    ).toBe(TaskState.FAILED);
+    expect(aggregateBatch([child("task-1", TaskState.CANCELLED)]).state).toBe(
+      TaskState.CANCELLED
+    );
+  });
+});
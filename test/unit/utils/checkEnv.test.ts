@@ -0,0 +1,36 @@
+/**
+ * @file checkEnv.test.ts
+ * @description Tests for the parsing of environment settings
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { parseConcurrencyLimits } from "../../../src/utils/checkEnv";
+
+jest.mock("../../../src/utils/logger");
+
+describe("parseConcurrencyLimits", () => {
+  it("should parse limits by pool name", () => {
+    expect(parseConcurrencyLimits(" text2video:2, text2image:4,", {})).toEqual({
+      text2video: 2,
+      text2image: 4,
+    });
+  });
+
+  it("should use the defaults when the variable is not set", () => {
+    expect(parseConcurrencyLimits(undefined, { piapi: 5 })).toEqual({
+      piapi: 5,
+    });
+    expect(parseConcurrencyLimits("", { piapi: 5 })).toEqual({});
+  });
+
+  it("should reject entries without a positive integer limit", () => {
+    for (const value of ["piapi", "piapi:0", "piapi:1.5", ":3"]) {
+      expect(() => parseConcurrencyLimits(value, {})).toThrow(
+        "Invalid concurrency limit"
+      );
+    }
+    expect(() => parseConcurrencyLimits("piapi:-1", {}, "queue depth")).toThrow(
+      'Invalid queue depth "piapi:-1"'
+    );
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * @file cron.test.ts
+ * @description Tests for the parsing of cron expressions and their next run
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { getNextRun, parseCron } from "../../../src/utils/cron";
+import { InvalidParamsError } from "../../../src/core/errorHandler";
+
+describe("parseCron", () => {
+  it("should expand ranges, lists and steps", () => {
+    const cron = parseCron("*/15 9-11 1,15 * 1-5");
+
+    expect(Array.from(cron.minutes)).toEqual([0, 15, 30, 45]);
+    expect(Array.from(cron.hours)).toEqual([9, 10, 11]);
+    expect(Array.from(cron.daysOfMonth)).toEqual([1, 15]);
+    expect(cron.months.size).toBe(12);
+    expect(Array.from(cron.daysOfWeek)).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it("should accept shorthands and 7 for Sunday", () => {
+    expect(parseCron("@daily")).toEqual(parseCron("0 0 * * *"));
+    expect(parseCron("0 0 * * 7")).toEqual(parseCron("0 0 * * 0"));
+  });
+
+  it("should reject malformed or impossible expressions", () => {
+    expect(() => parseCron("0 9 * *")).toThrow(InvalidParamsError);
+    expect(() => parseCron("0 24 * * *")).toThrow("out of range 0-23");
+    expect(() => parseCron("0 9 * * mon")).toThrow('invalid day of week "mon"');
+    expect(() => parseCron("0 0 30 2 *")).toThrow("it never matches");
+  });
+});
+
+describe("getNextRun", () => {
+  const next = (expression: string, after: string) =>
+    getNextRun(parseCron(expression), new Date(after))?.toISOString();
+
+  it("should find the next matching minute, after the given date", () => {
+    expect(next("0 9 * * *", "2026-03-01T08:59:30Z")).toBe(
+      "2026-03-01T09:00:00.000Z"
+    );
+    expect(next("0 9 * * *", "2026-03-01T09:00:00Z")).toBe(
+      "2026-03-02T09:00:00.000Z"
+    );
+  });
+
+  it("should roll over months and years", () => {
+    expect(next("30 6 1 * *", "2026-12-15T00:00:00Z")).toBe(
+      "2027-01-01T06:30:00.000Z"
+    );
+  });
+
+  it("should run on either day when both day fields are restricted", () => {
+    // 2026-03-02 is a Monday
+    expect(next("0 0 15 * 1", "2026-03-01T00:00:00Z")).toBe(
+      "2026-03-02T00:00:00.000Z"
+    );
+    expect(next("0 0 */10 * *", "2026-03-01T00:00:00Z")).toBe(
+      "2026-03-11T00:00:00.000Z"
+    );
+  });
+});
@@ -0,0 +1,46 @@
+/**
+ * @file idempotency.test.ts
+ * @description Tests for task submission idempotency keys
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import {
+  getSubmissionFingerprint,
+  validateIdempotencyKey,
+} from "../../../src/utils/idempotency";
+import { InvalidParamsError } from "../../../src/core/errorHandler";
+
+describe("getSubmissionFingerprint", () => {
+  it("should ignore key order and undefined properties", () => {
+    expect(
+      getSubmissionFingerprint({
+        metadata: { taskType: "text2image", seed: 1 },
+        sessionId: undefined,
+      })
+    ).toBe(
+      getSubmissionFingerprint({
+        metadata: { seed: 1, taskType: "text2image" },
+      })
+    );
+  });
+
+  it("should tell different submissions apart", () => {
+    expect(getSubmissionFingerprint({ parts: ["A cat"] })).not.toBe(
+      getSubmissionFingerprint({ parts: ["A dog"] })
+    );
+  });
+});
+
+describe("validateIdempotencyKey", () => {
+  it("should accept a missing or valid key", () => {
+    expect(validateIdempotencyKey(undefined)).toBeUndefined();
+    expect(validateIdempotencyKey("order-1")).toBe("order-1");
+  });
+
+  it("should reject empty or oversized keys", () => {
+    expect(() => validateIdempotencyKey(" ")).toThrow(InvalidParamsError);
+    expect(() => validateIdempotencyKey("x".repeat(256))).toThrow(
+      "at most 255 characters"
+    );
+  });
+});
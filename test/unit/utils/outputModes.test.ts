@@ -0,0 +1,58 @@
+/**
+ * @file outputModes.test.ts
+ * @description Tests for output mode negotiation and JSON artifact rendering
+ */
+
+import {
+  negotiateOutputMode,
+  toJsonDescriptor,
+} from "../../../src/utils/outputModes";
+
+describe("negotiateOutputMode", () => {
+  const videoModes = ["video/mp4", "application/json"];
+
+  it("should use the skill's preferred mode when the client accepts any", () => {
+    expect(negotiateOutputMode(videoModes)).toBe("video/mp4");
+    expect(negotiateOutputMode(videoModes, [])).toBe("video/mp4");
+  });
+
+  it("should follow the client's order of preference", () => {
+    expect(
+      negotiateOutputMode(videoModes, ["application/json", "video/mp4"])
+    ).toBe("application/json");
+  });
+
+  it("should match wildcards", () => {
+    expect(negotiateOutputMode(videoModes, ["video/*"])).toBe("video/mp4");
+    expect(negotiateOutputMode(videoModes, ["*/*"])).toBe("video/mp4");
+  });
+
+  it("should return null when no mode is acceptable", () => {
+    expect(negotiateOutputMode(videoModes, ["image/png"])).toBeNull();
+  });
+});
+
+describe("toJsonDescriptor", () => {
+  it("should turn media parts into data parts", () => {
+    expect(
+      toJsonDescriptor({
+        parts: [{ type: "video", url: "http://example.com/video.mp4" }],
+        metadata: { url: "http://example.com/video.mp4" },
+        index: 0,
+      })
+    ).toEqual({
+      parts: [
+        {
+          type: "data",
+          data: {
+            type: "video",
+            mimeType: "video/mp4",
+            url: "http://example.com/video.mp4",
+          },
+        },
+      ],
+      metadata: { url: "http://example.com/video.mp4" },
+      index: 0,
+    });
+  });
+});
@@ -0,0 +1,96 @@
+/**
+ * @file sweep.test.ts
+ * @description Tests for the expansion of parameter sweeps
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import {
+  expandSweep,
+  labelArtifacts,
+  renderTemplate,
+} from "../../../src/utils/sweep";
+import { InvalidParamsError } from "../../../src/core/errorHandler";
+
+describe("expandSweep", () => {
+  it("should expand the cartesian product, the first variable slowest", () => {
+    const tasks = expandSweep({
+      template: "{{subject}} in {{ style }}",
+      variables: { subject: ["A cat", "A dog"], style: ["ink", "oil"] },
+      parameters: { aspectRatio: ["1:1"] },
+    });
+
+    expect(tasks.map(({ variables }) => variables)).toEqual([
+      { subject: "A cat", style: "ink", aspectRatio: "1:1" },
+      { subject: "A cat", style: "oil", aspectRatio: "1:1" },
+      { subject: "A dog", style: "ink", aspectRatio: "1:1" },
+      { subject: "A dog", style: "oil", aspectRatio: "1:1" },
+    ]);
+    expect(tasks[3].message).toEqual({
+      role: "user",
+      parts: [
+        { type: "text", text: "A dog in oil" },
+        { type: "data", data: { aspectRatio: "1:1" } },
+      ],
+    });
+  });
+
+  it("should send a plain prompt without parameters", () => {
+    const [task] = expandSweep({ template: "A cat" });
+
+    expect(task.message.parts).toEqual([{ type: "text", text: "A cat" }]);
+    expect(task.variables).toEqual({});
+  });
+
+  it("should reject placeholders without values and unused variables", () => {
+    expect(() =>
+      expandSweep({ template: "{{subject}} in {{style}}", variables: {} })
+    ).toThrow('Template placeholder "subject" has no values in variables');
+    expect(() =>
+      expandSweep({ template: "A cat", variables: { style: ["ink"] } })
+    ).toThrow('Variable "style" is not used in the template');
+  });
+
+  it("should reject malformed values", () => {
+    expect(() =>
+      expandSweep({ template: "{{subject}}", variables: { subject: [] } })
+    ).toThrow(InvalidParamsError);
+    expect(() =>
+      expandSweep({ template: "A cat", parameters: { seed: 1 } })
+    ).toThrow("parameters.seed must be a non-empty array of values");
+    expect(() => expandSweep({ template: "" })).toThrow(
+      "template must be a non-empty string"
+    );
+  });
+
+  it("should reject a sweep larger than a batch", () => {
+    expect(() =>
+      expandSweep({
+        template: "A cat",
+        parameters: {
+          seed: Array.from({ length: 50 }, (_, seed) => seed),
+          aspectRatio: ["1:1", "4:3", "16:9", "9:16", "3:4"],
+        },
+      })
+    ).toThrow("The sweep expands to 250 tasks, more than the 200 of a batch");
+  });
+});
+
+describe("renderTemplate", () => {
+  it("should keep placeholders without a value", () => {
+    expect(renderTemplate("{{a}} and {{b}}", { a: 1 })).toBe("1 and {{b}}");
+  });
+});
+
+describe("labelArtifacts", () => {
+  it("should add the variables to the artifact metadata", () => {
+    const [artifact] = labelArtifacts(
+      [{ index: 0, parts: [], metadata: { url: "https://example.com/a.png" } }],
+      { seed: 1 }
+    );
+
+    expect(artifact.metadata).toEqual({
+      url: "https://example.com/a.png",
+      variables: { seed: 1 },
+    });
+  });
+});
@@ -0,0 +1,134 @@
+/**
+ * @file taskParameters.test.ts
+ * @description Tests for the resolution of skill parameters from data parts
+ */
+
+import {
+  getReferenceImageUrls,
+  getTaskParameters,
+  getTaskPriority,
+  getTaskRunAt,
+} from "../../../src/utils/taskParameters";
+import { InvalidParamsError } from "../../../src/core/errorHandler";
+import { Message, TaskPriority } from "../../../src/interfaces/a2a";
+
+describe("getTaskParameters", () => {
+  /**
+   * @function message
+   * @description Builds a user message with a prompt and the given data parts
+   */
+  const message = (...data: Record<string, any>[]): Message => ({
+    role: "user",
+    parts: [
+      { type: "text", text: "A cat surfing" },
+      ...data.map((entry) => ({ type: "data" as const, data: entry })),
+    ],
+  });
+
+  it("should read parameters from data parts", () => {
+    expect(
+      getTaskParameters(
+        message({ taskType: "text2video" }, { duration: 10 }),
+        undefined
+      )
+    ).toEqual({ taskType: "text2video", duration: 10 });
+  });
+
+  it("should fall back to metadata", () => {
+    expect(
+      getTaskParameters(message({ taskType: "text2video" }), {
+        imageUrls: ["http://example.com/cat.png"],
+      })
+    ).toEqual({
+      taskType: "text2video",
+      imageUrls: ["http://example.com/cat.png"],
+    });
+  });
+
+  it("should accept the same value given twice", () => {
+    expect(
+      getTaskParameters(message({ imageUrls: ["a"] }, { imageUrls: ["a"] }), {
+        imageUrls: ["a"],
+      })
+    ).toEqual({ imageUrls: ["a"] });
+  });
+
+  it("should reject conflicting data parts", () => {
+    expect(() =>
+      getTaskParameters(message({ duration: 5 }, { duration: 10 }))
+    ).toThrow(InvalidParamsError);
+  });
+
+  it("should let a data part override the metadata", () => {
+    expect(
+      getTaskParameters(message({ taskType: "text2video" }), {
+        taskType: "text2image",
+      })
+    ).toEqual({ taskType: "text2video" });
+  });
+
+  it("should reject data parts without an object", () => {
+    expect(() =>
+      getTaskParameters({
+        role: "user",
+        parts: [{ type: "data", data: [1, 2] as any }],
+      })
+    ).toThrow(InvalidParamsError);
+  });
+});
+
+describe("getReferenceImageUrls", () => {
+  it("should collect image URLs and image file URIs", () => {
+    expect(
+      getReferenceImageUrls({
+        role: "user",
+        parts: [
+          { type: "text", text: "A cat surfing" },
+          { type: "image", url: "http://example.com/a.png" },
+          {
+            type: "file",
+            file: {
+              uri: "http://agent/artifacts/b.png",
+              mimeType: "image/png",
+            },
+          },
+          {
+            type: "file",
+            file: {
+              uri: "http://example.com/doc.pdf",
+              mimeType: "application/pdf",
+            },
+          },
+        ],
+      })
+    ).toEqual(["http://example.com/a.png", "http://agent/artifacts/b.png"]);
+  });
+});
+
+describe("getTaskPriority", () => {
+  it("should default to normal and accept known levels", () => {
+    expect(getTaskPriority()).toBe(TaskPriority.NORMAL);
+    expect(getTaskPriority("high")).toBe(TaskPriority.HIGH);
+  });
+
+  it("should reject unknown levels", () => {
+    expect(() => getTaskPriority("urgent")).toThrow(InvalidParamsError);
+    expect(() => getTaskPriority(1)).toThrow(
+      "Must be one of: high, normal, low"
+    );
+  });
+});
+
+describe("getTaskRunAt", () => {
+  it("should normalize the start time to UTC", () => {
+    expect(getTaskRunAt()).toBeUndefined();
+    expect(getTaskRunAt("2026-01-01T10:00:00+01:00")).toBe(
+      "2026-01-01T09:00:00.000Z"
+    );
+  });
+
+  it("should reject invalid dates", () => {
+    expect(() => getTaskRunAt("tomorrow")).toThrow(InvalidParamsError);
+    expect(() => getTaskRunAt(1767258000000)).toThrow("Invalid runAt");
+  });
+});
@@ -0,0 +1,37 @@
+/**
+ * @file taskTimeout.test.ts
+ * @description Tests for the resolution of task deadlines
+ */
+
+import { describe, expect, it } from "@jest/globals";
+import { resolveTaskTimeout } from "../../../src/utils/taskTimeout";
+import { InvalidParamsError } from "../../../src/core/errorHandler";
+
+describe("resolveTaskTimeout", () => {
+  it("should use the skill deadline, then the agent default", () => {
+    expect(resolveTaskTimeout({ timeout: 60000 }, 300000)).toBe(60000);
+    expect(resolveTaskTimeout({}, 300000)).toBe(300000);
+    expect(resolveTaskTimeout(undefined, 300000)).toBe(300000);
+  });
+
+  it("should accept a requested deadline within limits", () => {
+    const limits = { timeout: 60000, maxTimeout: 120000 };
+    expect(resolveTaskTimeout(limits, 300000, 5000)).toBe(5000);
+    expect(resolveTaskTimeout(limits, 300000, 120000)).toBe(120000);
+  });
+
+  it("should only let requests shorten a deadline without a maximum", () => {
+    expect(() => resolveTaskTimeout({ timeout: 60000 }, 300000, 60001)).toThrow(
+      InvalidParamsError
+    );
+  });
+
+  it("should reject deadlines that are too short or not numbers", () => {
+    expect(() => resolveTaskTimeout(undefined, 300000, 10)).toThrow(
+      "between 1000 and 300000"
+    );
+    expect(() => resolveTaskTimeout(undefined, 300000, "5000")).toThrow(
+      InvalidParamsError
+    );
+  });
+});